@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "AnalysisRevisionKind" AS ENUM ('initial', 'refinement', 'screencast');
+
+-- CreateTable
+CREATE TABLE "AnalysisRevision" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "videoId" TEXT NOT NULL,
+    "kind" "AnalysisRevisionKind" NOT NULL,
+    "prompt" TEXT,
+    "markdown" TEXT NOT NULL,
+    "plan" JSONB,
+    "model" TEXT NOT NULL,
+
+    CONSTRAINT "AnalysisRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AnalysisRevision_videoId_createdAt_idx" ON "AnalysisRevision"("videoId", "createdAt");
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "AnalysisRevision" ADD COLUMN     "parentId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Video" ADD COLUMN     "currentRevisionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "AnalysisRevision_parentId_idx" ON "AnalysisRevision"("parentId");
+
+-- Link existing refinements to the revision before them
+UPDATE "AnalysisRevision" AS r
+SET "parentId" = p."previousId"
+FROM (
+    SELECT "id", LAG("id") OVER (PARTITION BY "videoId" ORDER BY "createdAt") AS "previousId"
+    FROM "AnalysisRevision"
+) AS p
+WHERE r."id" = p."id" AND r."kind" <> 'initial';
+
+-- Point each video at its latest revision
+UPDATE "Video" AS v
+SET "currentRevisionId" = latest."id"
+FROM (
+    SELECT DISTINCT ON ("videoId") "id", "videoId"
+    FROM "AnalysisRevision"
+    ORDER BY "videoId", "createdAt" DESC
+) AS latest
+WHERE v."id" = latest."videoId";
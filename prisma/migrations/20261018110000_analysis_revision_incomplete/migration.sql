@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "AnalysisRevision" ADD COLUMN     "incomplete" BOOLEAN NOT NULL DEFAULT false;
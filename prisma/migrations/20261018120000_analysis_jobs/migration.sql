@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "AnalysisJobStatus" AS ENUM ('queued', 'uploading', 'processing', 'generating', 'done', 'failed');
+
+-- CreateTable
+CREATE TABLE "AnalysisJob" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "videoId" TEXT NOT NULL,
+    "status" "AnalysisJobStatus" NOT NULL DEFAULT 'queued',
+    "refinementPrompt" TEXT,
+    "parentRevisionId" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedUntil" TIMESTAMP(3),
+    "partialMarkdown" TEXT,
+    "error" TEXT,
+    "revisionId" TEXT,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "AnalysisJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AnalysisJob_status_runAfter_idx" ON "AnalysisJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "AnalysisJob_videoId_createdAt_idx" ON "AnalysisJob"("videoId", "createdAt");
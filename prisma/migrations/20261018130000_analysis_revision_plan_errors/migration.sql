@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "AnalysisRevision" ADD COLUMN     "planErrors" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "PlanRunStatus" AS ENUM ('running', 'passed', 'failed');
+
+-- CreateTable
+CREATE TABLE "PlanRun" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "videoId" TEXT NOT NULL,
+    "revisionId" TEXT NOT NULL,
+    "status" "PlanRunStatus" NOT NULL DEFAULT 'running',
+    "startUrl" TEXT NOT NULL,
+    "steps" JSONB NOT NULL DEFAULT '[]',
+    "failedStep" INTEGER,
+    "error" TEXT,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PlanRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PlanRun_videoId_createdAt_idx" ON "PlanRun"("videoId", "createdAt");
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "AnalysisRevisionKind" ADD VALUE 'plan_edit';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "AnalysisRevision" ADD COLUMN     "timestamps" JSONB NOT NULL DEFAULT '[]';
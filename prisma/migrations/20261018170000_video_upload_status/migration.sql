@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "UploadStatus" AS ENUM ('pending', 'uploaded', 'failed');
+
+-- AlterTable
+-- Existing videos were uploaded before the status was tracked
+ALTER TABLE "Video" ADD COLUMN     "uploadStatus" "UploadStatus" NOT NULL DEFAULT 'uploaded';
+ALTER TABLE "Video" ALTER COLUMN "uploadStatus" SET DEFAULT 'pending';
+
+-- CreateIndex
+CREATE INDEX "Video_uploadStatus_createdAt_idx" ON "Video"("uploadStatus", "createdAt");
@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "VideoProcessingStatus" AS ENUM ('pending', 'processing', 'done', 'failed', 'skipped');
+
+-- AlterTable
+ALTER TABLE "Video" ADD COLUMN     "processingAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "processingError" TEXT,
+ADD COLUMN     "processingLockedUntil" TIMESTAMP(3),
+ADD COLUMN     "processingStatus" "VideoProcessingStatus" NOT NULL DEFAULT 'skipped',
+ADD COLUMN     "renditions" JSONB;
+
+-- Existing videos play from their original upload and aren't transcoded, so the worker doesn't
+-- pick up the whole library at once; `scripts/reprocess-videos.ts` queues them on demand
+ALTER TABLE "Video" ALTER COLUMN "processingStatus" SET DEFAULT 'pending';
+
+-- Uploads still in flight finish after the migration and get transcoded like new ones
+UPDATE "Video" SET "processingStatus" = 'pending' WHERE "uploadStatus" = 'pending';
+
+-- CreateIndex
+CREATE INDEX "Video_processingStatus_uploadStatus_idx" ON "Video"("processingStatus", "uploadStatus");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "VideoTranscript" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "videoId" TEXT NOT NULL,
+    "segments" JSONB NOT NULL,
+    "text" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+
+    CONSTRAINT "VideoTranscript_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VideoTranscript_videoId_key" ON "VideoTranscript"("videoId");
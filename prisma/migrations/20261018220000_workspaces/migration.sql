@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "WorkspaceRole" AS ENUM ('owner', 'editor', 'viewer');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "activeWorkspaceId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Video" ADD COLUMN     "workspaceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Workspace" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "name" TEXT NOT NULL,
+
+    CONSTRAINT "Workspace_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Membership" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "workspaceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "WorkspaceRole" NOT NULL,
+
+    CONSTRAINT "Membership_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Video_workspaceId_uploadStatus_createdAt_idx" ON "Video"("workspaceId", "uploadStatus", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Membership_userId_idx" ON "Membership"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Membership_workspaceId_userId_key" ON "Membership"("workspaceId", "userId");
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "ShareAccess" AS ENUM ('viewer', 'commenter');
+
+-- CreateTable
+CREATE TABLE "VideoShare" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "videoId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "access" "ShareAccess" NOT NULL DEFAULT 'viewer',
+    "invitedById" TEXT NOT NULL,
+
+    CONSTRAINT "VideoShare_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VideoShare_email_idx" ON "VideoShare"("email");
+
+-- CreateIndex
+CREATE INDEX "VideoShare_invitedById_idx" ON "VideoShare"("invitedById");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VideoShare_videoId_email_key" ON "VideoShare"("videoId", "email");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "ShareLink" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "videoId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "label" TEXT,
+    "passwordHash" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "maxViews" INTEGER,
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "hideAnalysis" BOOLEAN NOT NULL DEFAULT false,
+    "hideVideo" BOOLEAN NOT NULL DEFAULT false,
+    "createdById" TEXT NOT NULL,
+
+    CONSTRAINT "ShareLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShareLink_token_key" ON "ShareLink"("token");
+
+-- CreateIndex
+CREATE INDEX "ShareLink_videoId_idx" ON "ShareLink"("videoId");
+
+-- CreateIndex
+CREATE INDEX "ShareLink_createdById_idx" ON "ShareLink"("createdById");
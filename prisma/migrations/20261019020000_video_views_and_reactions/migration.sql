@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "VideoView" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "videoId" TEXT NOT NULL,
+    "viewerKey" TEXT NOT NULL,
+    "visits" INTEGER NOT NULL DEFAULT 1,
+    "referrer" TEXT,
+    "watchThrough" DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+    CONSTRAINT "VideoView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Reaction" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "videoId" TEXT NOT NULL,
+    "viewerKey" TEXT NOT NULL,
+    "emoji" TEXT NOT NULL,
+    "timestamp" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "Reaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VideoView_videoId_viewerKey_key" ON "VideoView"("videoId", "viewerKey");
+
+-- CreateIndex
+CREATE INDEX "Reaction_videoId_timestamp_idx" ON "Reaction"("videoId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "Reaction_videoId_viewerKey_idx" ON "Reaction"("videoId", "viewerKey");
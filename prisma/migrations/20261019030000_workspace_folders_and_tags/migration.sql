@@ -0,0 +1,33 @@
+-- DropIndex
+DROP INDEX "Folder_userId_name_key";
+
+-- DropIndex
+DROP INDEX "Tag_userId_name_key";
+
+-- AlterTable
+ALTER TABLE "Folder" ADD COLUMN     "workspaceId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Tag" ADD COLUMN     "workspaceId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Folder_userId_name_idx" ON "Folder"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "Folder_workspaceId_name_idx" ON "Folder"("workspaceId", "name");
+
+-- CreateIndex
+CREATE INDEX "Tag_userId_name_idx" ON "Tag"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "Tag_workspaceId_name_idx" ON "Tag"("workspaceId", "name");
+
+-- Names are unique per library: the personal one of a user, or a workspace. Prisma can't express
+-- partial indexes, so these only live here.
+CREATE UNIQUE INDEX "Folder_personal_userId_name_key" ON "Folder"("userId", "name") WHERE "workspaceId" IS NULL;
+
+CREATE UNIQUE INDEX "Folder_workspaceId_name_key" ON "Folder"("workspaceId", "name") WHERE "workspaceId" IS NOT NULL;
+
+CREATE UNIQUE INDEX "Tag_personal_userId_name_key" ON "Tag"("userId", "name") WHERE "workspaceId" IS NULL;
+
+CREATE UNIQUE INDEX "Tag_workspaceId_name_key" ON "Tag"("workspaceId", "name") WHERE "workspaceId" IS NOT NULL;
@@ -0,0 +1,3 @@
+-- AlterEnum
+-- On its own, as a new enum value can't be used in the transaction that adds it
+ALTER TYPE "PlanRunStatus" ADD VALUE 'queued' BEFORE 'running';
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "PlanRun" ADD COLUMN     "lockedUntil" TIMESTAMP(3),
+ALTER COLUMN "status" SET DEFAULT 'queued';
+
+-- CreateIndex
+CREATE INDEX "PlanRun_status_createdAt_idx" ON "PlanRun"("status", "createdAt");
@@ -0,0 +1,21 @@
+-- Kept up to date by Postgres, so search doesn't build tsvectors for every task on every query.
+-- Prisma can't express generated columns, so the expressions only live here; weights match
+-- `searchVideos` in `~/server/search`.
+
+-- AlterTable
+ALTER TABLE "Video" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("userContext", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("aiAnalysis", '')), 'C')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "VideoTranscript" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("text", '')), 'D')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Video_searchVector_idx" ON "Video" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "VideoTranscript_searchVector_idx" ON "VideoTranscript" USING GIN ("searchVector");
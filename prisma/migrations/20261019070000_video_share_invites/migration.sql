@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "VideoShare" ADD COLUMN     "acceptedAt" TIMESTAMP(3),
+ADD COLUMN     "inviteToken" TEXT,
+ADD COLUMN     "userId" TEXT;
+
+-- Shares were matched on the email of any account. Only accounts with a verified email keep them;
+-- the others are pending until the invite is sent again and accepted.
+UPDATE "VideoShare" s
+SET "userId" = u."id", "acceptedAt" = CURRENT_TIMESTAMP
+FROM "User" u
+WHERE lower(u."email") = s."email" AND u."emailVerified" IS NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VideoShare_inviteToken_key" ON "VideoShare"("inviteToken");
+
+-- CreateIndex
+CREATE INDEX "VideoShare_userId_videoId_idx" ON "VideoShare"("userId", "videoId");
@@ -0,0 +1,57 @@
+import { prisma } from "../src/server/db";
+import { s3 } from "../src/server/aws/s3";
+import {
+  claimNextAnalysisJob,
+  runAnalysisJob,
+} from "../src/server/analysisJobs";
+
+const POLL_INTERVAL_MS = 5000;
+
+// `--once` drains the queue and exits, for running from a cron job instead of as a long-lived process
+const runOnce = process.argv.includes("--once");
+
+let stopping = false;
+const stop = () => {
+  console.log("Stopping after the current job...");
+  stopping = true;
+};
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);
+
+async function main() {
+  console.log("Starting analysis worker...");
+
+  let processedCount = 0;
+
+  while (!stopping) {
+    const job = await claimNextAnalysisJob(prisma);
+
+    if (!job) {
+      if (runOnce) break;
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      continue;
+    }
+
+    console.log(`Running analysis job ${job.id} for video ${job.videoId} (attempt ${job.attempts})`);
+
+    try {
+      const result = await runAnalysisJob(prisma, s3, job);
+      console.log(`Analysis job ${job.id} is ${result.status}`);
+    } catch (error) {
+      // The job row can disappear mid-run when its video is deleted
+      console.error(`Failed to record result of analysis job ${job.id}:`, error);
+    }
+    processedCount++;
+  }
+
+  console.log(`Analysis worker stopped. Processed: ${processedCount}`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(() => {
+    void prisma.$disconnect();
+  });
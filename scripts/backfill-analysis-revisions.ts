@@ -0,0 +1,60 @@
+import { prisma } from "../src/server/db";
+import { parseAnalysisResponse, renderAnalysisMarkdown } from "../src/server/analysis";
+import { extractTimestamps } from "../src/utils/timestamps";
+
+// Legacy analyses were stored as a single text blob. Each one becomes an initial revision so the
+// plan is stored separately; refinements appended to the blob stay part of its markdown.
+async function main() {
+  console.log("Starting analysis revision backfill...");
+
+  const videos = await prisma.video.findMany({
+    where: {
+      aiAnalysis: { not: null },
+      analysisRevisions: { none: {} },
+    },
+  });
+
+  console.log(`Found ${videos.length} videos with legacy analyses.`);
+
+  let migratedCount = 0;
+  let missingPlanCount = 0;
+
+  for (const video of videos) {
+    const parsed = parseAnalysisResponse(video.aiAnalysis ?? "");
+    if (!parsed.plan) missingPlanCount++;
+
+    const revision = await prisma.analysisRevision.create({
+      data: {
+        videoId: video.id,
+        createdAt: video.aiAnalysisGeneratedAt ?? video.updatedAt,
+        kind: "initial",
+        markdown: parsed.markdown,
+        plan: parsed.plan ?? undefined,
+        timestamps: extractTimestamps(parsed.markdown),
+        model: "legacy",
+      },
+    });
+
+    await prisma.video.update({
+      where: { id: video.id },
+      data: {
+        aiAnalysis: renderAnalysisMarkdown([revision]),
+      },
+    });
+
+    migratedCount++;
+  }
+
+  console.log(`Backfill complete.`);
+  console.log(`Migrated: ${migratedCount}`);
+  console.log(`Without a parseable plan: ${missingPlanCount}`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(() => {
+    void prisma.$disconnect();
+  });
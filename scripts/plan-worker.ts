@@ -0,0 +1,67 @@
+import { prisma } from "../src/server/db";
+import { s3 } from "../src/server/aws/s3";
+import { claimNextPlanRun, runPlanRun } from "../src/server/planRuns";
+
+const POLL_INTERVAL_MS = 5000;
+
+// `--once` drains the queue and exits, for running from a cron job instead of as a long-lived process
+const runOnce = process.argv.includes("--once");
+
+let stopping = false;
+const stop = () => {
+  console.log("Stopping after the current run...");
+  stopping = true;
+};
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);
+
+// Plans are replayed in Chromium, which has to be installed with `npx playwright install chromium`
+async function assertChromiumInstalled() {
+  const { chromium } = await import("playwright");
+  const browser = await chromium.launch({ headless: true }).catch((error) => {
+    throw new Error(
+      "Chromium couldn't be launched. Install it with `npx playwright install --with-deps chromium`.",
+      { cause: error }
+    );
+  });
+  await browser.close();
+}
+
+async function main() {
+  console.log("Starting plan worker...");
+  await assertChromiumInstalled();
+
+  let processedCount = 0;
+
+  while (!stopping) {
+    const run = await claimNextPlanRun(prisma);
+
+    if (!run) {
+      if (runOnce) break;
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      continue;
+    }
+
+    console.log(`Running plan run ${run.id} for video ${run.videoId}`);
+
+    try {
+      const result = await runPlanRun(prisma, s3, run);
+      console.log(`Plan run ${run.id} ${result.status}`);
+    } catch (error) {
+      // The run can disappear mid-run when its video is deleted
+      console.error(`Failed to record result of plan run ${run.id}:`, error);
+    }
+    processedCount++;
+  }
+
+  console.log(`Plan worker stopped. Processed: ${processedCount}`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(() => {
+    void prisma.$disconnect();
+  });
@@ -0,0 +1,57 @@
+import { prisma } from "../src/server/db";
+
+// Videos uploaded before transcoding existed are marked `skipped` and play from their original
+// upload. This queues them for the video worker, oldest first. `--limit <n>` queues at most n videos,
+// e.g. to spread the work over several nights; `--dry-run` only counts them.
+const limitIndex = process.argv.indexOf("--limit");
+const limit =
+  limitIndex === -1
+    ? undefined
+    : parseInt(process.argv[limitIndex + 1] ?? "", 10);
+const dryRun = process.argv.includes("--dry-run");
+
+async function main() {
+  if (limit !== undefined && !(limit > 0)) {
+    throw new Error("--limit needs a positive number");
+  }
+
+  console.log("Starting video reprocessing...");
+
+  const videos = await prisma.video.findMany({
+    where: {
+      processingStatus: "skipped",
+      uploadStatus: "uploaded",
+      fileDeletedAt: null,
+    },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+
+  console.log(`Found ${videos.length} videos that were never transcoded.`);
+  if (dryRun) return;
+
+  // Only videos still skipped, in case one was queued or deleted in the meantime
+  const { count } = await prisma.video.updateMany({
+    where: {
+      id: { in: videos.map((video) => video.id) },
+      processingStatus: "skipped",
+    },
+    data: {
+      processingStatus: "pending",
+      processingAttempts: 0,
+      processingError: null,
+    },
+  });
+
+  console.log(`Queued ${count} videos for the video worker.`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(() => {
+    void prisma.$disconnect();
+  });
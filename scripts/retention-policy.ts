@@ -2,6 +2,7 @@
 import { prisma } from "../src/server/db";
 import { s3 } from "../src/server/aws/s3";
 import { DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { deleteRenditions } from "../src/server/videoProcessing";
 
 async function main() {
   console.log("Starting retention policy check...");
@@ -47,6 +48,9 @@ async function main() {
           })
         );
 
+        // Delete transcoded MP4 and HLS renditions
+        await deleteRenditions(s3, video);
+
         // Update database
         await prisma.video.update({
           where: { id: video.id },
@@ -0,0 +1,62 @@
+import { prisma } from "../src/server/db";
+import { s3 } from "../src/server/aws/s3";
+import {
+  claimNextVideoForProcessing,
+  processVideo,
+} from "../src/server/videoProcessing";
+
+const POLL_INTERVAL_MS = 5000;
+
+// `--once` drains the queue and exits, for running from a cron job instead of as a long-lived process
+const runOnce = process.argv.includes("--once");
+
+let stopping = false;
+const stop = () => {
+  console.log("Stopping after the current video...");
+  stopping = true;
+};
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);
+
+async function main() {
+  console.log("Starting video processing worker...");
+
+  let processedCount = 0;
+
+  while (!stopping) {
+    const video = await claimNextVideoForProcessing(prisma);
+
+    if (!video) {
+      if (runOnce) break;
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      continue;
+    }
+
+    console.log(
+      `Transcoding video ${video.id} (attempt ${video.processingAttempts})`
+    );
+
+    try {
+      const result = await processVideo(prisma, s3, video);
+      console.log(`Video ${video.id} is ${result.processingStatus}`);
+    } catch (error) {
+      // The video can be deleted while it is being transcoded
+      console.error(
+        `Failed to record result of processing video ${video.id}:`,
+        error
+      );
+    }
+    processedCount++;
+  }
+
+  console.log(`Video processing worker stopped. Processed: ${processedCount}`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(() => {
+    void prisma.$disconnect();
+  });
@@ -0,0 +1,299 @@
+import React, { useMemo, useState } from "react";
+import { diffLines } from "diff";
+import { api, type RouterOutputs } from "~/utils/api";
+import { getRevisionChain } from "~/utils/revisions";
+
+type AnalysisRevision =
+  RouterOutputs["video"]["listRevisions"]["revisions"][number];
+
+interface AnalysisHistoryProps {
+  videoId: string;
+  revisions: AnalysisRevision[];
+  currentRevisionId: string | null;
+  isOwner: boolean;
+  shareGrant?: string | null;
+  onRestore: (revisionId: string) => void;
+  onRefineFrom: (revisionId: string) => void;
+  isRestoring?: boolean;
+}
+
+const kindLabels: Record<AnalysisRevision["kind"], string> = {
+  initial: "Initial Analysis",
+  refinement: "Refined Analysis",
+  screencast: "Screencast Update",
+  plan_edit: "Plan Edit",
+};
+
+export const formatRevisionDate = (date: Date) =>
+  new Date(date).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+interface DiffRow {
+  left: string | null;
+  right: string | null;
+  type: "same" | "changed";
+}
+
+// Pairs removed and added lines so both versions can be read side by side
+const toSideBySide = (base: string, compare: string): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+
+  const flushRemoved = () => {
+    removed.forEach((line) => rows.push({ left: line, right: null, type: "changed" }));
+    removed = [];
+  };
+
+  for (const part of diffLines(base, compare)) {
+    const lines = part.value.replace(/\n$/, "").split("\n");
+    if (part.removed) {
+      removed.push(...lines);
+    } else if (part.added) {
+      lines.forEach((line) => {
+        const left = removed.shift();
+        rows.push({ left: left ?? null, right: line, type: "changed" });
+      });
+      flushRemoved();
+    } else {
+      flushRemoved();
+      lines.forEach((line) => rows.push({ left: line, right: line, type: "same" }));
+    }
+  }
+  flushRemoved();
+
+  return rows;
+};
+
+const DiffTable = ({ base, compare }: { base: string; compare: string }) => {
+  const rows = useMemo(() => toSideBySide(base, compare), [base, compare]);
+
+  if (base === compare) {
+    return <p className="text-sm text-gray-500">No differences.</p>;
+  }
+
+  return (
+    <div className="custom-scrollbar max-h-[480px] overflow-auto rounded-lg border border-gray-200">
+      <table className="w-full table-fixed font-mono text-xs">
+        <tbody>
+          {rows.map((row, i) => (
+            <tr key={i} className="align-top">
+              <td
+                className={`w-1/2 whitespace-pre-wrap break-words border-r border-gray-200 px-3 py-0.5 ${row.type === "changed" && row.left !== null ? "bg-red-50 text-red-900" : "text-gray-700"
+                  }`}
+              >
+                {row.left}
+              </td>
+              <td
+                className={`w-1/2 whitespace-pre-wrap break-words px-3 py-0.5 ${row.type === "changed" && row.right !== null ? "bg-green-50 text-green-900" : "text-gray-700"
+                  }`}
+              >
+                {row.right}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const RevisionDiff = ({
+  videoId,
+  baseRevisionId,
+  compareRevisionId,
+  shareGrant,
+}: {
+  videoId: string;
+  baseRevisionId: string;
+  compareRevisionId: string;
+  shareGrant?: string | null;
+}) => {
+  const { data, isLoading, error } = api.video.compareRevisions.useQuery(
+    { videoId, baseRevisionId, compareRevisionId, shareGrant },
+    { refetchOnWindowFocus: false }
+  );
+
+  if (isLoading) {
+    return <div className="h-40 w-full animate-pulse rounded-lg bg-gray-100" />;
+  }
+
+  if (error || !data) {
+    return (
+      <div className="rounded-lg bg-red-50 p-4 text-sm text-red-800">
+        {error?.message ?? "Failed to compare versions"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4 text-xs font-semibold text-gray-700">
+        <span suppressHydrationWarning>
+          {kindLabels[data.base.revision.kind]} ({formatRevisionDate(data.base.revision.createdAt)})
+        </span>
+        <span suppressHydrationWarning>
+          {kindLabels[data.compare.revision.kind]} ({formatRevisionDate(data.compare.revision.createdAt)})
+        </span>
+      </div>
+      <div>
+        <h4 className="mb-2 text-sm font-semibold text-gray-900">Analysis</h4>
+        <DiffTable base={data.base.markdown} compare={data.compare.markdown} />
+      </div>
+      <div>
+        <h4 className="mb-2 text-sm font-semibold text-gray-900">Computer Use Plan</h4>
+        <DiffTable
+          base={data.base.plan ? JSON.stringify(data.base.plan, null, 2) : ""}
+          compare={data.compare.plan ? JSON.stringify(data.compare.plan, null, 2) : ""}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default function AnalysisHistory({
+  videoId,
+  revisions,
+  currentRevisionId,
+  isOwner,
+  shareGrant,
+  onRestore,
+  onRefineFrom,
+  isRestoring = false,
+}: AnalysisHistoryProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparing, setComparing] = useState<[string, string] | null>(null);
+
+  const currentChain = useMemo(
+    () => new Set(getRevisionChain(revisions, currentRevisionId).map((r) => r.id)),
+    [revisions, currentRevisionId]
+  );
+  const byId = useMemo(
+    () => new Map(revisions.map((revision) => [revision.id, revision])),
+    [revisions]
+  );
+
+  const toggleSelected = (revisionId: string) => {
+    setComparing(null);
+    setSelected((prev) =>
+      prev.includes(revisionId)
+        ? prev.filter((id) => id !== revisionId)
+        : [...prev, revisionId].slice(-2)
+    );
+  };
+
+  const startCompare = () => {
+    const [first, second] = selected;
+    if (!first || !second) return;
+    // Always show the older version on the left
+    const [base, compare] = [first, second].sort(
+      (a, b) =>
+        new Date(byId.get(a)?.createdAt ?? 0).getTime() -
+        new Date(byId.get(b)?.createdAt ?? 0).getTime()
+    );
+    if (base && compare) setComparing([base, compare]);
+  };
+
+  return (
+    <div className="mb-6 rounded-lg border border-gray-200 bg-gray-50 p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <div>
+          <h3 className="text-md font-bold text-gray-900">Analysis History</h3>
+          <p className="text-sm text-gray-700">
+            Select two versions to compare them side by side.
+          </p>
+        </div>
+        <button
+          onClick={startCompare}
+          disabled={selected.length !== 2}
+          className="rounded-md bg-black px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-gray-700 disabled:opacity-50"
+        >
+          Compare
+        </button>
+      </div>
+
+      <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white">
+        {[...revisions].reverse().map((revision) => {
+          const parent = revision.parentId ? byId.get(revision.parentId) : undefined;
+          const siblings = revisions.filter(
+            (r) => r.parentId === revision.parentId && r.kind !== "initial"
+          );
+          const isCurrent = revision.id === currentRevisionId;
+
+          return (
+            <li key={revision.id} className="flex items-start gap-3 px-4 py-3">
+              <input
+                type="checkbox"
+                checked={selected.includes(revision.id)}
+                onChange={() => toggleSelected(revision.id)}
+                className="mt-1 h-4 w-4 rounded border-gray-300 text-black focus:ring-black"
+                aria-label="Select version to compare"
+              />
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-semibold text-gray-900">
+                    {kindLabels[revision.kind]}
+                  </span>
+                  <span className="text-xs text-gray-500" suppressHydrationWarning>
+                    {formatRevisionDate(revision.createdAt)}
+                  </span>
+                  {isCurrent ? (
+                    <span className="rounded bg-black px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wider text-white">
+                      Current
+                    </span>
+                  ) : currentChain.has(revision.id) ? (
+                    <span className="rounded bg-gray-200 px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wider text-gray-700">
+                      In current
+                    </span>
+                  ) : null}
+                  {parent && siblings.length > 1 && (
+                    <span className="text-xs text-custom-dark-orange" suppressHydrationWarning>
+                      Branch from {formatRevisionDate(parent.createdAt)}
+                    </span>
+                  )}
+                </div>
+                {revision.prompt && (
+                  <p className="mt-1 line-clamp-2 text-sm italic text-gray-600">
+                    {revision.prompt}
+                  </p>
+                )}
+              </div>
+              {isOwner && (
+                <div className="flex shrink-0 gap-2">
+                  <button
+                    onClick={() => onRefineFrom(revision.id)}
+                    className="rounded-md border border-gray-300 bg-white px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50"
+                    title="Ask a follow-up starting from this version"
+                  >
+                    Refine from here
+                  </button>
+                  <button
+                    onClick={() => onRestore(revision.id)}
+                    disabled={isCurrent || isRestoring}
+                    className="rounded-md border border-black bg-white px-2 py-1 text-xs font-medium text-black hover:bg-black hover:text-white disabled:opacity-50 disabled:hover:bg-white disabled:hover:text-black"
+                  >
+                    Restore
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {comparing && (
+        <div className="mt-4">
+          <RevisionDiff
+            videoId={videoId}
+            baseRevisionId={comparing[0]}
+            compareRevisionId={comparing[1]}
+            shareGrant={shareGrant}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { Pencil1Icon, PlusIcon, TrashIcon } from "@radix-ui/react-icons";
+import { useState, type DragEvent, type FormEvent } from "react";
+import { api } from "~/utils/api";
+import { UNFILED_FOLDER } from "~/utils/taskFilters";
+
+// Drag data of task cards, a JSON array of video ids
+export const TASK_DRAG_TYPE = "application/x-greadings-tasks";
+
+interface Props {
+  // The folder filter of the list, a folder id or `UNFILED_FOLDER`
+  activeFolder?: string;
+  onSelect: (folder: string | undefined) => void;
+  // Called when task cards are dropped on a folder, or on "Unfiled" with null
+  onMove: (videoIds: string[], folderId: string | null) => void;
+}
+
+const pillClass =
+  "flex h-8 shrink-0 items-center gap-1 rounded-full border px-3 text-sm transition-colors";
+
+const readDraggedVideoIds = (e: DragEvent) => {
+  try {
+    const ids: unknown = JSON.parse(e.dataTransfer.getData(TASK_DRAG_TYPE));
+    return Array.isArray(ids)
+      ? ids.filter((id): id is string => typeof id === "string")
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+function FolderPill({
+  label,
+  count,
+  active,
+  onClick,
+  onDrop,
+}: {
+  label: string;
+  count?: number;
+  active: boolean;
+  onClick: () => void;
+  onDrop?: (videoIds: string[]) => void;
+}) {
+  const [isOver, setIsOver] = useState(false);
+
+  return (
+    <button
+      onClick={onClick}
+      onDragOver={(e) => {
+        if (!onDrop || !e.dataTransfer.types.includes(TASK_DRAG_TYPE)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "move";
+        setIsOver(true);
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={(e) => {
+        setIsOver(false);
+        if (!onDrop) return;
+        e.preventDefault();
+        const videoIds = readDraggedVideoIds(e);
+        if (videoIds.length > 0) onDrop(videoIds);
+      }}
+      className={`${pillClass} ${
+        isOver
+          ? "border-custom-dark-orange bg-custom-dark-orange/10"
+          : active
+          ? "border-custom-dark-orange text-custom-dark-orange"
+          : "border-gray-300 text-gray-700 hover:bg-gray-50"
+      }`}
+    >
+      <span className="max-w-[160px] truncate">{label}</span>
+      {count !== undefined && (
+        <span className="text-xs text-gray-400">{count}</span>
+      )}
+    </button>
+  );
+}
+
+/** Folder pills above the task list: pick a folder to filter by, or drop tasks on one to move them. */
+export default function FolderBar({ activeFolder, onSelect, onMove }: Props) {
+  const utils = api.useContext();
+  const { data: folders } = api.library.getFolders.useQuery();
+  // The folder being renamed, or "new" while creating one
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState("");
+
+  const onSaved = () => {
+    setEditing(null);
+    setName("");
+    void utils.library.getFolders.invalidate();
+  };
+  const createFolderMutation = api.library.createFolder.useMutation({
+    onSuccess: (folder) => {
+      onSaved();
+      onSelect(folder.id);
+    },
+    onError: (err) => alert(err.message),
+  });
+  const renameFolderMutation = api.library.renameFolder.useMutation({
+    onSuccess: onSaved,
+    onError: (err) => alert(err.message),
+  });
+  const deleteFolderMutation = api.library.deleteFolder.useMutation({
+    onSuccess: () => {
+      onSelect(undefined);
+      void utils.library.getFolders.invalidate();
+      void utils.video.getAll.invalidate();
+    },
+    onError: (err) => console.error(err.message),
+  });
+
+  const activeFolderData = folders?.find(
+    (folder) => folder.id === activeFolder
+  );
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    // Enter submits and the input's blur would submit again
+    if (createFolderMutation.isLoading || renameFolderMutation.isLoading)
+      return;
+    if (!name.trim()) return setEditing(null);
+    if (editing === "new") {
+      createFolderMutation.mutate({ name: name.trim() });
+    } else if (editing) {
+      renameFolderMutation.mutate({ folderId: editing, name: name.trim() });
+    }
+  };
+
+  const nameInput = (
+    <form onSubmit={submit} className="shrink-0">
+      <input
+        autoFocus
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={submit}
+        onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+        placeholder="Folder name"
+        maxLength={60}
+        aria-label="Folder name"
+        className="h-8 w-40 rounded-full border border-custom-dark-orange px-3 text-sm focus:outline-none"
+      />
+    </form>
+  );
+
+  return (
+    <div className="flex items-center gap-2 overflow-x-auto pb-1">
+      <FolderPill
+        label="All tasks"
+        active={!activeFolder}
+        onClick={() => onSelect(undefined)}
+      />
+      <FolderPill
+        label="Unfiled"
+        active={activeFolder === UNFILED_FOLDER}
+        onClick={() => onSelect(UNFILED_FOLDER)}
+        onDrop={(videoIds) => onMove(videoIds, null)}
+      />
+      {folders?.map((folder) =>
+        editing === folder.id ? (
+          <div key={folder.id}>{nameInput}</div>
+        ) : (
+          <FolderPill
+            key={folder.id}
+            label={folder.name}
+            count={folder._count.videos}
+            active={activeFolder === folder.id}
+            onClick={() => onSelect(folder.id)}
+            onDrop={(videoIds) => onMove(videoIds, folder.id)}
+          />
+        )
+      )}
+      {editing === "new" ? (
+        nameInput
+      ) : (
+        <button
+          onClick={() => {
+            setName("");
+            setEditing("new");
+          }}
+          className={`${pillClass} border-dashed border-gray-300 text-gray-500 hover:bg-gray-50`}
+        >
+          <PlusIcon />
+          Folder
+        </button>
+      )}
+      {activeFolderData && editing !== activeFolderData.id && (
+        <>
+          <button
+            aria-label={`Rename folder ${activeFolderData.name}`}
+            onClick={() => {
+              setName(activeFolderData.name);
+              setEditing(activeFolderData.id);
+            }}
+            className="rounded p-1 text-gray-400 hover:text-gray-700"
+          >
+            <Pencil1Icon />
+          </button>
+          <button
+            aria-label={`Delete folder ${activeFolderData.name}`}
+            onClick={() => {
+              if (
+                confirm(
+                  `Delete the folder "${activeFolderData.name}"? Its tasks stay in your library.`
+                )
+              ) {
+                deleteFolderMutation.mutate({ folderId: activeFolderData.id });
+              }
+            }}
+            className="rounded p-1 text-gray-400 hover:text-red-600"
+          >
+            <TrashIcon />
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
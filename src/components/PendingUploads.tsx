@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import { useSession } from "next-auth/react";
+import { usePostHog } from "posthog-js/react";
+import { api } from "~/utils/api";
+import { invalidateTasksCache } from "~/utils/cacheUtils";
+import {
+  abortMultipartUpload,
+  getPendingUploads,
+  uploadMultipart,
+  UPLOAD_PART_SIZE,
+  type PendingUpload,
+} from "~/utils/multipartUpload";
+
+/** Offers to resume uploads that were interrupted, e.g. by a reload or a dropped connection. */
+export default function PendingUploads() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const posthog = usePostHog();
+  const utils = api.useContext();
+  const deleteVideoMutation = api.video.deleteVideo.useMutation();
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [resuming, setResuming] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const userId = session?.user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    void getPendingUploads(userId).then(setUploads);
+  }, [userId]);
+
+  const removeUpload = (videoId: string) =>
+    setUploads((prev) => prev.filter((upload) => upload.videoId !== videoId));
+
+  const handleResume = async (upload: PendingUpload) => {
+    setResuming(upload.videoId);
+    setProgress(0);
+    setError(null);
+    try {
+      await uploadMultipart(utils.client.video, upload, { onProgress: setProgress });
+      removeUpload(upload.videoId);
+      invalidateTasksCache(userId);
+      void utils.video.getAll.invalidate();
+      posthog?.capture("resume interrupted upload", { videoId: upload.videoId });
+      void router.push("task/" + upload.videoId + "?analyze=true");
+    } catch (err) {
+      console.error(err);
+      setError("The upload failed again. Check your connection and try once more.");
+    } finally {
+      setResuming(null);
+    }
+  };
+
+  const handleDiscard = async (upload: PendingUpload) => {
+    await abortMultipartUpload(utils.client.video, upload);
+    removeUpload(upload.videoId);
+    // The task was created before the upload started and has no video without it
+    deleteVideoMutation.mutate(
+      { videoId: upload.videoId },
+      { onSettled: () => void utils.video.getAll.invalidate() }
+    );
+  };
+
+  if (uploads.length === 0) return null;
+
+  return (
+    <div className="w-full px-6 pt-4 md:w-[94%] md:max-w-6xl md:px-0">
+      {uploads.map((upload) => {
+        const uploadedBytes = Math.min(
+          upload.file.size,
+          upload.parts.length * UPLOAD_PART_SIZE
+        );
+        const savedProgress = upload.file.size ? uploadedBytes / upload.file.size : 0;
+        const isResuming = resuming === upload.videoId;
+
+        return (
+          <div
+            key={upload.videoId}
+            className="mb-2 flex flex-col gap-2 rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-900 md:flex-row md:items-center md:justify-between"
+          >
+            <div>
+              <p className="font-medium">
+                Upload of &quot;{upload.fileName}&quot; was interrupted
+              </p>
+              <p className="text-yellow-800">
+                {Math.round((isResuming ? progress : savedProgress) * 100)}% uploaded
+                {isResuming ? ", resuming..." : ""}
+              </p>
+              {error && !resuming && <p className="mt-1 text-red-700">{error}</p>}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => void handleDiscard(upload)}
+                disabled={!!resuming}
+                className="rounded-md border border-yellow-300 bg-white px-3 py-1 font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Discard
+              </button>
+              <button
+                onClick={() => void handleResume(upload)}
+                disabled={!!resuming}
+                className="rounded-md bg-black px-3 py-1 font-semibold text-white hover:bg-gray-800 disabled:opacity-50"
+              >
+                {isResuming ? "Resuming..." : "Resume Upload"}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { api, type RouterOutputs } from "~/utils/api";
+import {
+  computerUsePlanSchema,
+  formatPlanErrors,
+  type ComputerUsePlan,
+  type ComputerUseStep,
+} from "~/utils/computerUsePlan";
+import { formatTimestamp } from "~/utils/timestamps";
+
+// Plan coordinates are on a 1024x768 grid, stretched over the video frame
+const GRID_WIDTH = 1024;
+const GRID_HEIGHT = 768;
+
+const actions: ComputerUseStep["action"][] = ["click", "type", "scroll", "wait"];
+
+interface PlanDryRunProps {
+  videoId: string;
+  videoUrl: string;
+  plan: ComputerUsePlan;
+  canEdit?: boolean;
+  onSaved?: (result: RouterOutputs["video"]["updatePlan"]) => void;
+}
+
+/** Seconds into the recording to show for a step; steps without a timestamp are spread evenly. */
+const getStepTime = (step: ComputerUseStep, index: number, count: number, duration: number) =>
+  step.timestamp !== undefined
+    ? Math.min(step.timestamp, duration || step.timestamp)
+    : (duration * (index + 1)) / (count + 1);
+
+export default function PlanDryRun({
+  videoId,
+  videoUrl,
+  plan,
+  canEdit = false,
+  onSaved,
+}: PlanDryRunProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [duration, setDuration] = useState(0);
+  const [index, setIndex] = useState(0);
+  const [steps, setSteps] = useState(plan.steps);
+  const updatePlanMutation = api.video.updatePlan.useMutation({ onSuccess: onSaved });
+
+  // A new plan (e.g. after a refinement) replaces any unsaved edits
+  useEffect(() => {
+    setSteps(plan.steps);
+    setIndex(0);
+  }, [plan]);
+
+  const step = steps[index];
+  const isDirty = steps !== plan.steps;
+  const validation = useMemo(
+    () => computerUsePlanSchema.safeParse({ ...plan, steps }),
+    [plan, steps]
+  );
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !step || !duration) return;
+    video.currentTime = getStepTime(step, index, steps.length, duration);
+  }, [step, index, steps.length, duration]);
+
+  const updateStep = (changes: Partial<ComputerUseStep>) => {
+    setSteps((prev) => prev.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  };
+
+  const setCoordinate = (axis: 0 | 1, value: string) => {
+    const coordinate: [number, number] = [...(step?.coordinate ?? [0, 0])];
+    coordinate[axis] = Math.round(Number(value));
+    updateStep({ coordinate });
+  };
+
+  const handleFrameClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!canEdit) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    updateStep({
+      coordinate: [
+        Math.round(((e.clientX - rect.left) / rect.width) * GRID_WIDTH),
+        Math.round(((e.clientY - rect.top) / rect.height) * GRID_HEIGHT),
+      ],
+    });
+  };
+
+  const handleSave = () => {
+    if (!validation.success) return;
+    updatePlanMutation.mutate({ videoId, plan: validation.data });
+  };
+
+  if (!step) return null;
+
+  return (
+    <div className="mt-4 rounded-lg border border-gray-200 bg-white">
+      <div className="relative bg-black">
+        <video
+          ref={videoRef}
+          src={videoUrl}
+          preload="auto"
+          muted
+          playsInline
+          onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+          className="block w-full"
+        />
+        <div
+          onClick={handleFrameClick}
+          className={`absolute inset-0 ${canEdit ? "cursor-crosshair" : ""}`}
+        >
+          {step.coordinate && (
+            <div
+              className="pointer-events-none absolute"
+              style={{
+                left: `${(step.coordinate[0] / GRID_WIDTH) * 100}%`,
+                top: `${(step.coordinate[1] / GRID_HEIGHT) * 100}%`,
+              }}
+            >
+              <div className="h-6 w-6 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-custom-dark-orange bg-custom-dark-orange/30 shadow" />
+              {step.element_description && (
+                <div className="mt-1 max-w-[16rem] -translate-x-1/2 rounded bg-black/80 px-2 py-1 text-xs text-white">
+                  {step.element_description}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+        <button
+          onClick={() => setIndex((i) => Math.max(0, i - 1))}
+          disabled={index === 0}
+          className="rounded-md border border-gray-300 px-3 py-1 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Previous
+        </button>
+        <span className="text-sm text-gray-700">
+          Step {index + 1} of {steps.length}
+          {duration > 0 && (
+            <span className="ml-2 text-gray-500">
+              @ {formatTimestamp(getStepTime(step, index, steps.length, duration))}
+            </span>
+          )}
+        </span>
+        <button
+          onClick={() => setIndex((i) => Math.min(steps.length - 1, i + 1))}
+          disabled={index === steps.length - 1}
+          className="rounded-md border border-gray-300 px-3 py-1 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Next
+        </button>
+      </div>
+
+      <div className="space-y-3 px-4 py-3 text-sm">
+        <p className="text-gray-900">{step.description}</p>
+        {canEdit ? (
+          <>
+            <div className="flex flex-wrap gap-3">
+              <label className="flex flex-col text-xs font-medium text-gray-600">
+                Action
+                <select
+                  value={step.action}
+                  onChange={(e) =>
+                    updateStep({ action: e.target.value as ComputerUseStep["action"] })
+                  }
+                  className="mt-1 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                >
+                  {actions.map((action) => (
+                    <option key={action} value={action}>
+                      {action}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col text-xs font-medium text-gray-600">
+                X
+                <input
+                  type="number"
+                  min={0}
+                  max={GRID_WIDTH}
+                  value={step.coordinate?.[0] ?? ""}
+                  onChange={(e) => setCoordinate(0, e.target.value)}
+                  className="mt-1 w-24 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                />
+              </label>
+              <label className="flex flex-col text-xs font-medium text-gray-600">
+                Y
+                <input
+                  type="number"
+                  min={0}
+                  max={GRID_HEIGHT}
+                  value={step.coordinate?.[1] ?? ""}
+                  onChange={(e) => setCoordinate(1, e.target.value)}
+                  className="mt-1 w-24 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                />
+              </label>
+              {step.action === "type" && (
+                <label className="flex flex-1 flex-col text-xs font-medium text-gray-600">
+                  Text
+                  <input
+                    type="text"
+                    value={step.text ?? ""}
+                    onChange={(e) => updateStep({ text: e.target.value })}
+                    className="mt-1 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                  />
+                </label>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">Click the frame to move the step there.</p>
+          </>
+        ) : (
+          <p className="font-mono text-xs text-gray-600">
+            {step.action}
+            {step.coordinate && ` at (${step.coordinate[0]}, ${step.coordinate[1]})`}
+            {step.text && ` "${step.text}"`}
+          </p>
+        )}
+
+        {!validation.success && (
+          <ul className="list-inside list-disc text-xs text-red-700">
+            {formatPlanErrors(validation.error).map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+        {updatePlanMutation.error && (
+          <p className="text-xs text-red-700">{updatePlanMutation.error.message}</p>
+        )}
+
+        {canEdit && (
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setSteps(plan.steps)}
+              disabled={!isDirty || updatePlanMutation.isLoading}
+              className="rounded-md border border-gray-300 px-3 py-1 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!isDirty || !validation.success || updatePlanMutation.isLoading}
+              className="rounded-md bg-black px-3 py-1 text-sm font-semibold text-white hover:bg-gray-700 disabled:opacity-50"
+            >
+              {updatePlanMutation.isLoading ? "Saving..." : "Save Plan"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import React from "react";
+import Image from "next/image";
+import { type RouterOutputs } from "~/utils/api";
+
+type PlanRun = RouterOutputs["video"]["getPlanRun"];
+
+const stepStatusStyles: Record<PlanRun["steps"][number]["status"], string> = {
+  passed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  skipped: "bg-gray-100 text-gray-500",
+};
+
+export default function PlanRunLog({ run }: { run: PlanRun }) {
+  return (
+    <div className="mt-4 rounded-lg border border-gray-200 bg-white">
+      <div
+        className={`rounded-t-lg px-4 py-3 text-sm font-medium ${run.status === "passed"
+          ? "bg-green-50 text-green-900"
+          : run.status === "failed"
+            ? "bg-red-50 text-red-900"
+            : "bg-gray-50 text-gray-900"
+          }`}
+      >
+        {run.status === "queued"
+          ? "Waiting for a browser to run the plan..."
+          : run.status === "running"
+            ? `Running the plan on ${run.startUrl}...`
+            : run.status === "passed"
+              ? `All ${run.steps.length} steps ran on ${run.startUrl}`
+              : run.failedStep !== null
+                ? `Step ${run.failedStep + 1} of ${run.steps.length} failed`
+                : `The run failed before any steps ran: ${run.error ?? "unknown error"}`}
+      </div>
+      <ol className="divide-y divide-gray-200">
+        {run.steps.map((step) => (
+          <li key={step.index} className="flex gap-4 px-4 py-3">
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-semibold text-gray-900">
+                  {step.index + 1}. {step.action}
+                </span>
+                <span
+                  className={`rounded px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wider ${stepStatusStyles[step.status]}`}
+                >
+                  {step.status}
+                </span>
+                {step.status !== "skipped" && (
+                  <span className="text-xs text-gray-500">{step.durationMs} ms</span>
+                )}
+              </div>
+              <p className="mt-1 text-sm text-gray-700">{step.description}</p>
+              {step.error && (
+                <p className="mt-1 font-mono text-xs text-red-700">{step.error}</p>
+              )}
+            </div>
+            {step.screenshotUrl && (
+              <a
+                href={step.screenshotUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="shrink-0"
+                title="Open screenshot"
+              >
+                <Image
+                  src={step.screenshotUrl}
+                  alt={`Screenshot after step ${step.index + 1}`}
+                  className="h-24 w-32 rounded border border-gray-200 object-cover"
+                  width={128}
+                  height={96}
+                  unoptimized
+                />
+              </a>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { Menu, Transition, MenuButton, MenuItem, MenuItems } from "@headlessui/react";
-import { Fragment } from "react";
+import { CheckIcon } from "@radix-ui/react-icons";
+import { Fragment, useState } from "react";
 import { signOut, useSession } from "next-auth/react";
 import { useRouter } from "next/router";
 import { api } from "~/utils/api";
@@ -8,6 +9,7 @@ import defaultProfileIcon from "~/assets/default profile icon.jpg";
 import Image from "next/image";
 import LoadingModal from "./LoadingModal";
 import { invalidateTasksCache } from "~/utils/cacheUtils";
+import WorkspaceMembersModal from "./WorkspaceMembersModal";
 
 export default function ProfileMenu() {
   const { mutateAsync: createBillingPortalSession, isLoading: isBillingLoading } =
@@ -15,6 +17,43 @@ export default function ProfileMenu() {
   const { push } = useRouter();
   const { data: session } = useSession();
   const posthog = usePostHog();
+  const utils = api.useContext();
+  const [membersOpen, setMembersOpen] = useState(false);
+
+  const { data: workspaceList } = api.workspace.list.useQuery(undefined, {
+    enabled: !!session,
+  });
+  const activeWorkspace = workspaceList?.workspaces.find(
+    (workspace) => workspace.id === workspaceList.activeWorkspaceId
+  );
+
+  // The task library, cached per user, belongs to whichever workspace was active
+  const onWorkspaceChanged = () => {
+    invalidateTasksCache(session?.user?.id);
+    void utils.workspace.list.invalidate();
+    void utils.video.getAll.invalidate();
+    void utils.video.search.invalidate();
+    void utils.library.invalidate();
+  };
+  const setActiveWorkspaceMutation = api.workspace.setActive.useMutation({
+    onSuccess: onWorkspaceChanged,
+    onError: (err) => console.error(err.message),
+  });
+  const createWorkspaceMutation = api.workspace.create.useMutation({
+    onSuccess: onWorkspaceChanged,
+    onError: (err) => alert(err.message),
+  });
+
+  const switchWorkspace = (workspaceId: string | null) => {
+    if (workspaceId === (workspaceList?.activeWorkspaceId ?? null)) return;
+    setActiveWorkspaceMutation.mutate({ workspaceId });
+    posthog?.capture("switch workspace", { personal: !workspaceId });
+  };
+
+  const createWorkspace = () => {
+    const name = prompt("Workspace name")?.trim();
+    if (name) createWorkspaceMutation.mutate({ name });
+  };
 
   const openBillingSettings = () => {
     void createBillingPortalSession().then(({ billingPortalUrl }) => {
@@ -41,6 +80,17 @@ export default function ProfileMenu() {
   return (
     <>
       <LoadingModal isLoading={isBillingLoading} />
+      {activeWorkspace && (
+        <WorkspaceMembersModal
+          workspace={activeWorkspace}
+          open={membersOpen}
+          onClose={() => setMembersOpen(false)}
+          onLeft={() => {
+            setMembersOpen(false);
+            onWorkspaceChanged();
+          }}
+        />
+      )}
       <Menu as="div" className="relative inline-block text-left">
         <MenuButton className="flex rounded-full bg-gray-800 text-sm focus:outline-none focus:ring-2 focus:ring-white focus:ring-offset-2 focus:ring-offset-gray-800">
           <span className="sr-only">Open user menu</span>
@@ -63,6 +113,56 @@ export default function ProfileMenu() {
           leaveTo="transform opacity-0 scale-95"
         >
           <MenuItems className="absolute right-0 z-10 mt-2 origin-top-right divide-y divide-gray-100 rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+            <div className="px-1 py-1 ">
+              <p className="mx-2 px-2 pt-1 text-xs text-gray-500">Workspace</p>
+              {[
+                { id: null, name: "Personal" },
+                ...(workspaceList?.workspaces ?? []),
+              ].map((workspace) => (
+                <MenuItem key={workspace.id ?? "personal"}>
+                  {({ active }) => (
+                    <div
+                      onClick={() => switchWorkspace(workspace.id)}
+                      className={`mx-2 flex h-8 w-40 cursor-pointer flex-row items-center justify-between rounded-md p-2 ${active ? "bg-gray-100" : ""
+                        }`}
+                    >
+                      <p className="leading-2 truncate text-sm leading-4">
+                        {workspace.name}
+                      </p>
+                      {workspace.id === (workspaceList?.activeWorkspaceId ?? null) && (
+                        <CheckIcon className="shrink-0" />
+                      )}
+                    </div>
+                  )}
+                </MenuItem>
+              ))}
+              {activeWorkspace && (
+                <MenuItem>
+                  {({ active }) => (
+                    <div
+                      onClick={() => setMembersOpen(true)}
+                      className={`mx-2 flex h-8 w-40 cursor-pointer flex-row content-center rounded-md p-2 ${active ? "bg-gray-100" : ""
+                        }`}
+                    >
+                      <p className="leading-2 text-sm leading-4">Members</p>
+                    </div>
+                  )}
+                </MenuItem>
+              )}
+              <MenuItem>
+                {({ active }) => (
+                  <div
+                    onClick={createWorkspace}
+                    className={`mx-2 flex h-8 w-40 cursor-pointer flex-row content-center rounded-md p-2 ${active ? "bg-gray-100" : ""
+                      }`}
+                  >
+                    <p className="leading-2 text-sm leading-4">
+                      New workspace…
+                    </p>
+                  </div>
+                )}
+              </MenuItem>
+            </div>
             <div className="px-1 py-1 ">
               <MenuItem>
                 {({ active }) => (
@@ -21,6 +21,7 @@ import * as EBML from "ts-ebml";
 import VideoPlayer from "~/components/VideoPlayer";
 import { useSession } from "next-auth/react";
 import { invalidateTasksCache } from "~/utils/cacheUtils";
+import { uploadMultipart } from "~/utils/multipartUpload";
 
 
 interface Props {
@@ -48,8 +49,10 @@ export default function Recorder({ closeModal, step, setStep }: Props) {
   const router = useRouter();
   const [, setRecordOpen] = useAtom(recordVideoModalOpen);
   const [submitting, setSubmitting] = useState<boolean>(false);
+  const [uploadProgress, setUploadProgress] = useState<number>(0);
   const apiUtils = api.useContext();
-  const getSignedUrl = api.video.getUploadUrl.useMutation();
+  const createUpload = api.video.createUpload.useMutation();
+  const getThumbnailUploadUrl = api.video.getThumbnailUploadUrl.useMutation();
   const [duration, setDuration] = useState<number>(0);
   const [, setPaywallOpen] = useAtom(paywallAtom);
   const videoRef = useRef<null | HTMLVideoElement>(null);
@@ -233,34 +236,44 @@ export default function Recorder({ closeModal, step, setStep }: Props) {
     posthog?.capture("recorder: video downloaded");
   };
 
+  const uploadThumbnail = async (videoId: string) => {
+    if (!videoRef.current) return;
+    const thumbnail = await generateThumbnail(videoRef.current);
+    const { signedThumbnailUrl } = await getThumbnailUploadUrl.mutateAsync({
+      videoId,
+    });
+    await axios.put(signedThumbnailUrl, thumbnail, {
+      headers: { "Content-Type": "image/png" },
+    });
+  };
+
   const handleUpload = async () => {
     if (!blob || !videoRef.current) return;
 
     const dateString =
       "Greadings Task - " + dayjs().format("MMM DD YYYY") + ".webm";
     setSubmitting(true);
+    setUploadProgress(0);
 
     try {
-      const { signedVideoUrl, signedThumbnailUrl, id } =
-        await getSignedUrl.mutateAsync({
-          key: dateString,
-          userContext: userContext || undefined,
-        });
+      const { id } = await createUpload.mutateAsync({
+        key: dateString,
+        userContext: userContext || undefined,
+      });
 
-      await axios
-        .put(signedVideoUrl, blob.slice(), {
-          headers: { "Content-Type": "video/webm" },
-        })
-        .then(async () => {
-          if (!videoRef.current) return;
-          return axios.put(
-            signedThumbnailUrl,
-            await generateThumbnail(videoRef.current),
-            {
-              headers: { "Content-Type": "image/png" },
-            }
-          );
-        })
+      await uploadMultipart(
+        apiUtils.client.video,
+        {
+          videoId: id,
+          userId: session?.user?.id,
+          fileName: dateString,
+          contentType: "video/webm",
+          file: blob,
+        },
+        { onProgress: setUploadProgress }
+      )
+        // The task works without a thumbnail, so a failed one doesn't fail the upload
+        .then(() => uploadThumbnail(id).catch((err) => console.error(err)))
         .then(() => {
           invalidateTasksCache(session?.user?.id);
           void router.push("task/" + id + "?analyze=true");
@@ -465,7 +478,7 @@ export default function Recorder({ closeModal, step, setStep }: Props) {
                       d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                     ></path>
                   </svg>
-                  Uploading...
+                  Uploading... {Math.round(uploadProgress * 100)}%
                 </>
               ) : (
                 <>Save & Analyze</>
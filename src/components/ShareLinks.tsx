@@ -0,0 +1,260 @@
+import { Cross2Icon, Link2Icon, PlusIcon } from "@radix-ui/react-icons";
+import { usePostHog } from "posthog-js/react";
+import { useState, type FormEvent } from "react";
+import { api } from "~/utils/api";
+
+interface Props {
+  videoId: string;
+  // Links are only loaded while the share modal is open
+  enabled: boolean;
+}
+
+const LINK_EXPIRY_OPTIONS = {
+  never: { label: "Never expires", days: null },
+  day: { label: "Expires in 1 day", days: 1 },
+  week: { label: "Expires in 7 days", days: 7 },
+  month: { label: "Expires in 30 days", days: 30 },
+} as const;
+
+const LINK_CONTENT_OPTIONS = {
+  all: "Video and analysis",
+  hideAnalysis: "Video only",
+  hideVideo: "Analysis only",
+} as const;
+
+const fieldClass =
+  "h-8 min-w-0 rounded-md border border-gray-300 bg-white px-2 text-sm text-gray-700 focus:border-custom-dark-orange focus:outline-none focus:ring-1 focus:ring-custom-dark-orange";
+
+const getShareLinkUrl = (videoId: string, token: string) =>
+  `${window.location.origin}/task/${videoId}?link=${token}`;
+
+/** The share links of a task, each with its own token and limits, and a form to create one. */
+export default function ShareLinks({ videoId, enabled }: Props) {
+  const utils = api.useContext();
+  const posthog = usePostHog();
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedLinkId, setCopiedLinkId] = useState<string | null>(null);
+  const [label, setLabel] = useState("");
+  const [password, setPassword] = useState("");
+  const [expiry, setExpiry] =
+    useState<keyof typeof LINK_EXPIRY_OPTIONS>("never");
+  const [maxViews, setMaxViews] = useState("");
+  const [content, setContent] =
+    useState<keyof typeof LINK_CONTENT_OPTIONS>("all");
+
+  const { data: links } = api.video.getShareLinks.useQuery(
+    { videoId },
+    { enabled }
+  );
+  const onLinksChanged = () =>
+    void utils.video.getShareLinks.invalidate({ videoId });
+
+  const copyLink = (linkId: string, token: string) => {
+    void navigator.clipboard.writeText(getShareLinkUrl(videoId, token));
+    setCopiedLinkId(linkId);
+    setTimeout(() => setCopiedLinkId(null), 5000);
+    posthog?.capture("share link copied", { videoId });
+  };
+
+  const createShareLinkMutation = api.video.createShareLink.useMutation({
+    onSuccess: (link) => {
+      setIsCreating(false);
+      setLabel("");
+      setPassword("");
+      setMaxViews("");
+      onLinksChanged();
+      copyLink(link.id, link.token);
+    },
+    onError: (err) => alert(err.message),
+  });
+  const revokeShareLinkMutation = api.video.revokeShareLink.useMutation({
+    onSettled: onLinksChanged,
+    onError: (err) => console.error(err.message),
+  });
+
+  const createLink = (e: FormEvent) => {
+    e.preventDefault();
+    const { days } = LINK_EXPIRY_OPTIONS[expiry];
+    createShareLinkMutation.mutate({
+      videoId,
+      label: label.trim() || null,
+      password: password || null,
+      expiresAt: days
+        ? new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+        : null,
+      maxViews: maxViews ? Number(maxViews) : null,
+      hideAnalysis: content === "hideAnalysis",
+      hideVideo: content === "hideVideo",
+    });
+  };
+
+  return (
+    <div className="mt-6 w-full">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Share links</span>
+        {!isCreating && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="flex items-center gap-1 rounded-md px-2 py-1 text-sm text-gray-600 hover:bg-gray-100"
+          >
+            <PlusIcon />
+            New link
+          </button>
+        )}
+      </div>
+
+      {links?.length ? (
+        <ul className="mt-2 divide-y divide-gray-100">
+          {links.map((link, i) => {
+            const isExpired =
+              !!link.expiresAt && new Date(link.expiresAt) <= new Date();
+            const details = [
+              link.hideVideo
+                ? LINK_CONTENT_OPTIONS.hideVideo
+                : link.hideAnalysis
+                ? LINK_CONTENT_OPTIONS.hideAnalysis
+                : null,
+              link.hasPassword ? "Password" : null,
+              link.expiresAt
+                ? `${isExpired ? "Expired" : "Expires"} ${new Date(
+                    link.expiresAt
+                  ).toLocaleDateString()}`
+                : null,
+              link.maxViews
+                ? `${link.viewCount}/${link.maxViews} views`
+                : `${link.viewCount} views`,
+            ].filter(Boolean);
+
+            return (
+              <li
+                key={link.id}
+                className="flex items-center justify-between gap-2 py-1.5 text-sm"
+              >
+                <div className="min-w-0">
+                  <p className="truncate">{link.label ?? `Link ${i + 1}`}</p>
+                  <p className="truncate text-xs text-gray-500">
+                    {details.join(" · ")}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  <button
+                    onClick={() => copyLink(link.id, link.token)}
+                    disabled={isExpired}
+                    className="flex items-center gap-1 rounded-md px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+                  >
+                    <Link2Icon />
+                    {copiedLinkId === link.id ? "Copied!" : "Copy"}
+                  </button>
+                  <button
+                    aria-label={`Revoke ${link.label ?? `link ${i + 1}`}`}
+                    onClick={() => {
+                      if (
+                        confirm(
+                          "Revoke this link? Anyone using it loses access; other links keep working."
+                        )
+                      ) {
+                        revokeShareLinkMutation.mutate({ linkId: link.id });
+                      }
+                    }}
+                    className="rounded p-1 text-gray-400 hover:text-red-600"
+                  >
+                    <Cross2Icon />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        !isCreating && (
+          <p className="mt-1 text-xs text-gray-500">
+            Links work without an account, even while public sharing is off.
+          </p>
+        )
+      )}
+
+      {isCreating && (
+        <form
+          onSubmit={createLink}
+          className="mt-2 grid grid-cols-2 gap-2 rounded-md border border-gray-200 bg-[#fafbfc] p-3"
+        >
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Label (optional)"
+            maxLength={60}
+            aria-label="Label"
+            className={`${fieldClass} col-span-2`}
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password (optional)"
+            minLength={8}
+            maxLength={100}
+            aria-label="Password"
+            autoComplete="new-password"
+            className={fieldClass}
+          />
+          <input
+            type="number"
+            value={maxViews}
+            onChange={(e) => setMaxViews(e.target.value)}
+            placeholder="Max views (optional)"
+            min={1}
+            max={100000}
+            aria-label="Max views"
+            className={fieldClass}
+          />
+          <select
+            value={expiry}
+            onChange={(e) =>
+              setExpiry(e.target.value as keyof typeof LINK_EXPIRY_OPTIONS)
+            }
+            aria-label="Expiry"
+            className={fieldClass}
+          >
+            {Object.entries(LINK_EXPIRY_OPTIONS).map(([value, option]) => (
+              <option key={value} value={value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={content}
+            onChange={(e) =>
+              setContent(e.target.value as keyof typeof LINK_CONTENT_OPTIONS)
+            }
+            aria-label="Shows"
+            className={fieldClass}
+          >
+            {Object.entries(LINK_CONTENT_OPTIONS).map(
+              ([value, optionLabel]) => (
+                <option key={value} value={value}>
+                  {optionLabel}
+                </option>
+              )
+            )}
+          </select>
+          <div className="col-span-2 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setIsCreating(false)}
+              className="h-8 rounded-md px-3 text-sm text-gray-500 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={createShareLinkMutation.isLoading}
+              className="h-8 rounded-md bg-custom-black px-3 text-sm font-medium text-white hover:bg-custom-black/80 disabled:opacity-50"
+            >
+              Create and copy link
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,26 @@
 import { Dialog, DialogPanel, Transition, TransitionChild } from "@headlessui/react";
-import { Fragment, useState } from "react";
+import { Cross2Icon } from "@radix-ui/react-icons";
+import { type ShareAccess } from "@prisma/client";
+import { Fragment, useState, type FormEvent } from "react";
 import { ModernSwitch } from "~/components/ModernSwitch";
 import { api, type RouterOutputs } from "~/utils/api";
 import ExpireDateSelectMenu from "~/components/ExpireDateSelectMenu";
+import ShareLinks from "~/components/ShareLinks";
+import ShareStats from "~/components/ShareStats";
 import { usePostHog } from "posthog-js/react";
 
 interface Props {
   video: RouterOutputs["video"]["get"];
 }
 
+const SHARE_ACCESS_LABELS: Record<ShareAccess, string> = {
+  viewer: "Can view",
+  commenter: "Can comment",
+};
+
+const shareFieldClass =
+  "h-8 rounded-md border border-gray-300 bg-white px-2 text-sm text-gray-700 focus:border-custom-dark-orange focus:outline-none focus:ring-1 focus:ring-custom-dark-orange";
+
 export function ShareModal({ video }: Props) {
   const utils = api.useContext();
   const [open, setOpen] = useState<boolean>(false);
@@ -102,6 +114,45 @@ export function ShareModal({ video }: Props) {
     },
   });
 
+  const [inviteEmails, setInviteEmails] = useState("");
+  const [inviteAccess, setInviteAccess] = useState<ShareAccess>("viewer");
+  const { data: shares } = api.video.getShares.useQuery(
+    { videoId: video.id },
+    { enabled: open }
+  );
+  const shareWithPeopleMutation = api.video.shareWithPeople.useMutation({
+    onSuccess: ({ failedEmails }) => {
+      setInviteEmails("");
+      if (failedEmails.length > 0) {
+        alert(
+          `Shared, but the invite email couldn't be sent to ${failedEmails.join(", ")}`
+        );
+      }
+    },
+    onSettled: () => void utils.video.getShares.invalidate({ videoId: video.id }),
+    onError: (err) => alert(err.message),
+  });
+  const revokeShareMutation = api.video.revokeShare.useMutation({
+    onSettled: () => void utils.video.getShares.invalidate({ videoId: video.id }),
+    onError: (err) => console.error(err.message),
+  });
+
+  // Emails separated by commas, semicolons or whitespace, as pasted from a mail client
+  const parsedInviteEmails = inviteEmails
+    .split(/[\s,;]+/)
+    .map((email) => email.trim())
+    .filter(Boolean);
+
+  const shareWithPeople = (e: FormEvent) => {
+    e.preventDefault();
+    if (parsedInviteEmails.length === 0) return;
+    shareWithPeopleMutation.mutate({
+      videoId: video.id,
+      emails: parsedInviteEmails,
+      access: inviteAccess,
+    });
+  };
+
   const [linkCopied, setLinkCopied] = useState<boolean>(false);
   const [showSolvedPrompt, setShowSolvedPrompt] = useState<boolean>(false);
 
@@ -169,6 +220,98 @@ export function ShareModal({ video }: Props) {
                     <span className="text-lg font-medium">
                       Share this automation
                     </span>
+                    <form
+                      onSubmit={shareWithPeople}
+                      className="mt-6 flex w-full gap-1"
+                    >
+                      <input
+                        value={inviteEmails}
+                        onChange={(e) => setInviteEmails(e.target.value)}
+                        placeholder="Add people by email"
+                        aria-label="Emails to share with"
+                        className={`${shareFieldClass} min-w-0 grow`}
+                      />
+                      <select
+                        aria-label="Access"
+                        value={inviteAccess}
+                        onChange={(e) =>
+                          setInviteAccess(e.target.value as ShareAccess)
+                        }
+                        className={shareFieldClass}
+                      >
+                        {Object.entries(SHARE_ACCESS_LABELS).map(
+                          ([value, label]) => (
+                            <option key={value} value={value}>
+                              {label}
+                            </option>
+                          )
+                        )}
+                      </select>
+                      <button
+                        type="submit"
+                        disabled={
+                          parsedInviteEmails.length === 0 ||
+                          shareWithPeopleMutation.isLoading
+                        }
+                        className="h-8 rounded-md bg-custom-black px-3 text-sm font-medium text-white hover:bg-custom-black/80 disabled:opacity-50"
+                      >
+                        Invite
+                      </button>
+                    </form>
+                    {shares?.length ? (
+                      <ul className="mt-2 w-full divide-y divide-gray-100">
+                        {shares.map((share) => (
+                          <li
+                            key={share.id}
+                            className="flex items-center justify-between gap-2 py-1.5 text-sm"
+                          >
+                            <span className="truncate">
+                              {share.email}
+                              {!share.acceptedAt && (
+                                <span className="ml-1 text-xs text-gray-400">
+                                  Pending
+                                </span>
+                              )}
+                            </span>
+                            <div className="flex shrink-0 items-center gap-1">
+                              <select
+                                aria-label={`Access of ${share.email}`}
+                                value={share.access}
+                                onChange={(e) =>
+                                  shareWithPeopleMutation.mutate({
+                                    videoId: video.id,
+                                    emails: [share.email],
+                                    access: e.target.value as ShareAccess,
+                                  })
+                                }
+                                className="h-7 rounded-md bg-transparent text-xs text-gray-500 focus:outline-none"
+                              >
+                                {Object.entries(SHARE_ACCESS_LABELS).map(
+                                  ([value, label]) => (
+                                    <option key={value} value={value}>
+                                      {label}
+                                    </option>
+                                  )
+                                )}
+                              </select>
+                              <button
+                                aria-label={`Revoke access of ${share.email}`}
+                                onClick={() =>
+                                  revokeShareMutation.mutate({
+                                    shareId: share.id,
+                                  })
+                                }
+                                className="rounded p-1 text-gray-400 hover:text-red-600"
+                              >
+                                <Cross2Icon />
+                              </button>
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : null}
+                    <ShareLinks videoId={video.id} enabled={open} />
+                    <ShareStats videoId={video.id} enabled={open} />
                     <div className="mt-6 flex w-full items-center justify-between">
                       <span className="text-sm font-medium">
                         Share link with anyone
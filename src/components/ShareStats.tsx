@@ -0,0 +1,76 @@
+import { api } from "~/utils/api";
+import { formatWatchThrough } from "~/utils/viewerAnalytics";
+
+interface Props {
+  videoId: string;
+  // Stats are only loaded while the share modal is open
+  enabled: boolean;
+}
+
+/** Who watched a task, how far they got, where they came from and how they reacted. */
+export default function ShareStats({ videoId, enabled }: Props) {
+  const { data: stats } = api.analytics.getStats.useQuery(
+    { videoId },
+    { enabled }
+  );
+
+  if (!stats) return null;
+
+  const figures = [
+    { label: "Viewers", value: stats.uniqueViewers },
+    { label: "Visits", value: stats.visits },
+    {
+      label: "Avg. watched",
+      value: formatWatchThrough(stats.averageWatchThrough),
+    },
+    { label: "Finished", value: stats.completedViewers },
+  ];
+
+  return (
+    <div className="mt-6 w-full">
+      <span className="text-sm font-medium">Views</span>
+      {stats.uniqueViewers ? (
+        <>
+          <dl className="mt-2 grid grid-cols-4 gap-2 text-center">
+            {figures.map((figure) => (
+              <div
+                key={figure.label}
+                className="flex flex-col-reverse rounded-md border border-gray-200 bg-[#fafbfc] py-2"
+              >
+                <dt className="text-[10px] uppercase tracking-wider text-gray-500">
+                  {figure.label}
+                </dt>
+                <dd className="text-base font-semibold">{figure.value}</dd>
+              </div>
+            ))}
+          </dl>
+          <p className="mt-2 text-xs text-gray-500">
+            From{" "}
+            {stats.referrers
+              .map(
+                (referrer) =>
+                  `${referrer.host ?? "direct visits"} (${referrer.viewers})`
+              )
+              .join(", ")}
+          </p>
+        </>
+      ) : (
+        <p className="mt-1 text-xs text-gray-500">
+          Nobody else has watched this task yet.
+        </p>
+      )}
+      {stats.reactions.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {stats.reactions.map((reaction) => (
+            <span
+              key={reaction.emoji}
+              className="rounded-full bg-gray-100 px-2 py-0.5 text-xs"
+            >
+              {reaction.emoji} {reaction.count}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+import {
+  Menu,
+  MenuButton,
+  MenuItem,
+  MenuItems,
+  Popover,
+  PopoverButton,
+  PopoverPanel,
+} from "@headlessui/react";
+import { Cross2Icon } from "@radix-ui/react-icons";
+import { useSession } from "next-auth/react";
+import { usePostHog } from "posthog-js/react";
+import { useState, type FormEvent } from "react";
+import { api, type RouterOutputs } from "~/utils/api";
+import {
+  patchTaskPages,
+  removeTasksFromCache,
+  setTasksCache,
+  updateTasksInCache,
+} from "~/utils/cacheUtils";
+import { TAG_COLORS, getTagColorClass, type TagColor } from "~/utils/tags";
+
+type TaskItem = RouterOutputs["video"]["getAll"]["items"][number];
+
+type BulkAction =
+  | { type: "delete" }
+  | { type: "deleteFile" }
+  | { type: "setSharing"; sharing: boolean }
+  | { type: "setSolved"; solved: boolean | null }
+  | { type: "reanalyze" };
+
+interface Props {
+  selectedVideos: TaskItem[];
+  onMove: (videoIds: string[], folderId: string | null) => void;
+  onTag: (videoIds: string[], tagId: string, tagged: boolean) => void;
+  onSelectionChange: (videoIds: string[]) => void;
+}
+
+const CONFIRM_MESSAGES: Partial<Record<BulkAction["type"], string>> = {
+  delete: "Delete {count} tasks? This can't be undone.",
+  deleteFile:
+    "Delete the video files of {count} tasks? Their analyses and plans are kept.",
+};
+
+// How the task list looks once an action went through, applied before the server answers
+const getOptimisticUpdate = (
+  action: BulkAction
+): Partial<TaskItem> | null | undefined => {
+  switch (action.type) {
+    case "delete":
+      return null;
+    case "deleteFile":
+      return { fileDeletedAt: new Date() };
+    case "setSharing":
+      return { sharing: action.sharing };
+    case "setSolved":
+      return { solved: action.solved };
+    case "reanalyze":
+      return undefined;
+  }
+};
+
+const actionClass =
+  "flex h-8 items-center rounded-md border border-gray-300 bg-white px-3 text-sm text-gray-700 hover:bg-gray-50 focus:outline-none";
+
+const TAG_COLOR_KEYS = Object.keys(TAG_COLORS) as TagColor[];
+
+/** Toolbar for the tasks selected in the grid. */
+export default function TaskBulkActions({
+  selectedVideos,
+  onMove,
+  onTag,
+  onSelectionChange,
+}: Props) {
+  const utils = api.useContext();
+  const posthog = usePostHog();
+  const { data: session } = useSession();
+  const [tagName, setTagName] = useState("");
+  const { data: folders } = api.library.getFolders.useQuery();
+  const { data: tags } = api.library.getTags.useQuery();
+
+  const createTagMutation = api.library.createTag.useMutation({
+    onSuccess: (tag) => {
+      setTagName("");
+      void utils.library.getTags.invalidate();
+      onTag(selectedIds, tag.id, true);
+    },
+    onError: (err) => alert(err.message),
+  });
+  const deleteTagMutation = api.library.deleteTag.useMutation({
+    onSuccess: () => {
+      void utils.library.getTags.invalidate();
+      void utils.video.getAll.invalidate();
+    },
+    onError: (err) => console.error(err.message),
+  });
+
+  const selectedIds = selectedVideos.map((video) => video.id);
+  // Tags every selected task already has, shown as checked
+  const sharedTagIds = (selectedVideos[0]?.tags ?? [])
+    .map((tag) => tag.id)
+    .filter((tagId) =>
+      selectedVideos.every((video) =>
+        video.tags.some((tag) => tag.id === tagId)
+      )
+    );
+
+  const bulkDeleteMutation = api.video.bulkDelete.useMutation();
+  const bulkDeleteFileMutation = api.video.bulkDeleteFile.useMutation();
+  const bulkSetSharingMutation = api.video.bulkSetSharing.useMutation();
+  const bulkSetSolvedMutation = api.video.bulkSetSolved.useMutation();
+  const bulkReanalyzeMutation = api.video.bulkReanalyze.useMutation();
+  const isRunning = [
+    bulkDeleteMutation,
+    bulkDeleteFileMutation,
+    bulkSetSharingMutation,
+    bulkSetSolvedMutation,
+    bulkReanalyzeMutation,
+  ].some((mutation) => mutation.isLoading);
+
+  const mutateBulkAction = (action: BulkAction, videoIds: string[]) => {
+    switch (action.type) {
+      case "delete":
+        return bulkDeleteMutation.mutateAsync({ videoIds });
+      case "deleteFile":
+        return bulkDeleteFileMutation.mutateAsync({ videoIds });
+      case "setSharing":
+        return bulkSetSharingMutation.mutateAsync({
+          videoIds,
+          sharing: action.sharing,
+        });
+      case "setSolved":
+        return bulkSetSolvedMutation.mutateAsync({
+          videoIds,
+          solved: action.solved,
+        });
+      case "reanalyze":
+        return bulkReanalyzeMutation.mutateAsync({ videoIds });
+    }
+  };
+
+  const runBulkAction = async (action: BulkAction) => {
+    const confirmMessage = CONFIRM_MESSAGES[action.type];
+    if (
+      confirmMessage &&
+      !confirm(confirmMessage.replace("{count}", String(selectedIds.length)))
+    ) {
+      return;
+    }
+
+    const userId = session?.user?.id;
+    const videoIds = selectedIds;
+    const update = getOptimisticUpdate(action);
+    const previousValue = utils.video.getAll.getInfiniteData({ limit: 20 });
+    if (update !== undefined) {
+      await utils.video.getAll.cancel();
+      if (previousValue) {
+        utils.video.getAll.setInfiniteData(
+          { limit: 20 },
+          patchTaskPages(previousValue, videoIds, update)
+        );
+      }
+      if (update) {
+        updateTasksInCache(videoIds, update, userId);
+      } else {
+        removeTasksFromCache(videoIds, userId);
+      }
+    }
+
+    try {
+      const { results } = await mutateBulkAction(action, videoIds);
+      const failed = results.filter((result) => !result.ok);
+      // Skipped tasks stay selected so they can be looked at or retried
+      onSelectionChange(failed.map((result) => result.videoId));
+      if (failed.length > 0) {
+        const titles = new Map(
+          selectedVideos.map((video) => [video.id, video.title])
+        );
+        alert(
+          `${results.length - failed.length} of ${
+            results.length
+          } tasks were updated. Skipped:\n\n${failed
+            .map(
+              (result) =>
+                `${titles.get(result.videoId) ?? result.videoId}: ${
+                  result.error ?? "Unknown error"
+                }`
+            )
+            .join("\n")}`
+        );
+      }
+
+      posthog?.capture("run bulk task action", {
+        action: action.type,
+        videoAmount: videoIds.length,
+        failedAmount: failed.length,
+      });
+    } catch (err) {
+      if (previousValue) {
+        utils.video.getAll.setInfiniteData({ limit: 20 }, previousValue);
+        setTasksCache(previousValue, Date.now(), userId);
+      }
+      console.error(err instanceof Error ? err.message : err);
+    } finally {
+      void utils.video.getAll.invalidate();
+      void utils.video.search.invalidate();
+      void utils.library.getFolders.invalidate();
+    }
+  };
+
+  const createTag = (e: FormEvent) => {
+    e.preventDefault();
+    if (!tagName.trim() || createTagMutation.isLoading) return;
+    createTagMutation.mutate({
+      name: tagName.trim(),
+      // New tags take turns through the palette
+      color: TAG_COLOR_KEYS[(tags?.length ?? 0) % TAG_COLOR_KEYS.length],
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md bg-custom-dark-orange/10 px-3 py-2">
+      <span className="mr-2 text-sm font-medium text-gray-700">
+        {isRunning ? "Updating…" : `${selectedIds.length} selected`}
+      </span>
+
+      <Menu as="div" className="relative">
+        <MenuButton className={actionClass}>Move to…</MenuButton>
+        <MenuItems className="absolute left-0 z-10 mt-2 max-h-72 w-56 overflow-y-auto rounded-md bg-white p-1 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+          {folders?.map((folder) => (
+            <MenuItem key={folder.id}>
+              {({ active }) => (
+                <button
+                  onClick={() => onMove(selectedIds, folder.id)}
+                  className={`block w-full truncate rounded-md px-2 py-1 text-left text-sm ${
+                    active ? "bg-gray-100" : ""
+                  }`}
+                >
+                  {folder.name}
+                </button>
+              )}
+            </MenuItem>
+          ))}
+          <MenuItem>
+            {({ active }) => (
+              <button
+                onClick={() => onMove(selectedIds, null)}
+                className={`block w-full rounded-md px-2 py-1 text-left text-sm text-gray-500 ${
+                  active ? "bg-gray-100" : ""
+                }`}
+              >
+                No folder
+              </button>
+            )}
+          </MenuItem>
+        </MenuItems>
+      </Menu>
+
+      <Popover className="relative">
+        <PopoverButton className={actionClass}>Tag…</PopoverButton>
+        <PopoverPanel className="absolute left-0 z-10 mt-2 w-64 rounded-md bg-white p-2 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+          {tags?.length ? (
+            <ul className="mb-2 max-h-60 overflow-y-auto border-b border-gray-100 pb-2">
+              {tags.map((tag) => {
+                const tagged = sharedTagIds.includes(tag.id);
+                return (
+                  <li
+                    key={tag.id}
+                    className="group flex items-center gap-2 rounded-md px-2 py-1 hover:bg-gray-100"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={tagged}
+                      onChange={() => onTag(selectedIds, tag.id, !tagged)}
+                      aria-label={`Tag with ${tag.name}`}
+                    />
+                    <span
+                      className={`grow truncate rounded-full px-2 py-0.5 text-xs font-medium ${getTagColorClass(
+                        tag.color
+                      )}`}
+                    >
+                      {tag.name}
+                    </span>
+                    <button
+                      aria-label={`Delete tag ${tag.name}`}
+                      onClick={() => {
+                        if (
+                          confirm(
+                            `Delete the tag "${tag.name}" from all of your tasks?`
+                          )
+                        ) {
+                          deleteTagMutation.mutate({ tagId: tag.id });
+                        }
+                      }}
+                      className="invisible text-gray-400 hover:text-gray-700 group-hover:visible"
+                    >
+                      <Cross2Icon />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : null}
+          <form onSubmit={createTag} className="flex gap-1">
+            <input
+              value={tagName}
+              onChange={(e) => setTagName(e.target.value)}
+              placeholder="New tag"
+              maxLength={60}
+              aria-label="New tag"
+              className="h-8 min-w-0 grow rounded-md border border-gray-300 px-2 text-sm focus:border-custom-dark-orange focus:outline-none focus:ring-1 focus:ring-custom-dark-orange"
+            />
+            <button
+              type="submit"
+              disabled={!tagName.trim() || createTagMutation.isLoading}
+              className="h-8 rounded-md bg-custom-dark-orange px-3 text-sm font-medium text-white disabled:opacity-50"
+            >
+              Add
+            </button>
+          </form>
+        </PopoverPanel>
+      </Popover>
+
+      <Menu as="div" className="relative">
+        <MenuButton className={actionClass} disabled={isRunning}>
+          More…
+        </MenuButton>
+        <MenuItems className="absolute left-0 z-10 mt-2 w-56 rounded-md bg-white p-1 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+          {(
+            [
+              ["Mark as solved", { type: "setSolved", solved: true }],
+              ["Mark as unsolved", { type: "setSolved", solved: false }],
+              ["Mark as unreviewed", { type: "setSolved", solved: null }],
+              ["Share", { type: "setSharing", sharing: true }],
+              ["Make private", { type: "setSharing", sharing: false }],
+              ["Re-analyze", { type: "reanalyze" }],
+              ["Delete video files", { type: "deleteFile" }],
+              ["Delete tasks", { type: "delete" }],
+            ] satisfies [string, BulkAction][]
+          ).map(([label, action]) => (
+            <MenuItem key={label}>
+              {({ active }) => (
+                <button
+                  onClick={() => void runBulkAction(action)}
+                  className={`block w-full rounded-md px-2 py-1 text-left text-sm ${
+                    action.type === "delete" || action.type === "deleteFile"
+                      ? "text-red-600"
+                      : ""
+                  } ${active ? "bg-gray-100" : ""}`}
+                >
+                  {label}
+                </button>
+              )}
+            </MenuItem>
+          ))}
+        </MenuItems>
+      </Menu>
+
+      <button
+        onClick={() => onSelectionChange([])}
+        className="ml-auto h-8 rounded-md px-2 text-sm text-gray-500 hover:bg-white/60"
+      >
+        Clear selection
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,442 @@
+import { CheckIcon, ResetIcon, TrashIcon } from "@radix-ui/react-icons";
+import Image from "next/image";
+import { useSession } from "next-auth/react";
+import { useState, type FormEvent, type ReactNode } from "react";
+import defaultProfileIcon from "~/assets/default profile icon.jpg";
+import { api, type RouterOutputs } from "~/utils/api";
+import { getTime } from "~/utils/getTime";
+import { formatTimestamp } from "~/utils/timestamps";
+
+type Comment = RouterOutputs["comment"]["list"]["comments"][number];
+type MentionableUser = RouterOutputs["comment"]["getMentionableUsers"][number];
+
+interface Props {
+  videoId: string;
+  // From `video.openShareLink`, for people who opened the task with a share link
+  shareGrant?: string | null;
+  // Seeks the player; without it timestamps are shown but can't be attached or clicked
+  onSeek?: (seconds: number) => void;
+  getCurrentTime?: () => number;
+}
+
+// The `@name` being typed at the end of the draft, if any
+const MENTION_QUERY_PATTERN = /(?:^|\s)@([^\s@]*)$/;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Renders a comment's text with its `@mentions` highlighted. */
+function CommentBody({ comment }: { comment: Comment }) {
+  const names = comment.mentions.flatMap((user) =>
+    user.name ? [user.name] : []
+  );
+  if (!names.length) return <>{comment.body}</>;
+
+  const pattern = new RegExp(`(@(?:${names.map(escapeRegExp).join("|")}))`);
+  return (
+    <>
+      {comment.body.split(pattern).map((part, i) =>
+        i % 2 === 1 ? (
+          <span key={i} className="font-medium text-custom-dark-orange">
+            {part}
+          </span>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+function CommentComposer({
+  mentionableUsers,
+  placeholder,
+  isSubmitting,
+  getCurrentTime,
+  onSubmit,
+  onCancel,
+  autoFocus,
+}: {
+  mentionableUsers: MentionableUser[];
+  placeholder: string;
+  isSubmitting: boolean;
+  // Offers to attach the current playback position; only for top-level comments
+  getCurrentTime?: () => number;
+  onSubmit: (
+    comment: {
+      body: string;
+      timestamp: number | null;
+      mentionedUserIds: string[];
+    },
+    reset: () => void
+  ) => void;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}) {
+  const [body, setBody] = useState("");
+  const [mentioned, setMentioned] = useState<MentionableUser[]>([]);
+  const [attachTime, setAttachTime] = useState(true);
+  // The playback position when the comment was started, as the player keeps going while typing
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const timestamp = getCurrentTime ? startedAt ?? getCurrentTime() : null;
+
+  const mentionQuery = MENTION_QUERY_PATTERN.exec(body)?.[1]?.toLowerCase();
+  const suggestions =
+    mentionQuery === undefined
+      ? []
+      : mentionableUsers
+          .filter((user) => user.name?.toLowerCase().includes(mentionQuery))
+          .slice(0, 5);
+
+  const insertMention = (user: MentionableUser) => {
+    setBody((draft) => draft.replace(/@([^\s@]*)$/, `@${user.name ?? ""} `));
+    setMentioned((users) =>
+      users.some(({ id }) => id === user.id) ? users : [...users, user]
+    );
+  };
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    onSubmit(
+      {
+        body,
+        timestamp: attachTime ? timestamp : null,
+        // Mentions that were picked but later deleted from the text don't notify anyone
+        mentionedUserIds: mentioned
+          .filter((user) => body.includes(`@${user.name ?? ""}`))
+          .map((user) => user.id),
+      },
+      () => {
+        setBody("");
+        setMentioned([]);
+        setStartedAt(null);
+      }
+    );
+  };
+
+  return (
+    <form onSubmit={submit} className="relative">
+      <textarea
+        value={body}
+        onChange={(e) => {
+          if (!body && getCurrentTime) setStartedAt(getCurrentTime());
+          setBody(e.target.value);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) submit(e);
+        }}
+        placeholder={placeholder}
+        maxLength={5000}
+        rows={2}
+        autoFocus={autoFocus}
+        className="w-full resize-y rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-700 focus:border-custom-dark-orange focus:outline-none focus:ring-1 focus:ring-custom-dark-orange"
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 top-full z-20 mt-1 w-64 overflow-hidden rounded-md border border-gray-200 bg-white py-1 text-sm shadow-lg">
+          {suggestions.map((user) => (
+            <li key={user.id}>
+              <button
+                type="button"
+                onClick={() => insertMention(user)}
+                className="flex w-full items-center gap-2 px-3 py-1.5 text-left hover:bg-gray-100"
+              >
+                <Image
+                  src={user.image ?? defaultProfileIcon}
+                  alt=""
+                  width={20}
+                  height={20}
+                  className="rounded-full"
+                  unoptimized
+                />
+                {user.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-1 flex items-center justify-between gap-2">
+        {timestamp !== null ? (
+          <label className="flex items-center gap-1.5 text-xs text-gray-500">
+            <input
+              type="checkbox"
+              checked={attachTime}
+              onChange={(e) => setAttachTime(e.target.checked)}
+            />
+            At {formatTimestamp(timestamp)}
+          </label>
+        ) : (
+          <span />
+        )}
+        <div className="flex gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="h-8 rounded-md px-3 text-sm text-gray-500 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isSubmitting || !body.trim()}
+            className="h-8 rounded-md bg-custom-black px-3 text-sm font-medium text-white hover:bg-custom-black/80 disabled:opacity-50"
+          >
+            Comment
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+function CommentItem({
+  comment,
+  onSeek,
+  actions,
+}: {
+  comment: Comment;
+  onSeek?: (seconds: number) => void;
+  actions?: ReactNode;
+}) {
+  return (
+    <div className="flex gap-3">
+      <div className="h-8 w-8 shrink-0 overflow-hidden rounded-full">
+        <Image
+          src={comment.user.image ?? defaultProfileIcon}
+          alt="profile icon"
+          width={32}
+          height={32}
+          unoptimized
+        />
+      </div>
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-medium">{comment.user.name}</span>
+          <span className="text-xs text-gray-500" suppressHydrationWarning>
+            {getTime(comment.createdAt)}
+          </span>
+          <div className="ml-auto flex items-center gap-1">{actions}</div>
+        </div>
+        <p className="whitespace-pre-wrap break-words text-sm text-gray-700">
+          {comment.timestamp != null && (
+            <button
+              onClick={() => onSeek?.(comment.timestamp ?? 0)}
+              disabled={!onSeek}
+              className="mr-1.5 rounded bg-gray-100 px-1.5 font-mono text-xs text-custom-dark-orange hover:bg-gray-200 disabled:cursor-default"
+            >
+              {formatTimestamp(comment.timestamp)}
+            </button>
+          )}
+          <CommentBody comment={comment} />
+        </p>
+      </div>
+    </div>
+  );
+}
+
+/** Threaded comments on a task, optionally pinned to a moment in the recording. */
+export default function TaskComments({
+  videoId,
+  shareGrant,
+  onSeek,
+  getCurrentTime,
+}: Props) {
+  const { data: session } = useSession();
+  const utils = api.useContext();
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+
+  const { data } = api.comment.list.useQuery(
+    { videoId, shareGrant },
+    { refetchOnWindowFocus: false }
+  );
+  const { data: mentionableUsers } = api.comment.getMentionableUsers.useQuery(
+    { videoId },
+    { enabled: !!data?.canComment, refetchOnWindowFocus: false }
+  );
+  const onCommentsChanged = () =>
+    void utils.comment.list.invalidate({ videoId });
+
+  const createCommentMutation = api.comment.create.useMutation({
+    onSuccess: onCommentsChanged,
+    onError: (err) => alert(err.message),
+  });
+  const setResolvedMutation = api.comment.setResolved.useMutation({
+    onSettled: onCommentsChanged,
+    onError: (err) => console.error(err.message),
+  });
+  const deleteCommentMutation = api.comment.delete.useMutation({
+    onSettled: onCommentsChanged,
+    onError: (err) => console.error(err.message),
+  });
+
+  if (!data) return null;
+
+  const threads = data.comments.filter((comment) => !comment.parentId);
+  const resolvedCount = threads.filter((thread) => thread.resolvedAt).length;
+  const visibleThreads = showResolved
+    ? threads
+    : threads.filter((thread) => !thread.resolvedAt);
+  const userId = session?.user.id;
+
+  const deleteButton = (comment: Comment) =>
+    comment.userId === userId ? (
+      <button
+        aria-label="Delete comment"
+        onClick={() => {
+          if (
+            confirm(
+              comment.parentId
+                ? "Delete this reply?"
+                : "Delete this comment and its replies?"
+            )
+          ) {
+            deleteCommentMutation.mutate({ commentId: comment.id });
+          }
+        }}
+        className="rounded p-1 text-gray-400 hover:text-red-600"
+      >
+        <TrashIcon />
+      </button>
+    ) : null;
+
+  return (
+    <div className="mt-6 rounded-lg border border-gray-200 bg-white p-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800">
+          Comments{threads.length ? ` (${threads.length})` : ""}
+        </h3>
+        {resolvedCount > 0 && (
+          <button
+            onClick={() => setShowResolved((show) => !show)}
+            className="rounded-md px-2 py-1 text-sm text-gray-600 hover:bg-gray-100"
+          >
+            {showResolved ? "Hide" : "Show"} resolved ({resolvedCount})
+          </button>
+        )}
+      </div>
+
+      {data.canComment && (
+        <div className="mt-4">
+          <CommentComposer
+            mentionableUsers={mentionableUsers ?? []}
+            placeholder="Add a comment… Type @ to mention someone"
+            isSubmitting={createCommentMutation.isLoading}
+            getCurrentTime={onSeek ? getCurrentTime : undefined}
+            onSubmit={(comment, reset) =>
+              createCommentMutation.mutate(
+                { videoId, ...comment },
+                { onSuccess: reset }
+              )
+            }
+          />
+        </div>
+      )}
+
+      {visibleThreads.length ? (
+        <ul className="mt-4 space-y-5">
+          {visibleThreads.map((thread) => {
+            const replies = data.comments.filter(
+              (comment) => comment.parentId === thread.id
+            );
+            const canResolve = thread.userId === userId || data.canModerate;
+
+            return (
+              <li
+                key={thread.id}
+                className={thread.resolvedAt ? "opacity-60" : undefined}
+              >
+                <CommentItem
+                  comment={thread}
+                  onSeek={onSeek}
+                  actions={
+                    <>
+                      {thread.resolvedAt && (
+                        <span className="text-xs text-gray-500">Resolved</span>
+                      )}
+                      {canResolve && (
+                        <button
+                          aria-label={
+                            thread.resolvedAt
+                              ? "Reopen comment"
+                              : "Resolve comment"
+                          }
+                          title={thread.resolvedAt ? "Reopen" : "Resolve"}
+                          onClick={() =>
+                            setResolvedMutation.mutate({
+                              commentId: thread.id,
+                              resolved: !thread.resolvedAt,
+                            })
+                          }
+                          className="rounded p-1 text-gray-400 hover:text-gray-700"
+                        >
+                          {thread.resolvedAt ? <ResetIcon /> : <CheckIcon />}
+                        </button>
+                      )}
+                      {deleteButton(thread)}
+                    </>
+                  }
+                />
+                <div className="ml-11">
+                  {replies.length > 0 && (
+                    <ul className="mt-3 space-y-3">
+                      {replies.map((reply) => (
+                        <li key={reply.id}>
+                          <CommentItem
+                            comment={reply}
+                            onSeek={onSeek}
+                            actions={deleteButton(reply)}
+                          />
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {data.canComment &&
+                    (replyingTo === thread.id ? (
+                      <div className="mt-3">
+                        <CommentComposer
+                          mentionableUsers={mentionableUsers ?? []}
+                          placeholder="Reply…"
+                          isSubmitting={createCommentMutation.isLoading}
+                          onCancel={() => setReplyingTo(null)}
+                          autoFocus
+                          onSubmit={(comment, reset) =>
+                            createCommentMutation.mutate(
+                              { videoId, parentId: thread.id, ...comment },
+                              {
+                                onSuccess: () => {
+                                  reset();
+                                  setReplyingTo(null);
+                                },
+                              }
+                            )
+                          }
+                        />
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => setReplyingTo(thread.id)}
+                        className="mt-1 text-xs font-medium text-gray-500 hover:text-gray-800"
+                      >
+                        Reply
+                      </button>
+                    ))}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="mt-3 text-sm text-gray-500">
+          {threads.length
+            ? "All comments are resolved."
+            : data.canComment
+            ? "No comments yet. Pin one to a moment in the recording to mark it on the timeline."
+            : "No comments yet."}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { Popover, PopoverButton, PopoverPanel } from "@headlessui/react";
+import { Cross2Icon, MixerHorizontalIcon } from "@radix-ui/react-icons";
+import { usePostHog } from "posthog-js/react";
+import { useState, type FormEvent } from "react";
+import { api } from "~/utils/api";
+import {
+  TASK_ANALYSIS_FILTERS,
+  TASK_FILE_FILTERS,
+  TASK_SORTS,
+  TASK_STATUS_FILTERS,
+  TASK_VISIBILITY_FILTERS,
+  hasTaskFilters,
+  taskFiltersToQuery,
+  type TaskFilters,
+} from "~/utils/taskFilters";
+
+interface Props {
+  filters: TaskFilters;
+  onChange: (filters: TaskFilters) => void;
+}
+
+const selectClass =
+  "h-8 rounded-md border border-gray-300 bg-white px-2 text-sm text-gray-700 focus:border-custom-dark-orange focus:outline-none focus:ring-1 focus:ring-custom-dark-orange";
+
+// Views are compared by their URL form, so key order and the default sort don't matter
+const isSameView = (a: TaskFilters, b: TaskFilters) => {
+  const left = taskFiltersToQuery(a);
+  const right = taskFiltersToQuery(b);
+  return (
+    Object.keys(left).length === Object.keys(right).length &&
+    Object.entries(left).every(([key, value]) => right[key] === value)
+  );
+};
+
+function FilterSelect<T extends Record<string, string>>({
+  label,
+  allLabel,
+  options,
+  value,
+  onChange,
+}: {
+  label: string;
+  allLabel?: string;
+  options: T;
+  value: (keyof T & string) | undefined;
+  onChange: (value: (keyof T & string) | undefined) => void;
+}) {
+  return (
+    <select
+      aria-label={label}
+      value={value ?? ""}
+      onChange={(e) =>
+        onChange(
+          e.target.value ? (e.target.value as keyof T & string) : undefined
+        )
+      }
+      className={selectClass}
+    >
+      {allLabel && <option value="">{allLabel}</option>}
+      {Object.entries(options).map(([option, optionLabel]) => (
+        <option key={option} value={option}>
+          {optionLabel}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default function TaskFilterBar({ filters, onChange }: Props) {
+  const utils = api.useContext();
+  const posthog = usePostHog();
+  const [viewName, setViewName] = useState("");
+
+  const { data: savedViews } = api.video.getSavedViews.useQuery();
+  const { data: tags } = api.library.getTags.useQuery();
+  const saveViewMutation = api.video.saveView.useMutation({
+    onSuccess: () => {
+      setViewName("");
+      void utils.video.getSavedViews.invalidate();
+    },
+    onError: (err) => console.error(err.message),
+  });
+  const deleteSavedViewMutation = api.video.deleteSavedView.useMutation({
+    onSettled: () => void utils.video.getSavedViews.invalidate(),
+    onError: (err) => console.error(err.message),
+  });
+
+  const update = (changes: Partial<TaskFilters>) =>
+    onChange({ ...filters, ...changes });
+
+  const saveView = (e: FormEvent) => {
+    e.preventDefault();
+    if (!viewName.trim()) return;
+    saveViewMutation.mutate({ name: viewName.trim(), filters });
+  };
+
+  const applyView = (view: TaskFilters) => {
+    onChange(view);
+    posthog?.capture("apply task view");
+  };
+
+  const activeView = savedViews?.find((view) =>
+    isSameView(view.filters, filters)
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <FilterSelect
+        label="Status"
+        allLabel="All statuses"
+        options={TASK_STATUS_FILTERS}
+        value={filters.status}
+        onChange={(status) => update({ status })}
+      />
+      <FilterSelect
+        label="Visibility"
+        allLabel="Shared and private"
+        options={TASK_VISIBILITY_FILTERS}
+        value={filters.visibility}
+        onChange={(visibility) => update({ visibility })}
+      />
+      <FilterSelect
+        label="Analysis"
+        allLabel="Any analysis"
+        options={TASK_ANALYSIS_FILTERS}
+        value={filters.analysis}
+        onChange={(analysis) => update({ analysis })}
+      />
+      <FilterSelect
+        label="File"
+        allLabel="Any file"
+        options={TASK_FILE_FILTERS}
+        value={filters.file}
+        onChange={(file) => update({ file })}
+      />
+      {tags?.length ? (
+        <FilterSelect
+          label="Tag"
+          allLabel="Any tag"
+          options={Object.fromEntries(tags.map((tag) => [tag.id, tag.name]))}
+          value={filters.tag}
+          onChange={(tag) => update({ tag })}
+        />
+      ) : null}
+      <div className="flex items-center gap-1 text-sm text-gray-500">
+        <input
+          type="date"
+          aria-label="Created from"
+          value={filters.from ?? ""}
+          max={filters.to}
+          onChange={(e) => update({ from: e.target.value || undefined })}
+          className={selectClass}
+        />
+        <span>–</span>
+        <input
+          type="date"
+          aria-label="Created until"
+          value={filters.to ?? ""}
+          min={filters.from}
+          onChange={(e) => update({ to: e.target.value || undefined })}
+          className={selectClass}
+        />
+      </div>
+      <FilterSelect
+        label="Sort"
+        options={TASK_SORTS}
+        value={filters.sort ?? "newest"}
+        onChange={(sort) => update({ sort })}
+      />
+      {hasTaskFilters(filters) && (
+        <button
+          onClick={() => onChange({})}
+          className="h-8 rounded-md px-2 text-sm text-gray-500 hover:bg-gray-100"
+        >
+          Clear
+        </button>
+      )}
+
+      <Popover className="relative">
+        <PopoverButton className="flex h-8 items-center gap-1 rounded-md border border-gray-300 bg-white px-2 text-sm text-gray-700 hover:bg-gray-50 focus:outline-none">
+          <MixerHorizontalIcon />
+          {activeView ? activeView.name : "Views"}
+        </PopoverButton>
+        <PopoverPanel className="absolute right-0 z-10 mt-2 w-64 rounded-md bg-white p-2 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+          {({ close }) => (
+            <>
+              {savedViews?.length ? (
+                <ul className="mb-2 border-b border-gray-100 pb-2">
+                  {savedViews.map((view) => (
+                    <li
+                      key={view.id}
+                      className={`group flex items-center justify-between rounded-md px-2 py-1 text-sm hover:bg-gray-100 ${
+                        view.id === activeView?.id ? "font-semibold" : ""
+                      }`}
+                    >
+                      <button
+                        className="grow truncate text-left"
+                        onClick={() => {
+                          applyView(view.filters);
+                          close();
+                        }}
+                      >
+                        {view.name}
+                      </button>
+                      <button
+                        aria-label={`Delete view ${view.name}`}
+                        className="invisible ml-2 text-gray-400 hover:text-gray-700 group-hover:visible"
+                        onClick={() =>
+                          deleteSavedViewMutation.mutate({ viewId: view.id })
+                        }
+                      >
+                        <Cross2Icon />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mb-2 px-2 text-sm text-gray-500">
+                  Save the current filters to get back to them later.
+                </p>
+              )}
+              <form onSubmit={saveView} className="flex gap-1">
+                <input
+                  value={viewName}
+                  onChange={(e) => setViewName(e.target.value)}
+                  placeholder="View name"
+                  maxLength={60}
+                  aria-label="View name"
+                  className="h-8 min-w-0 grow rounded-md border border-gray-300 px-2 text-sm focus:border-custom-dark-orange focus:outline-none focus:ring-1 focus:ring-custom-dark-orange"
+                />
+                <button
+                  type="submit"
+                  disabled={!viewName.trim() || saveViewMutation.isLoading}
+                  className="h-8 rounded-md bg-custom-dark-orange px-3 text-sm font-medium text-white disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </form>
+            </>
+          )}
+        </PopoverPanel>
+      </Popover>
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { useRouter } from "next/router";
 import { useSession } from "next-auth/react";
-import { api } from "~/utils/api";
-import ReactMarkdown from "react-markdown";
+import { useMutation } from "@tanstack/react-query";
+import { api, type RouterInputs, type RouterOutputs } from "~/utils/api";
+import ReactMarkdown, { type Components } from "react-markdown";
 import dynamic from "next/dynamic";
+import Image from "next/image";
 import { TrashIcon } from "@radix-ui/react-icons";
 
 // Import ScreencastRecorder dynamically with SSR disabled to prevent navigator errors
@@ -13,23 +15,23 @@ const ScreencastRecorder = dynamic(
 );
 
 
+type AnalysisRevision = RouterOutputs["video"]["listRevisions"]["revisions"][number];
+type AnalysisJobStatus = RouterOutputs["video"]["getAnalysisJob"]["status"];
+
 interface VideoAnalysisProps {
   videoId: string;
-  initialAnalysis?: string | null;
+  // Source video for the plan dry run; missing once the file is deleted
+  videoUrl?: string | null;
+  // Jumps the page's video player to a moment referenced by the analysis
+  onSeek?: (seconds: number) => void;
+  initialRevisions?: AnalysisRevision[];
+  initialCurrentRevisionId?: string | null;
+  initialAnalysisJobId?: string | null;
   initialGeneratedAt?: Date | null;
   initialSolved?: boolean | null;
   isOwner?: boolean;
-}
-
-interface ComputerUseStep {
-  action?: string;
-  coordinate?: { x: number; y: number };
-  [key: string]: unknown;
-}
-
-interface ComputerUsePlan {
-  steps?: ComputerUseStep[];
-  [key: string]: unknown;
+  // Grant of the share link the task was opened with, for people who only see it through one
+  shareGrant?: string | null;
 }
 
 const CodeBlock = ({
@@ -107,6 +109,46 @@ const CodeBlock = ({
 };
 
 import { updateTaskInCache } from "~/utils/cacheUtils";
+import { getRevisionChain } from "~/utils/revisions";
+import { AnalysisNotCachedError, streamAnalysis, type StreamedAnalysis } from "~/utils/streamAnalysis";
+import { computerUsePlanSchema, formatPlanErrors } from "~/utils/computerUsePlan";
+import { formatTimestamp, linkTimestamps, TIMESTAMP_LINK_PREFIX } from "~/utils/timestamps";
+import AnalysisHistory from "~/components/AnalysisHistory";
+import PlanRunLog from "~/components/PlanRunLog";
+import PlanDryRun from "~/components/PlanDryRun";
+
+const analysisJobStatusLabels: Record<AnalysisJobStatus, string> = {
+  queued: "Waiting to start...",
+  uploading: "Uploading video to Gemini...",
+  processing: "Processing video...",
+  generating: "Analyzing with AI...",
+  done: "Analysis complete",
+  failed: "Analysis failed",
+};
+
+// Posters of screencast updates are generated on the server and may be missing, e.g. for old updates
+const ScreencastThumbnail = ({
+  videoId,
+  revisionId,
+}: {
+  videoId: string;
+  revisionId: string;
+}) => {
+  const [hasError, setHasError] = useState(false);
+  if (hasError) return null;
+
+  return (
+    <Image
+      src={`/api/thumbnails/${videoId}/screencasts/${revisionId}.jpg`}
+      alt="Screencast update thumbnail"
+      width={240}
+      height={135}
+      className="mt-3 aspect-video w-60 rounded-md border border-gray-200 object-cover"
+      unoptimized
+      onError={() => setHasError(true)}
+    />
+  );
+};
 
 const Skeleton = ({ className }: { className?: string }) => (
   <div className={`animate-pulse rounded bg-gray-200 ${className ?? ""}`} />
@@ -164,41 +206,206 @@ const AnalysisSkeleton = () => (
   </div>
 );
 
+/** How analyses are rendered; timestamps linked with `linkTimestamps` seek with `onSeek`. */
+export const createMarkdownComponents = (onSeek?: (seconds: number) => void): Components => ({
+  pre: ({ children }) => <>{children}</>,
+  a: ({ node: _node, href, children, ...props }: { node?: unknown } & React.AnchorHTMLAttributes<HTMLAnchorElement>) =>
+    href?.startsWith(TIMESTAMP_LINK_PREFIX) ? (
+      <button
+        type="button"
+        onClick={() => onSeek?.(Number(href.slice(TIMESTAMP_LINK_PREFIX.length)))}
+        disabled={!onSeek}
+        className="rounded bg-gray-100 px-1.5 py-0.5 font-mono text-sm text-blue-700 hover:bg-blue-50 disabled:text-gray-500"
+      >
+        {children}
+      </button>
+    ) : (
+      <a href={href} {...props}>
+        {children}
+      </a>
+    ),
+  h1: ({ node: _node, ...props }) => (
+    <h1
+      className="text-2xl font-bold text-gray-900"
+      {...props}
+    />
+  ),
+  h2: ({ node: _node, ...props }) => (
+    <h2
+      className="text-xl font-semibold text-gray-800"
+      {...props}
+    />
+  ),
+  h3: ({ node: _node, ...props }) => (
+    <h3
+      className="text-lg font-semibold text-gray-800"
+      {...props}
+    />
+  ),
+  p: ({ node: _node, ...props }) => (
+    <p className="text-gray-700" {...props} />
+  ),
+  code: ({ node: _node, inline, className, children, ...props }: { node?: unknown; inline?: boolean; className?: string; children?: React.ReactNode } & Record<string, unknown>) =>
+    inline ? (
+      <code
+        className="rounded bg-gray-100 px-1.5 py-0.5 text-sm text-purple-700"
+        {...props}
+      >
+        {children}
+      </code>
+    ) : (
+      <CodeBlock className={className}>
+        {children}
+      </CodeBlock>
+    ),
+  ul: ({ node: _node, ...props }) => (
+    <ul className="list-disc space-y-1 pl-5" {...props} />
+  ),
+  ol: ({ node: _node, ...props }) => (
+    <ol className="list-decimal space-y-1 pl-5" {...props} />
+  ),
+  li: ({ node: _node, ...props }) => (
+    <li className="text-gray-700" {...props} />
+  ),
+  strong: ({ node: _node, ...props }) => (
+    <strong
+      className="font-semibold text-gray-900"
+      {...props}
+    />
+  ),
+  blockquote: ({ node: _node, ...props }) => (
+    <div className="my-4 rounded-r-lg border-l-4 border-custom-dark-orange bg-custom-dark-orange/10 p-4 shadow-sm">
+      <div className="italic text-gray-700" {...props} />
+    </div>
+  ),
+});
+
 export default function VideoAnalysis({
   videoId,
-  initialAnalysis,
+  videoUrl,
+  onSeek,
+  initialRevisions,
+  initialCurrentRevisionId,
+  initialAnalysisJobId,
   initialGeneratedAt,
   initialSolved,
   isOwner = false,
+  shareGrant,
 }: VideoAnalysisProps) {
-  const [isExpanded, setIsExpanded] = useState(!!initialAnalysis);
+  const [isExpanded, setIsExpanded] = useState(!!initialRevisions?.length);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [refineFromRevisionId, setRefineFromRevisionId] = useState<string | null>(null);
   const [refinementInput, setRefinementInput] = useState("");
   const [solved, setSolvedState] = useState<boolean | null>(initialSolved ?? null);
   const [isScreencastRecorderOpen, setIsScreencastRecorderOpen] = useState(false);
   const [screencastBlob, setScreencastBlob] = useState<Blob | null>(null);
-  const analyzeVideoMutation = api.video.analyzeVideo.useMutation();
-  const analyzeScreencastMutation = api.video.analyzeScreencastUpdate.useMutation();
-  const setSolvedMutation = api.video.setSolved.useMutation();
   const utils = api.useContext();
+  const markdownComponents = useMemo(() => createMarkdownComponents(onSeek), [onSeek]);
+  const { data: history } = api.video.listRevisions.useQuery(
+    { videoId, shareGrant },
+    {
+      initialData: {
+        revisions: initialRevisions ?? [],
+        currentRevisionId: initialCurrentRevisionId ?? null,
+      },
+      refetchOnWindowFocus: false,
+    }
+  );
+  const addRevision = ({ revision }: { revision: AnalysisRevision }) => {
+    utils.video.listRevisions.setData({ videoId }, (prev) => ({
+      revisions: [...(prev?.revisions ?? []), revision],
+      currentRevisionId: revision.id,
+    }));
+    setRefineFromRevisionId(null);
+  };
+  const [analysisJobId, setAnalysisJobId] = useState<string | null>(initialAnalysisJobId ?? null);
+  const [analysisJobError, setAnalysisJobError] = useState<string | null>(null);
+  const enqueueAnalysisMutation = api.video.analyzeVideo.useMutation({
+    onSuccess: ({ jobId }) => setAnalysisJobId(jobId),
+  });
+  const { data: analysisJob } = api.video.getAnalysisJob.useQuery(
+    { jobId: analysisJobId ?? "", shareGrant },
+    {
+      enabled: !!analysisJobId,
+      refetchInterval: 2000,
+      refetchOnWindowFocus: false,
+      onSuccess: (job) => {
+        if (job.status === "done" && job.revision) {
+          addRevision({ revision: job.revision });
+          setAnalysisJobId(null);
+          void utils.video.get.invalidate({ videoId });
+        } else if (job.status === "failed") {
+          setAnalysisJobError(job.error ?? "Failed to analyze video");
+          setAnalysisJobId(null);
+        }
+      },
+    }
+  );
+  const isAnalyzing = enqueueAnalysisMutation.isLoading || !!analysisJobId;
+  // Partial markdown of the refinement currently streaming in
+  const [streamingMarkdown, setStreamingMarkdown] = useState<string | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const refineAnalysisMutation = useMutation<
+    StreamedAnalysis,
+    Error,
+    RouterInputs["video"]["analyzeVideo"]
+  >({
+    mutationFn: (input) => {
+      streamAbortRef.current = new AbortController();
+      return streamAnalysis(input, {
+        onMarkdown: setStreamingMarkdown,
+        signal: streamAbortRef.current.signal,
+      });
+    },
+    onSuccess: addRevision,
+    onSettled: () => setStreamingMarkdown(null),
+  });
+  // Leaving the page ends the stream; the server keeps what has arrived so far
+  useEffect(() => () => streamAbortRef.current?.abort(), []);
+  const analyzeScreencastMutation = api.video.analyzeScreencastUpdate.useMutation({
+    onSuccess: addRevision,
+  });
+  const restoreRevisionMutation = api.video.restoreRevision.useMutation({
+    onSuccess: ({ currentRevisionId }) => {
+      utils.video.listRevisions.setData({ videoId }, (prev) =>
+        prev ? { ...prev, currentRevisionId } : prev
+      );
+      setRefineFromRevisionId(null);
+      void utils.video.get.invalidate({ videoId });
+    },
+  });
+  const setSolvedMutation = api.video.setSolved.useMutation();
   const { data: session } = useSession();
 
-  // Use saved analysis or mutation data (prioritize latest mutation result)
-  const analysis = analyzeScreencastMutation.data?.analysis ?? analyzeVideoMutation.data?.analysis ?? initialAnalysis;
+  const revisions = history.revisions;
+  const activeRevisions = useMemo(
+    () => getRevisionChain(history.revisions, history.currentRevisionId),
+    [history]
+  );
+  const refineFromRevision = revisions.find((r) => r.id === refineFromRevisionId);
+  const analysis = activeRevisions.length > 0;
   const generatedAt =
-    analyzeVideoMutation.data?.generatedAt ?? initialGeneratedAt;
+    activeRevisions[activeRevisions.length - 1]?.createdAt ?? initialGeneratedAt;
 
   const handleAnalyze = async () => {
     setIsExpanded(true);
-    await analyzeVideoMutation.mutateAsync({ videoId });
-    // Invalidate the video query to refresh the data
-    await utils.video.get.invalidate({ videoId });
+    setAnalysisJobError(null);
+    await enqueueAnalysisMutation.mutateAsync({ videoId });
   };
 
   const handleRefine = async () => {
     if (!refinementInput.trim()) return;
-    await analyzeVideoMutation.mutateAsync({
+    const input = {
       videoId,
-      refinementPrompt: refinementInput
+      refinementPrompt: refinementInput,
+      parentRevisionId: refineFromRevisionId ?? undefined,
+    };
+    await refineAnalysisMutation.mutateAsync(input).catch(async (error) => {
+      // Once the cached recording expired the refinement runs as a job, which uploads it again
+      if (!(error instanceof AnalysisNotCachedError)) throw error;
+      refineAnalysisMutation.reset();
+      setAnalysisJobError(null);
+      await enqueueAnalysisMutation.mutateAsync(input);
     });
     setRefinementInput("");
     await utils.video.get.invalidate({ videoId });
@@ -230,6 +437,7 @@ export default function VideoAnalysis({
           videoId,
           videoBlob: base64Video,
           refinementPrompt: refinementInput.length > 0 ? refinementInput : undefined,
+          parentRevisionId: refineFromRevisionId ?? undefined,
         });
 
         setRefinementInput("");
@@ -269,8 +477,8 @@ export default function VideoAnalysis({
     if (
       router.query.analyze === "true" &&
       !analysis &&
-      !analyzeVideoMutation.isLoading &&
-      !analyzeVideoMutation.data
+      !isAnalyzing &&
+      !enqueueAnalysisMutation.data
     ) {
       void handleAnalyze();
       // Remove the query param to prevent re-triggering
@@ -286,83 +494,46 @@ export default function VideoAnalysis({
       );
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [router.query.analyze, analysis, analyzeVideoMutation.isLoading, analyzeVideoMutation.data]);
-
-  const { displayAnalysis, computerUsePlan } = useMemo(() => {
-    if (!analysis) return { displayAnalysis: "", computerUsePlan: null as ComputerUsePlan | null };
-
-    // Handle split with various separator formats
-    let mainBody = analysis;
-    let planString = "";
-
-    const separators = ["---COMPUTER_USE_PLAN---", "---COMPUTER_USE_PLAN", "Section 2: Computer Use Instructions (JSON)"];
-    for (const sep of separators) {
-      if (analysis.includes(sep)) {
-        const parts = analysis.split(sep);
-        mainBody = parts[0] ?? "";
-        planString = parts[1] ?? "";
-        break;
-      }
-    }
+  }, [router.query.analyze, analysis, isAnalyzing, enqueueAnalysisMutation.data]);
 
-    // Clean up markers from the main body
-    const markersToStrip = [
-      /^---ANALYSIS_START---/i,
-      /^---/i,
-      /^[[:punct:]]/i,
-      /^---ANALYSIS_START/i,
-      /^---ANALYSIS_END---/i,
-      /---ANALYSIS_END/i,
-      /^TITLE:.*\n?/i,
-      /Section 1: User Analysis \(Markdown\)/i,
-      /Section 2: Computer Use Instructions \(JSON\)/i,
-    ];
-
-    let cleanedBody = mainBody;
-    for (const marker of markersToStrip) {
-      cleanedBody = cleanedBody.replace(marker, "").trim();
+  const { computerUsePlan, planErrors } = useMemo(() => {
+    const latestErrors = activeRevisions[activeRevisions.length - 1]?.planErrors ?? [];
+    // Refinements without a plan keep the previous one
+    for (let i = activeRevisions.length - 1; i >= 0; i--) {
+      const plan = activeRevisions[i]?.plan;
+      if (!plan) continue;
+      // Plans saved before they were validated on the server may not match the schema
+      const result = computerUsePlanSchema.safeParse(plan);
+      return result.success
+        ? { computerUsePlan: result.data, planErrors: latestErrors }
+        : { computerUsePlan: null, planErrors: [...latestErrors, ...formatPlanErrors(result.error)] };
     }
+    return { computerUsePlan: null, planErrors: latestErrors };
+  }, [activeRevisions]);
 
-    let plan: ComputerUsePlan | null = null;
-    if (planString) {
-      try {
-        let cleaned = planString.trim();
-        // Remove markdown code fences if present
-        if (cleaned.startsWith("```")) {
-          cleaned = cleaned.replace(/^```(?:json)?\n?/, "").replace(/\n?```$/, "");
-        }
-
-        // Extremely robust: find the first { and last }
-        const firstBrace = cleaned.indexOf("{");
-        const lastBrace = cleaned.lastIndexOf("}");
-        if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-          cleaned = cleaned.substring(firstBrace, lastBrace + 1);
-        }
-
-        plan = JSON.parse(cleaned.trim()) as ComputerUsePlan;
-      } catch (e) {
-        console.error("Failed to parse computer use plan", e);
-      }
+  const [isDryRunOpen, setIsDryRunOpen] = useState(false);
+  const [planStartUrl, setPlanStartUrl] = useState("");
+  const [planRunId, setPlanRunId] = useState<string | null>(null);
+  const runPlanMutation = api.video.runPlan.useMutation({
+    onSuccess: (run) => setPlanRunId(run.id),
+  });
+  // Runs happen in the plan worker, so the run is polled until it finished
+  const { data: planRun } = api.video.getPlanRun.useQuery(
+    { runId: planRunId ?? "" },
+    {
+      enabled: !!planRunId,
+      refetchInterval: (run) => (run?.finishedAt ? false : 2000),
+      refetchOnWindowFocus: false,
     }
-    return { displayAnalysis: cleanedBody, computerUsePlan: plan };
-  }, [analysis]);
-
-  const [isAutomating, setIsAutomating] = useState(false);
+  );
+  const isPlanRunning = runPlanMutation.isLoading || (!!planRunId && !planRun?.finishedAt);
 
-  const handleImplementAutomation = async () => {
+  const handleRunPlan = () => {
     if (!computerUsePlan) return;
-    setIsAutomating(true);
-    try {
-      // Simulation of passing to Computer Use Agent
-      console.log("Executing Computer Use Plan:", computerUsePlan);
-      await new Promise((resolve) => setTimeout(resolve, 1500)); // Simulate delay
-      alert("Automation instructions have been generated and passed to the Computer Use Agent runtime.");
-    } catch (error) {
-      console.error("Automation error:", error);
-      alert("Failed to start automation.");
-    } finally {
-      setIsAutomating(false);
-    }
+    runPlanMutation.mutate({
+      videoId,
+      startUrl: planStartUrl.trim() || undefined,
+    });
   };
 
   const formatDate = (date: Date | null | undefined) => {
@@ -381,7 +552,8 @@ export default function VideoAnalysis({
       {!analysis ? (
         <button
           onClick={() => void handleAnalyze()}
-          disabled={analyzeVideoMutation.isLoading}
+          // Analyzing writes a revision, which takes edit access
+          disabled={isAnalyzing || !isOwner}
           className="flex w-full items-center justify-between rounded-lg bg-gradient-to-r from-black to-gray-600 px-6 py-4 text-left text-white transition-all hover:from-gray-600 hover:to-black disabled:opacity-50"
         >
           <div className="flex items-center gap-3">
@@ -400,8 +572,8 @@ export default function VideoAnalysis({
             </svg>
             <div>
               <h3 className="text-lg font-semibold">
-                {analyzeVideoMutation.isLoading
-                  ? "Analyzing with AI..."
+                {isAnalyzing
+                  ? analysisJobStatusLabels[analysisJob?.status ?? "queued"]
                   : isOwner ? "Get AI Automation Suggestions" : "AI Automation Analysis"}
               </h3>
               <p className="text-sm text-purple-100">
@@ -409,7 +581,7 @@ export default function VideoAnalysis({
               </p>
             </div>
           </div>
-          {analyzeVideoMutation.isLoading && (
+          {isAnalyzing && (
             <svg
               className="h-5 w-5 animate-spin"
               xmlns="http://www.w3.org/2000/svg"
@@ -454,17 +626,28 @@ export default function VideoAnalysis({
               <h3 className="text-lg font-semibold">
                 {analyzeScreencastMutation.isLoading
                   ? "Analyzing Screencast..."
-                  : analyzeVideoMutation.isLoading
+                  : refineAnalysisMutation.isLoading || isAnalyzing
                     ? "Analyzing with AI..."
                     : "AI Automation Analysis"}
               </h3>
               <p className="text-sm text-white" suppressHydrationWarning>
-                {analyzeScreencastMutation.isLoading || analyzeVideoMutation.isLoading
+                {analyzeScreencastMutation.isLoading || refineAnalysisMutation.isLoading || isAnalyzing
                   ? "This may take a minute..."
                   : "Generated " + formatDate(generatedAt)}
               </p>
             </div>
           </div>
+          {revisions.length > 1 && (
+            <button
+              onClick={() => {
+                setIsExpanded(true);
+                setIsHistoryOpen(!isHistoryOpen);
+              }}
+              className="rounded-md border border-white/40 px-3 py-1.5 text-sm font-medium text-white hover:bg-white/10"
+            >
+              {isHistoryOpen ? "Hide history" : `History (${revisions.length})`}
+            </button>
+          )}
         </div>
       )}
 
@@ -531,8 +714,23 @@ export default function VideoAnalysis({
 
       {isExpanded && (
         <div className="border-t border-gray-200 p-6">
-          {analyzeVideoMutation.isLoading && !analyzeVideoMutation.variables?.refinementPrompt && (
-            <AnalysisSkeleton />
+          {isAnalyzing && (
+            analysisJob?.partialMarkdown ? (
+              <div className="prose prose-sm max-w-none">
+                <ReactMarkdown components={markdownComponents}>
+                  {linkTimestamps(analysisJob.partialMarkdown)}
+                </ReactMarkdown>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-gray-500">
+                  {analysisJobStatusLabels[analysisJob?.status ?? "queued"]}
+                  {analysisJob && analysisJob.attempts > 1 &&
+                    ` (attempt ${analysisJob.attempts} of ${analysisJob.maxAttempts})`}
+                </p>
+                <AnalysisSkeleton />
+              </>
+            )
           )}
 
           {analyzeScreencastMutation.isLoading && (
@@ -550,11 +748,13 @@ export default function VideoAnalysis({
             </div>
           )}
 
-          {analyzeVideoMutation.error && (
+          {(enqueueAnalysisMutation.error ?? refineAnalysisMutation.error ?? analysisJobError) && (
             <div className="rounded-lg bg-red-50 p-4 text-red-800">
               <h4 className="font-semibold">Error analyzing video</h4>
               <p className="mt-1 text-sm">
-                {analyzeVideoMutation.error.message}
+                {enqueueAnalysisMutation.error?.message ??
+                  refineAnalysisMutation.error?.message ??
+                  analysisJobError}
               </p>
             </div>
           )}
@@ -573,22 +773,60 @@ export default function VideoAnalysis({
             </div>
           )}
 
-          {analysis && (!analyzeVideoMutation.isLoading || analyzeVideoMutation.variables?.refinementPrompt) && (
+          {analysis && !isAnalyzing && (
             <>
+              {isHistoryOpen && (
+                <AnalysisHistory
+                  videoId={videoId}
+                  revisions={revisions}
+                  currentRevisionId={history.currentRevisionId}
+                  isOwner={isOwner}
+                  shareGrant={shareGrant}
+                  isRestoring={restoreRevisionMutation.isLoading}
+                  onRestore={(revisionId) =>
+                    restoreRevisionMutation.mutate({ videoId, revisionId })
+                  }
+                  onRefineFrom={setRefineFromRevisionId}
+                />
+              )}
+              {planErrors.length > 0 && (
+                <div className="mb-6 rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-yellow-900">
+                  <h3 className="text-md font-bold">Computer use plan failed validation</h3>
+                  <p className="text-sm">
+                    {computerUsePlan
+                      ? "The latest response's plan couldn't be used, so the plan from an earlier version is shown."
+                      : "The plan couldn't be used even after asking the model to fix it. Try refining the analysis."}
+                  </p>
+                  <ul className="mt-2 list-disc pl-5 font-mono text-xs">
+                    {planErrors.map((error, i) => (
+                      <li key={i}>{error}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
               {computerUsePlan && (
                 <div className="mb-6 rounded-lg bg-gray-50 p-4 border border-gray-200">
                   <div className="flex items-center justify-between">
                     <div>
-                      <h3 className="text-md font-bold text-gray-900">Implementation Coming Soon to Pro Plans!</h3>
-                      <p className="text-sm text-gray-700">Detailed instructions generated for Computer Use Model ({computerUsePlan.steps?.length || 0} steps).</p>
+                      <h3 className="text-md font-bold text-gray-900">Computer Use Plan</h3>
+                      <p className="text-sm text-gray-700">Detailed instructions generated for Computer Use Model ({computerUsePlan.steps.length} steps).</p>
                     </div>
+                    <div className="flex items-center gap-2">
+                    {videoUrl && (
+                      <button
+                        onClick={() => setIsDryRunOpen((open) => !open)}
+                        className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-semibold text-gray-900 shadow-sm hover:bg-gray-50"
+                      >
+                        {isDryRunOpen ? "Close Dry Run" : "Dry Run"}
+                      </button>
+                    )}
                     <button
-                      onClick={() => void handleImplementAutomation()}
-                      // disabled={isAutomating}
-                      disabled={true}
+                      onClick={handleRunPlan}
+                      disabled={!isOwner || isPlanRunning}
+                      title={isOwner ? "Replay the plan in a headless browser" : "Only the task owner can run the plan"}
                       className="flex items-center gap-2 rounded-md bg-black px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 disabled:opacity-50"
                     >
-                      {isAutomating ? (
+                      {isPlanRunning ? (
                         <>
                           <svg className="h-4 w-4 animate-spin text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -602,80 +840,128 @@ export default function VideoAnalysis({
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                           </svg>
-                          <span>Implement Automation</span>
+                          <span>Run Plan</span>
                         </>
                       )}
                     </button>
+                    </div>
                   </div>
+                  <ol className="mt-3 list-decimal space-y-1 pl-5 text-sm text-gray-700">
+                    {computerUsePlan.steps.map((step, index) => (
+                      <li key={index}>
+                        {step.timestamp !== undefined && (
+                          <button
+                            type="button"
+                            onClick={() => onSeek?.(step.timestamp ?? 0)}
+                            disabled={!onSeek}
+                            className="mr-2 rounded bg-gray-100 px-1.5 py-0.5 font-mono text-xs text-blue-700 hover:bg-blue-50 disabled:text-gray-500"
+                          >
+                            {formatTimestamp(step.timestamp)}
+                          </button>
+                        )}
+                        {step.description}
+                      </li>
+                    ))}
+                  </ol>
+                  {isOwner && (
+                    <input
+                      type="url"
+                      value={planStartUrl}
+                      onChange={(e) => setPlanStartUrl(e.target.value)}
+                      placeholder={computerUsePlan.start_url ?? "Start URL, e.g. https://example.com/login"}
+                      className="mt-3 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-black focus:ring-black"
+                    />
+                  )}
+                  {runPlanMutation.error && (
+                    <p className="mt-3 text-sm text-red-700">{runPlanMutation.error.message}</p>
+                  )}
+                  {isDryRunOpen && videoUrl && (
+                    <PlanDryRun
+                      videoId={videoId}
+                      videoUrl={videoUrl}
+                      plan={computerUsePlan}
+                      canEdit={isOwner}
+                      onSaved={({ revision }) => {
+                        addRevision({ revision });
+                        void utils.video.get.invalidate({ videoId });
+                      }}
+                    />
+                  )}
+                  {planRun && <PlanRunLog run={planRun} />}
+                </div>
+              )}
+              {activeRevisions.map((revision, index) => revision.kind === "plan_edit" ? (
+                <p key={revision.id} className="mt-6 text-sm text-gray-500" suppressHydrationWarning>
+                  ✏️ Plan edited ({formatDate(revision.createdAt)})
+                </p>
+              ) : (
+                <div key={revision.id}>
+                  {(index > 0 || revision.kind !== "initial") && (
+                    <div className="mt-8 border-t border-gray-200 pt-6">
+                      {revision.prompt && (
+                        <div className="my-4 rounded-r-lg border-l-4 border-custom-dark-orange bg-custom-dark-orange/10 p-4 shadow-sm">
+                          <p className="text-sm font-semibold text-gray-900">User Refinement</p>
+                          <p className="whitespace-pre-wrap italic text-gray-700">{revision.prompt}</p>
+                        </div>
+                      )}
+                      <h3 className="text-lg font-semibold text-gray-800" suppressHydrationWarning>
+                        {revision.kind === "screencast" ? "🎥 Screencast Update" : "Refined Analysis"} ({formatDate(revision.createdAt)})
+                      </h3>
+                      {revision.kind === "screencast" && (
+                        <ScreencastThumbnail videoId={videoId} revisionId={revision.id} />
+                      )}
+                    </div>
+                  )}
+                  {revision.incomplete && (
+                    <p className="my-3 rounded-lg bg-yellow-50 p-3 text-sm text-yellow-800">
+                      The connection was lost while this analysis was generating, so it may be incomplete.
+                    </p>
+                  )}
+                  <div className="prose prose-sm max-w-none">
+                    <ReactMarkdown components={markdownComponents}>
+                      {linkTimestamps(revision.markdown)}
+                    </ReactMarkdown>
+                  </div>
+                </div>
+              ))}
+
+              {refineAnalysisMutation.isLoading && refineAnalysisMutation.variables?.refinementPrompt && (
+                <div className="mt-8 border-t border-gray-200 pt-6">
+                  <div className="my-4 rounded-r-lg border-l-4 border-custom-dark-orange bg-custom-dark-orange/10 p-4 shadow-sm">
+                    <p className="text-sm font-semibold text-gray-900">User Refinement</p>
+                    <p className="whitespace-pre-wrap italic text-gray-700">
+                      {refineAnalysisMutation.variables.refinementPrompt}
+                    </p>
+                  </div>
+                  <h3 className="text-lg font-semibold text-gray-800">Refining Analysis...</h3>
+                  {streamingMarkdown ? (
+                    <div className="prose prose-sm max-w-none">
+                      <ReactMarkdown components={markdownComponents}>
+                        {linkTimestamps(streamingMarkdown)}
+                      </ReactMarkdown>
+                    </div>
+                  ) : (
+                    <AnalysisSkeleton />
+                  )}
                 </div>
               )}
-              <div className="prose prose-sm max-w-none">
-                <ReactMarkdown
-                  components={{
-                    pre: ({ children }) => <>{children}</>,
-                    h1: ({ node: _node, ...props }) => (
-                      <h1
-                        className="text-2xl font-bold text-gray-900"
-                        {...props}
-                      />
-                    ),
-                    h2: ({ node: _node, ...props }) => (
-                      <h2
-                        className="text-xl font-semibold text-gray-800"
-                        {...props}
-                      />
-                    ),
-                    h3: ({ node: _node, ...props }) => (
-                      <h3
-                        className="text-lg font-semibold text-gray-800"
-                        {...props}
-                      />
-                    ),
-                    p: ({ node: _node, ...props }) => (
-                      <p className="text-gray-700" {...props} />
-                    ),
-                    code: ({ node: _node, inline, className, children, ...props }: { node?: unknown; inline?: boolean; className?: string; children?: React.ReactNode } & Record<string, unknown>) =>
-                      inline ? (
-                        <code
-                          className="rounded bg-gray-100 px-1.5 py-0.5 text-sm text-purple-700"
-                          {...props}
-                        >
-                          {children}
-                        </code>
-                      ) : (
-                        <CodeBlock className={className}>
-                          {children}
-                        </CodeBlock>
-                      ),
-                    ul: ({ node: _node, ...props }) => (
-                      <ul className="list-disc space-y-1 pl-5" {...props} />
-                    ),
-                    ol: ({ node: _node, ...props }) => (
-                      <ol className="list-decimal space-y-1 pl-5" {...props} />
-                    ),
-                    li: ({ node: _node, ...props }) => (
-                      <li className="text-gray-700" {...props} />
-                    ),
-                    strong: ({ node: _node, ...props }) => (
-                      <strong
-                        className="font-semibold text-gray-900"
-                        {...props}
-                      />
-                    ),
-                    blockquote: ({ node: _node, ...props }) => (
-                      <div className="my-4 rounded-r-lg border-l-4 border-custom-dark-orange bg-custom-dark-orange/10 p-4 shadow-sm">
-                        <div className="italic text-gray-700" {...props} />
-                      </div>
-                    ),
-                  }}
-                >
-                  {displayAnalysis}
-                </ReactMarkdown>
-              </div>
 
               {/* Refinement Input */}
               <div className="mt-8 border-t border-gray-200 pt-6">
                 <h2 className="mb-3 text-lg font-medium text-gray-900">Refine Analysis</h2>
+                {refineFromRevision && (
+                  <div className="mb-3 flex items-center justify-between rounded-lg border border-custom-dark-orange/40 bg-custom-dark-orange/10 p-3 text-sm text-gray-800">
+                    <span suppressHydrationWarning>
+                      Refining from the version of {formatDate(refineFromRevision.createdAt)}. This starts a new branch; the current analysis stays in history.
+                    </span>
+                    <button
+                      onClick={() => setRefineFromRevisionId(null)}
+                      className="ml-3 text-xs font-medium text-gray-500 hover:text-black"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
                 <div className="flex gap-3">
                   <textarea
                     value={refinementInput}
@@ -688,7 +974,7 @@ export default function VideoAnalysis({
                     }}
                     placeholder={isOwner ? "Ask a follow-up question or request changes (e.g., 'Focus on the API calls', 'Convert code to Python')" : "Copy this task to ask follow-up questions..."}
                     className="flex-1 min-h-[120px] rounded-lg p-4 border-2 border-black shadow-sm focus:border-black focus:ring-black focus:ring-offset-2 sm:text-sm disabled:bg-gray-50 disabled:border-gray-300 disabled:cursor-not-allowed"
-                    disabled={!isOwner || analyzeVideoMutation.isLoading}
+                    disabled={!isOwner || refineAnalysisMutation.isLoading}
                   />
                 </div>
                 <div className="flex gap-3">
@@ -717,11 +1003,11 @@ export default function VideoAnalysis({
                   ) : (
                     <button
                       onClick={() => void handleRefine()}
-                      disabled={!isOwner || analyzeVideoMutation.isLoading || !refinementInput.trim()}
+                      disabled={!isOwner || refineAnalysisMutation.isLoading || !refinementInput.trim()}
                       className="inline-flex items-center rounded-lg mt-3 bg-black px-4 py-2 text-md font-medium text-white hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-black focus:ring-offset-2 disabled:opacity-50"
                       title={isOwner ? "" : "Only the task owner can refine analysis"}
                     >
-                      {analyzeVideoMutation.isLoading ? (
+                      {refineAnalysisMutation.isLoading ? (
                         <svg className="h-5 w-5 animate-spin text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                           <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                           <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
@@ -732,7 +1018,7 @@ export default function VideoAnalysis({
                         </svg>
                       )}
                       <span className="ml-2">
-                        {analyzeVideoMutation.isLoading && analyzeVideoMutation.variables?.refinementPrompt
+                        {refineAnalysisMutation.isLoading
                           ? "Refining..."
                           : "Refine"}
                       </span>
@@ -740,7 +1026,7 @@ export default function VideoAnalysis({
                   )}
                   <button
                     onClick={() => setIsScreencastRecorderOpen(true)}
-                    disabled={!isOwner || analyzeVideoMutation.isLoading || analyzeScreencastMutation.isLoading}
+                    disabled={!isOwner || refineAnalysisMutation.isLoading || analyzeScreencastMutation.isLoading}
                     className="inline-flex items-center rounded-lg mt-3 bg-white border-2 border-black px-4 py-2 text-md font-medium text-black hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-black focus:ring-offset-2 disabled:opacity-50"
                     title={isOwner ? "Record a new screencast for additional context" : "Only the task owner can refine analysis"}
                   >
@@ -762,7 +1048,7 @@ export default function VideoAnalysis({
                   {/* <div className="mt-4 flex justify-center">
                     <button
                       onClick={() => void handleAnalyze()}
-                      disabled={analyzeVideoMutation.isLoading}
+                      disabled={isAnalyzing}
                       className="text-sm text-gray-500 hover:text-black hover:underline"
                     >
                       Regenerate completely
@@ -1,19 +1,96 @@
+import { EyeOpenIcon } from "@radix-ui/react-icons";
 import Link from "next/link";
 import Image from "next/image";
 import { useState } from "react";
+import { getTagColorClass } from "~/utils/tags";
 
 export interface VideoCardProps {
   title: string;
   id: string;
   thumbnailUrl: string;
+  // Short clip played while hovering, once the video has been processed
+  previewUrl?: string | null;
   createdAt: Date;
   fileDeletedAt?: Date | null;
+  tags?: TagChipsProps["tags"];
+  // Unique viewers of the task
+  views?: number;
   author?: {
     name: string | null;
     image: string | null;
   };
 }
 
+/** Plays the hover preview clip over a card's thumbnail. */
+export const VideoHoverPreview = ({
+  previewUrl,
+  active,
+}: {
+  previewUrl?: string | null;
+  active: boolean;
+}) => {
+  if (!previewUrl || !active) return null;
+
+  return (
+    <video
+      src={previewUrl}
+      className="absolute inset-0 h-full w-full object-cover"
+      autoPlay
+      muted
+      loop
+      playsInline
+    />
+  );
+};
+
+interface TagChipsProps {
+  tags: { id: string; name: string; color: string }[];
+  // Called with the clicked tag, e.g. to filter by it; chips are plain labels without it
+  onSelect?: (tagId: string) => void;
+}
+
+/** A task's tags as small colored chips. */
+export const TagChips = ({ tags, onSelect }: TagChipsProps) => {
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="mt-1 flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <span
+          key={tag.id}
+          onClick={
+            onSelect
+              ? (e) => {
+                  // Chips sit inside the card's link
+                  e.preventDefault();
+                  e.stopPropagation();
+                  onSelect(tag.id);
+                }
+              : undefined
+          }
+          className={`max-w-[120px] truncate rounded-full px-2 py-0.5 text-[10px] font-medium ${getTagColorClass(
+            tag.color
+          )} ${onSelect ? "cursor-pointer hover:opacity-80" : ""}`}
+        >
+          {tag.name}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+/** How many people watched a task, e.g. "3 viewers". */
+export const ViewCount = ({ views }: { views?: number }) => {
+  if (!views) return null;
+
+  return (
+    <span className="flex items-center gap-1" title="Unique viewers">
+      <EyeOpenIcon />
+      {views} {views === 1 ? "viewer" : "viewers"}
+    </span>
+  );
+};
+
 export const VideoCardSkeleton = () => {
   return (
     <div className="h-[320px] w-[280px] animate-pulse overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm">
@@ -34,14 +111,22 @@ export const VideoCard = ({
   id,
   createdAt,
   thumbnailUrl,
+  previewUrl,
   fileDeletedAt,
+  tags,
+  views,
   author,
 }: VideoCardProps) => {
   const [imgError, setImgError] = useState(!!fileDeletedAt);
+  const [isHovering, setIsHovering] = useState(false);
 
   return (
     <Link href={`/task/${id}`}>
-      <div className="group h-[320px] w-[280px] cursor-pointer overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm transition-all duration-300 hover:shadow-xl hover:-translate-y-1 hover:border-custom-dark-orange/50">
+      <div
+        onMouseEnter={() => setIsHovering(true)}
+        onMouseLeave={() => setIsHovering(false)}
+        className="group h-[320px] w-[280px] cursor-pointer overflow-hidden rounded-xl border border-gray-200 bg-white shadow-sm transition-all duration-300 hover:shadow-xl hover:-translate-y-1 hover:border-custom-dark-orange/50"
+      >
         <figure className="relative aspect-video w-full overflow-hidden bg-gray-100">
           {!imgError && !fileDeletedAt ? (
             <Image
@@ -76,6 +161,9 @@ export const VideoCard = ({
               )}
             </div>
           )}
+          {!fileDeletedAt && (
+            <VideoHoverPreview previewUrl={previewUrl} active={isHovering} />
+          )}
           <div className="absolute inset-0 bg-gradient-to-t from-black/40 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-end p-3">
             <span className="text-white text-xs font-medium bg-custom-dark-orange px-2 py-1 rounded">View Example</span>
           </div>
@@ -85,8 +173,10 @@ export const VideoCard = ({
             <h3 className="line-clamp-2 text-base font-bold text-gray-900 group-hover:text-custom-dark-orange transition-colors">
               {title}
             </h3>
-            <p className="mt-1 text-[10px] text-gray-400">
+            {tags && <TagChips tags={tags} />}
+            <p className="mt-1 flex items-center gap-2 text-[10px] text-gray-400">
               {createdAt.toLocaleDateString()}
+              <ViewCount views={views} />
             </p>
           </div>
 
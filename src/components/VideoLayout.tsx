@@ -1,18 +1,40 @@
 import * as Tooltip from "@radix-ui/react-tooltip";
-import { Gesture, useMediaState } from "@vidstack/react";
+import {
+  Captions,
+  Gesture,
+  useMediaRemote,
+  useMediaState,
+} from "@vidstack/react";
 import { useState, useEffect, useRef, useCallback } from "react";
 
 import * as Buttons from "./buttons";
 import * as Sliders from "./sliders";
 import { TimeGroup } from "./time-group";
+import { type ReactionEmoji } from "~/utils/viewerAnalytics";
 
 const popupOffset = 30;
 
+/** A point on the timeline, e.g. a timestamped comment or a reaction. */
+export interface TimelineMarker {
+  id: string;
+  time: number;
+  label: string;
+  // Shown instead of a dot
+  emoji?: string;
+}
+
 export interface VideoLayoutProps {
   thumbnails?: string;
+  markers?: TimelineMarker[];
+  // Shows the reaction button; called with the picked emoji and the playback position
+  onReact?: (emoji: ReactionEmoji, time: number) => void;
 }
 
-export function VideoLayout({ thumbnails }: VideoLayoutProps) {
+export function VideoLayout({
+  thumbnails,
+  markers,
+  onReact,
+}: VideoLayoutProps) {
   const paused = useMediaState('paused');
   const [isIdle, setIsIdle] = useState(false);
   const timeoutRef = useRef<ReturnType<typeof setTimeout>>();
@@ -41,6 +63,7 @@ export function VideoLayout({ thumbnails }: VideoLayoutProps) {
   return (
     <div className="vds-video-layout absolute inset-0 z-10 touch-manipulation pointer-events-none">
       <Gestures />
+      <Captions className="media-preview:opacity-0 media-controls:bottom-[85px] media-captions:opacity-100 absolute inset-0 bottom-2 z-10 select-none break-words opacity-0 transition-[opacity,bottom] duration-300" />
       <div
         className={`absolute inset-0 z-10 flex h-full w-full flex-col bg-gradient-to-t from-black/10 to-transparent transition-opacity duration-300 pointer-events-none ${showControls ? 'opacity-100' : 'opacity-0'
           }`}
@@ -48,11 +71,12 @@ export function VideoLayout({ thumbnails }: VideoLayoutProps) {
         <Tooltip.Provider>
           <div className="flex-1" />
           <div
-            className={`flex w-full items-center px-2 ${showControls ? 'pointer-events-auto' : 'pointer-events-none'}`}
+            className={`relative flex w-full items-center px-2 ${showControls ? 'pointer-events-auto' : 'pointer-events-none'}`}
             onPointerMove={resetIdleTimer}
             onPointerDown={resetIdleTimer}
           >
             <Sliders.Time thumbnails={thumbnails} />
+            {markers?.length ? <Markers markers={markers} /> : null}
           </div>
           <div
             className={`-mt-0.5 flex w-full items-center px-2 pb-2 ${showControls ? 'pointer-events-auto' : 'pointer-events-none'}`}
@@ -64,6 +88,13 @@ export function VideoLayout({ thumbnails }: VideoLayoutProps) {
             <Sliders.Volume />
             <TimeGroup />
             <div className="flex-1" />
+            {onReact && (
+              <Buttons.Reaction
+                onReact={onReact}
+                tooltipOffset={popupOffset}
+              />
+            )}
+            <Buttons.Caption tooltipOffset={popupOffset} />
             <Buttons.PIP tooltipOffset={popupOffset} />
             <Buttons.Fullscreen tooltipAlign="end" tooltipOffset={popupOffset} />
           </div>
@@ -74,6 +105,41 @@ export function VideoLayout({ thumbnails }: VideoLayoutProps) {
   );
 }
 
+// Dots (or emojis) above the time slider that seek to their marker when clicked
+function Markers({ markers }: { markers: TimelineMarker[] }) {
+  const duration = useMediaState('duration');
+  const remote = useMediaRemote();
+
+  if (!duration || !Number.isFinite(duration)) return null;
+
+  return (
+    <div className="pointer-events-none absolute inset-x-2 top-1/2">
+      {markers
+        .filter((marker) => marker.time <= duration)
+        .map((marker) => (
+          <button
+            key={marker.id}
+            title={marker.label}
+            aria-label={marker.label}
+            onClick={(e) => {
+              e.stopPropagation();
+              remote.seek(marker.time);
+            }}
+            onPointerDown={(e) => e.stopPropagation()}
+            style={{ left: `${(marker.time / duration) * 100}%` }}
+            className={
+              marker.emoji
+                ? "pointer-events-auto absolute -translate-x-1/2 -translate-y-[30px] text-sm leading-none transition-transform hover:scale-125"
+                : "pointer-events-auto absolute h-2.5 w-2.5 -translate-x-1/2 -translate-y-[14px] rounded-full bg-custom-dark-orange ring-2 ring-white transition-transform hover:scale-125"
+            }
+          >
+            {marker.emoji}
+          </button>
+        ))}
+    </div>
+  );
+}
+
 function Gestures() {
   return (
     <>
@@ -2,6 +2,7 @@ import { api, type RouterOutputs } from "~/utils/api";
 import { Dialog, Menu, Transition, MenuButton, DialogPanel, TransitionChild, MenuItems, MenuItem } from "@headlessui/react";
 import { Fragment, useState } from "react";
 import {
+  CodeIcon,
   DownloadIcon,
   Pencil1Icon,
   TrashIcon,
@@ -12,6 +13,12 @@ import { usePostHog } from "posthog-js/react";
 import { useSession } from "next-auth/react";
 
 import { removeTaskFromCache, updateTaskInCache } from "~/utils/cacheUtils";
+import { getRevisionChain } from "~/utils/revisions";
+import {
+  planExportTargetLabels,
+  planExportTargets,
+  type PlanExportTarget,
+} from "~/utils/planExport";
 
 interface Props {
   video: RouterOutputs["video"]["get"];
@@ -26,6 +33,27 @@ export default function VideoMoreMenu({ video }: Props) {
   const posthog = usePostHog();
   const { data: session } = useSession();
 
+  const hasPlan = getRevisionChain(video.analysisRevisions, video.currentRevisionId).some(
+    (revision) => !!revision.plan
+  );
+
+  const downloadPlan = async (target: PlanExportTarget) => {
+    try {
+      const { filename, mimeType, content } = await utils.video.exportPlan.fetch({
+        videoId: video.id,
+        target,
+      });
+      const url = window.URL.createObjectURL(new Blob([content], { type: mimeType }));
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
   const items = [
     {
       name: "Rename",
@@ -57,6 +85,17 @@ export default function VideoMoreMenu({ video }: Props) {
         },
       },
     },
+    ...(hasPlan
+      ? planExportTargets.map((target) => ({
+          name: planExportTargetLabels[target],
+          icon: <CodeIcon />,
+          props: {
+            onClick: () => {
+              void downloadPlan(target);
+            },
+          },
+        }))
+      : []),
     {
       name: "Delete",
       icon: <TrashIcon />,
@@ -87,6 +126,7 @@ export default function VideoMoreMenu({ video }: Props) {
     },
     onSettled: () => {
       void utils.video.getAll.invalidate();
+      void utils.video.search.invalidate();
       void router.push("/tasks");
     },
   });
@@ -103,6 +143,7 @@ export default function VideoMoreMenu({ video }: Props) {
     },
     onSuccess: () => {
       void utils.video.getAll.invalidate();
+      void utils.video.search.invalidate();
     },
     onError: (err, { videoId }, context) => {
       if (context?.previousValue) {
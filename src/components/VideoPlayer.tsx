@@ -8,6 +8,7 @@ import {
   MediaPlayer,
   MediaProvider,
   Poster,
+  Track,
   type MediaCanPlayDetail,
   type MediaCanPlayEvent,
   type MediaPlayerInstance,
@@ -15,16 +16,41 @@ import {
   type MediaProviderChangeEvent,
 } from "@vidstack/react";
 
-import { VideoLayout } from "./VideoLayout";
+import { type RouterOutputs } from "~/utils/api";
+import { type ReactionEmoji } from "~/utils/viewerAnalytics";
+import { VideoLayout, type TimelineMarker } from "./VideoLayout";
 
 interface Props {
   video_url: string;
+  // Transcoded sources from `video.get`, best first; without them `video_url` is played as WebM
+  sources?: RouterOutputs["video"]["get"]["sources"];
   thumbnailUrl?: string;
+  // WebVTT storyboard track for previews while scrubbing
+  storyboardUrl?: string | null;
+  // WebVTT captions generated from the recording's transcript
+  captionsUrl?: string | null;
   className?: string;
+  // Lets the page control playback, e.g. to seek to a timestamp in the analysis
+  playerRef?: React.RefObject<MediaPlayerInstance>;
+  // Timestamped comments and reactions, shown on the timeline
+  markers?: TimelineMarker[];
+  // Lets viewers react at the current moment
+  onReact?: (emoji: ReactionEmoji, time: number) => void;
 }
 
-export default function VideoPlayer({ video_url, thumbnailUrl, className }: Props) {
-  const player = useRef<MediaPlayerInstance>(null);
+export default function VideoPlayer({
+  video_url,
+  sources,
+  thumbnailUrl,
+  storyboardUrl,
+  captionsUrl,
+  className,
+  playerRef,
+  markers,
+  onReact,
+}: Props) {
+  const ownPlayer = useRef<MediaPlayerInstance>(null);
+  const player = playerRef ?? ownPlayer;
 
   useEffect(() => {
     // Subscribe to state updates.
@@ -32,7 +58,7 @@ export default function VideoPlayer({ video_url, thumbnailUrl, className }: Prop
       console.log('is paused?', '->', paused);
       console.log('is audio view?', '->', viewType === 'audio');
     });
-  }, []);
+  }, [player]);
 
   function onProviderChange(
     provider: MediaProviderAdapter | null,
@@ -60,12 +86,16 @@ export default function VideoPlayer({ video_url, thumbnailUrl, className }: Prop
         "ring-media-focus aspect-video h-full w-full max-h-[60dvh] min-h-[26dvh] sm:max-w-[100dvw] md:max-h-[45dvh] overflow-hidden rounded-md bg-black font-sans text-white data-[focus]:ring-4",
         className
       )}
-      src={[
-        {
-          src: video_url,
-          type: "video/webm",
-        },
-      ]}
+      src={
+        sources?.length
+          ? sources
+          : [
+              {
+                src: video_url,
+                type: "video/webm",
+              },
+            ]
+      }
       crossOrigin
       playsInline
       onProviderChange={onProviderChange}
@@ -84,9 +114,22 @@ export default function VideoPlayer({ video_url, thumbnailUrl, className }: Prop
         ) : (
           <></>
         )}
+        {captionsUrl && (
+          <Track
+            src={captionsUrl}
+            kind="captions"
+            label="Transcript"
+            type="vtt"
+            default
+          />
+        )}
       </MediaProvider>
 
-      <VideoLayout thumbnails={thumbnailUrl} />
+      <VideoLayout
+        thumbnails={storyboardUrl ?? undefined}
+        markers={markers}
+        onReact={onReact}
+      />
     </MediaPlayer>
   );
 }
@@ -10,14 +10,17 @@ import { useSession } from "next-auth/react";
 import generateThumbnail from "~/utils/generateThumbnail";
 
 import { invalidateTasksCache } from "~/utils/cacheUtils";
+import { uploadMultipart } from "~/utils/multipartUpload";
 
 export default function VideoUploadModal() {
   const [open, setOpen] = useAtom(uploadVideoModalOpen);
   const router = useRouter();
   const [submitting, setSubmitting] = useState<boolean>(false);
+  const [uploadProgress, setUploadProgress] = useState<number>(0);
   const [file, setFile] = useState<File>();
   const [userContext, setUserContext] = useState<string | undefined>(undefined);
-  const getSignedUrl = api.video.getUploadUrl.useMutation();
+  const createUpload = api.video.createUpload.useMutation();
+  const getThumbnailUploadUrl = api.video.getThumbnailUploadUrl.useMutation();
   const apiUtils = api.useContext();
   const videoRef = useRef<null | HTMLVideoElement>(null);
   const posthog = usePostHog();
@@ -37,29 +40,39 @@ export default function VideoUploadModal() {
     });
   }
 
+  const uploadThumbnail = async (videoId: string) => {
+    if (!videoRef.current) return;
+    const thumbnail = await generateThumbnail(videoRef.current);
+    const { signedThumbnailUrl } = await getThumbnailUploadUrl.mutateAsync({
+      videoId,
+    });
+    await axios.put(signedThumbnailUrl, thumbnail, {
+      headers: { "Content-Type": "image/png" },
+    });
+  };
+
   const handleSubmit = async (): Promise<void> => {
     if (!file) return;
     setSubmitting(true);
+    setUploadProgress(0);
     const title = file.name.replace(/\.[^/.]+$/, "");
-    const { signedVideoUrl, signedThumbnailUrl, id } =
-      await getSignedUrl.mutateAsync({
-        key: title,
-        userContext: userContext || undefined,
-      });
-    await axios
-      .put(signedVideoUrl, file.slice(), {
-        headers: { "Content-Type": file.type },
-      })
-      .then(async () => {
-        if (!videoRef.current) return;
-        return axios.put(
-          signedThumbnailUrl,
-          await generateThumbnail(videoRef.current),
-          {
-            headers: { "Content-Type": "image/png" },
-          }
-        );
-      })
+    const { id } = await createUpload.mutateAsync({
+      key: title,
+      userContext: userContext || undefined,
+    });
+    await uploadMultipart(
+      apiUtils.client.video,
+      {
+        videoId: id,
+        userId: session?.user?.id,
+        fileName: file.name,
+        contentType: file.type,
+        file,
+      },
+      { onProgress: setUploadProgress }
+    )
+      // The task works without a thumbnail, so a failed one doesn't fail the upload
+      .then(() => uploadThumbnail(id).catch((err) => console.error(err)))
       .then(() => {
         setOpen(false);
         invalidateTasksCache(session?.user?.id);
@@ -171,7 +184,7 @@ export default function VideoUploadModal() {
                             d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                           ></path>
                         </svg>
-                        Uploading...
+                        Uploading... {Math.round(uploadProgress * 100)}%
                       </>
                     ) : (
                       <>Upload</>
@@ -0,0 +1,248 @@
+import {
+  Dialog,
+  DialogPanel,
+  Transition,
+  TransitionChild,
+} from "@headlessui/react";
+import { Cross2Icon } from "@radix-ui/react-icons";
+import { type WorkspaceRole } from "@prisma/client";
+import { useSession } from "next-auth/react";
+import { Fragment, useState, type FormEvent } from "react";
+import { api } from "~/utils/api";
+
+interface Props {
+  workspace: { id: string; name: string; role: WorkspaceRole };
+  open: boolean;
+  onClose: () => void;
+  // Called after the user left or deleted the workspace
+  onLeft: () => void;
+}
+
+const WORKSPACE_ROLES: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+const fieldClass =
+  "h-8 rounded-md border border-gray-300 bg-white px-2 text-sm text-gray-700 focus:border-custom-dark-orange focus:outline-none focus:ring-1 focus:ring-custom-dark-orange";
+
+/** Members of a workspace and their roles. Owners add, remove and change members. */
+export default function WorkspaceMembersModal({
+  workspace,
+  open,
+  onClose,
+  onLeft,
+}: Props) {
+  const utils = api.useContext();
+  const { data: session } = useSession();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<WorkspaceRole>("editor");
+  const isOwner = workspace.role === "owner";
+
+  const { data: members } = api.workspace.getMembers.useQuery(
+    { workspaceId: workspace.id },
+    { enabled: open }
+  );
+  const onMembersChanged = () =>
+    void utils.workspace.getMembers.invalidate({ workspaceId: workspace.id });
+
+  const addMemberMutation = api.workspace.addMember.useMutation({
+    onSuccess: () => {
+      setEmail("");
+      onMembersChanged();
+    },
+    onError: (err) => alert(err.message),
+  });
+  const updateMemberRoleMutation = api.workspace.updateMemberRole.useMutation({
+    onSettled: onMembersChanged,
+    onError: (err) => alert(err.message),
+  });
+  const removeMemberMutation = api.workspace.removeMember.useMutation({
+    onSuccess: (_, { membershipId }) => {
+      const membership = members?.find((m) => m.id === membershipId);
+      if (membership?.userId === session?.user.id) {
+        onLeft();
+      } else {
+        onMembersChanged();
+      }
+    },
+    onError: (err) => alert(err.message),
+  });
+  const deleteWorkspaceMutation = api.workspace.delete.useMutation({
+    onSuccess: onLeft,
+    onError: (err) => alert(err.message),
+  });
+
+  const addMember = (e: FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    addMemberMutation.mutate({ workspaceId: workspace.id, email, role });
+  };
+
+  const ownMembership = members?.find((m) => m.userId === session?.user.id);
+
+  return (
+    <Transition appear show={open} as={Fragment}>
+      <Dialog as="div" className="relative z-10" onClose={onClose}>
+        <TransitionChild
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </TransitionChild>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <TransitionChild
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <DialogPanel className="w-full max-w-md transform rounded bg-white p-6 text-left align-middle text-custom-black shadow-xl transition-all">
+                <span className="text-lg font-medium">
+                  {workspace.name} members
+                </span>
+                <ul className="mt-4 divide-y divide-gray-100">
+                  {members?.map((member) => (
+                    <li
+                      key={member.id}
+                      className="flex items-center justify-between gap-2 py-2 text-sm"
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">
+                          {member.user.name ?? member.user.email}
+                        </p>
+                        {member.user.name && (
+                          <p className="truncate text-xs text-gray-500">
+                            {member.user.email}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex shrink-0 items-center gap-1">
+                        {isOwner ? (
+                          <select
+                            aria-label={`Role of ${member.user.email ?? ""}`}
+                            value={member.role}
+                            onChange={(e) =>
+                              updateMemberRoleMutation.mutate({
+                                membershipId: member.id,
+                                role: e.target.value as WorkspaceRole,
+                              })
+                            }
+                            className={fieldClass}
+                          >
+                            {Object.entries(WORKSPACE_ROLES).map(
+                              ([value, label]) => (
+                                <option key={value} value={value}>
+                                  {label}
+                                </option>
+                              )
+                            )}
+                          </select>
+                        ) : (
+                          <span className="text-gray-500">
+                            {WORKSPACE_ROLES[member.role]}
+                          </span>
+                        )}
+                        {isOwner && member.userId !== session?.user.id && (
+                          <button
+                            aria-label={`Remove ${member.user.email ?? ""}`}
+                            onClick={() =>
+                              removeMemberMutation.mutate({
+                                membershipId: member.id,
+                              })
+                            }
+                            className="rounded p-1 text-gray-400 hover:text-red-600"
+                          >
+                            <Cross2Icon />
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+
+                {isOwner && (
+                  <form onSubmit={addMember} className="mt-4 flex gap-1">
+                    <input
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="teammate@company.com"
+                      aria-label="Email"
+                      className={`${fieldClass} min-w-0 grow`}
+                    />
+                    <select
+                      aria-label="Role"
+                      value={role}
+                      onChange={(e) => setRole(e.target.value as WorkspaceRole)}
+                      className={fieldClass}
+                    >
+                      {Object.entries(WORKSPACE_ROLES).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="submit"
+                      disabled={!email.trim() || addMemberMutation.isLoading}
+                      className="h-8 rounded-md bg-custom-dark-orange px-3 text-sm font-medium text-white disabled:opacity-50"
+                    >
+                      Add
+                    </button>
+                  </form>
+                )}
+
+                <div className="mt-6 flex justify-between text-sm">
+                  {ownMembership && (
+                    <button
+                      onClick={() => {
+                        if (confirm(`Leave ${workspace.name}?`)) {
+                          removeMemberMutation.mutate({
+                            membershipId: ownMembership.id,
+                          });
+                        }
+                      }}
+                      className="text-gray-500 hover:text-gray-800"
+                    >
+                      Leave workspace
+                    </button>
+                  )}
+                  {isOwner && (
+                    <button
+                      onClick={() => {
+                        if (
+                          confirm(
+                            `Delete ${workspace.name}? Its tasks go back to the libraries of whoever recorded them.`
+                          )
+                        ) {
+                          deleteWorkspaceMutation.mutate({
+                            workspaceId: workspace.id,
+                          });
+                        }
+                      }}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Delete workspace
+                    </button>
+                  )}
+                </div>
+              </DialogPanel>
+            </TransitionChild>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -1,12 +1,17 @@
 import * as Tooltip from "@radix-ui/react-tooltip";
 import {
+  CaptionButton,
   FullscreenButton,
   MuteButton,
   PIPButton,
   PlayButton,
+  useMediaPlayer,
   useMediaState,
 } from "@vidstack/react";
+import { useState } from "react";
 import {
+  Captions as CaptionsIcon,
+  CaptionsOff as CaptionsOffIcon,
   Minimize as FullscreenExitIcon,
   Maximize as FullscreenIcon,
   VolumeX as MuteIcon,
@@ -14,9 +19,11 @@ import {
   PictureInPictureIcon as PictureInPictureExitIcon,
   PictureInPicture2 as PictureInPictureIcon,
   PlayIcon,
+  SmilePlus as ReactionIcon,
   Volume2 as VolumeHighIcon,
   Volume1 as VolumeLowIcon,
 } from "lucide-react";
+import { REACTION_EMOJIS, type ReactionEmoji } from "~/utils/viewerAnalytics";
 
 export interface MediaButtonProps {
   tooltipSide?: Tooltip.TooltipContentProps["side"];
@@ -91,6 +98,36 @@ export function Mute({
   );
 }
 
+export function Caption({
+  tooltipOffset = 0,
+  tooltipSide = "top",
+  tooltipAlign = "center",
+}: MediaButtonProps) {
+  const track = useMediaState("textTrack"),
+    isOn = track && track.mode === "showing";
+  return (
+    <Tooltip.Root>
+      <Tooltip.Trigger asChild>
+        <CaptionButton className={buttonClass}>
+          {isOn ? (
+            <CaptionsIcon className="h-7 w-7" />
+          ) : (
+            <CaptionsOffIcon className="h-7 w-7" />
+          )}
+        </CaptionButton>
+      </Tooltip.Trigger>
+      <Tooltip.Content
+        className={tooltipClass}
+        side={tooltipSide}
+        align={tooltipAlign}
+        sideOffset={tooltipOffset}
+      >
+        {isOn ? "Closed-Captions Off" : "Closed-Captions On"}
+      </Tooltip.Content>
+    </Tooltip.Root>
+  );
+}
+
 export function PIP({
   tooltipOffset = 0,
   tooltipSide = "top",
@@ -120,6 +157,60 @@ export function PIP({
   );
 }
 
+export interface ReactionButtonProps extends MediaButtonProps {
+  // Called with the emoji and the playback position it was picked at
+  onReact: (emoji: ReactionEmoji, time: number) => void;
+}
+
+export function Reaction({
+  onReact,
+  tooltipOffset = 0,
+  tooltipSide = "top",
+  tooltipAlign = "center",
+}: ReactionButtonProps) {
+  const player = useMediaPlayer();
+  const [isOpen, setIsOpen] = useState(false);
+  return (
+    <div className="relative">
+      {isOpen && (
+        <div className="absolute bottom-full left-1/2 mb-2 flex -translate-x-1/2 gap-0.5 rounded-full bg-custom-black/90 px-1.5 py-1">
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              onClick={() => {
+                onReact(emoji, player?.currentTime ?? 0);
+                setIsOpen(false);
+              }}
+              className="rounded-full p-1 text-xl leading-none transition-transform hover:scale-125"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+      <Tooltip.Root>
+        <Tooltip.Trigger asChild>
+          <button
+            className={buttonClass}
+            onClick={() => setIsOpen((open) => !open)}
+            aria-expanded={isOpen}
+          >
+            <ReactionIcon className="h-7 w-7" />
+          </button>
+        </Tooltip.Trigger>
+        <Tooltip.Content
+          className={tooltipClass}
+          side={tooltipSide}
+          align={tooltipAlign}
+          sideOffset={tooltipOffset}
+        >
+          React
+        </Tooltip.Content>
+      </Tooltip.Root>
+    </div>
+  );
+}
+
 export function Fullscreen({
   tooltipOffset = 0,
   tooltipSide = "top",
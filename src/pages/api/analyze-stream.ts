@@ -0,0 +1,189 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import superjson from "superjson";
+import { z } from "zod";
+import "~/dotenv-config";
+import { getServerAuthSession } from "~/server/auth";
+import { prisma } from "~/server/db";
+import {
+  getAnalysisProvider,
+  getCachedVideoContext,
+} from "~/server/analysisProvider";
+import { ACTIVE_ANALYSIS_JOB_STATUSES } from "~/server/analysisJobs";
+import {
+  buildVideoAnalysisPrompt,
+  formatRevisionsForPrompt,
+  loadVideoForAnalysis,
+  parseAnalysisResponse,
+  parsePartialAnalysis,
+  saveAnalysisRevision,
+  validateAnalysisPlan,
+} from "~/server/analysis";
+import { getTranscriptForPrompt } from "~/server/transcription";
+
+const analyzeStreamSchema = z.object({
+  videoId: z.string(),
+  refinementPrompt: z.string().optional(),
+  parentRevisionId: z.string().optional(),
+});
+
+/**
+ * Runs an analysis inline and streams it back, used for refinements where the video is already
+ * cached with Gemini (initial analyses go through the analysis job queue). Fails with 412 when the
+ * cache has expired, as uploading the recording again takes too long for a request; the client
+ * queues a job instead. Fails with 409 while a job is analyzing the video. Otherwise responds with
+ * Server-Sent Events:
+ *
+ * - `markdown`: the analysis parsed from everything received so far
+ * - `done`: the saved revision (superjson encoded)
+ * - `error`: a message when the analysis failed
+ *
+ * If the client disconnects partway, generation is stopped and the text received so far is saved as
+ * an incomplete revision.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const input = analyzeStreamSchema.safeParse(req.body);
+  if (!input.success) {
+    return res.status(400).json({ message: "Invalid request" });
+  }
+
+  const session = await getServerAuthSession({ req, res });
+  const { videoId, refinementPrompt, parentRevisionId } = input.data;
+
+  let video;
+  let activeRevisions;
+  try {
+    ({ video, activeRevisions } = await loadVideoForAnalysis(prisma, {
+      videoId,
+      userId: session?.user.id,
+      parentRevisionId,
+      access: "edit",
+    }));
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return res
+        .status(getHTTPStatusCodeFromError(error))
+        .json({ message: error.message });
+    }
+    throw error;
+  }
+
+  const isRefinement = !!refinementPrompt && activeRevisions.length > 0;
+
+  // Both would race to become the video's analysis, see `enqueueAnalysisJob`
+  const activeJob = await prisma.analysisJob.findFirst({
+    where: { videoId: video.id, status: { in: ACTIVE_ANALYSIS_JOB_STATUSES } },
+  });
+  if (activeJob) {
+    return res.status(409).json({
+      message:
+        "This video is already being analyzed. Try again once that analysis is done.",
+    });
+  }
+
+  const provider = getAnalysisProvider();
+  const cachedContext = getCachedVideoContext(provider, video);
+  if (!cachedContext) {
+    return res
+      .status(412)
+      .json({ message: "The recording is no longer cached for analysis" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+  });
+
+  const send = (event: string, data: string) => {
+    res.write(`event: ${event}\ndata: ${data}\n\n`);
+  };
+
+  const abortController = new AbortController();
+  let disconnected = false;
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      disconnected = true;
+      abortController.abort();
+    }
+  });
+
+  let text = "";
+  let sentMarkdown = "";
+  let failed = false;
+
+  try {
+    const stream = provider.stream({
+      prompt: buildVideoAnalysisPrompt({
+        userContext: video.userContext,
+        previousAnalysis: formatRevisionsForPrompt(activeRevisions),
+        refinementPrompt,
+        transcript: getTranscriptForPrompt(video.transcript),
+      }),
+      cachedContext,
+      signal: abortController.signal,
+    });
+
+    for await (const chunk of stream) {
+      text += chunk;
+      if (disconnected) continue;
+
+      const markdown = parsePartialAnalysis(text);
+      if (markdown !== sentMarkdown) {
+        sentMarkdown = markdown;
+        send("markdown", JSON.stringify({ markdown }));
+      }
+    }
+  } catch (error) {
+    if (!disconnected) {
+      console.error("Error streaming video analysis:", error);
+      failed = true;
+    }
+  }
+
+  if (failed || !text.trim()) {
+    if (!disconnected) {
+      send("error", JSON.stringify({ message: "Failed to analyze video" }));
+      res.end();
+    }
+    return;
+  }
+
+  let result;
+  try {
+    result = await saveAnalysisRevision(prisma, {
+      video,
+      parentRevisions: isRefinement ? activeRevisions : [],
+      kind: isRefinement ? "refinement" : "initial",
+      prompt: refinementPrompt,
+      // Skip the repair request when nobody is waiting for the result
+      parsed: await validateAnalysisPlan(parseAnalysisResponse(text), {
+        provider,
+        cachedContext,
+        repair: !disconnected,
+      }),
+      model: provider.model,
+      incomplete: disconnected,
+    });
+  } catch (error) {
+    console.error("Error saving video analysis:", error);
+    if (!disconnected) {
+      send("error", JSON.stringify({ message: "Failed to save analysis" }));
+      res.end();
+    }
+    return;
+  }
+
+  if (!disconnected) {
+    send("done", superjson.stringify(result));
+    res.end();
+  }
+}
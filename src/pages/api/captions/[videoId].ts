@@ -0,0 +1,50 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+import "~/dotenv-config";
+import { getServerAuthSession } from "~/server/auth";
+import { hasVideoAccess } from "~/server/authorization";
+import { getShareLinkForGrant } from "~/server/shareLinks";
+import { prisma } from "~/server/db";
+import {
+  formatTranscriptVtt,
+  parseTranscriptSegments,
+} from "~/server/transcription";
+
+/**
+ * Serves a video's transcript as a WebVTT captions track. Access follows `video.get`; people who
+ * opened a share link pass its grant as `?grant=`, unless the link hides the video.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const videoId =
+    typeof req.query.videoId === "string" ? req.query.videoId : "";
+  const video = await prisma.video.findUnique({
+    where: { id: videoId },
+    include: { transcript: true },
+  });
+  if (!video?.transcript) {
+    return res.status(404).json({ message: "Not found" });
+  }
+
+  const session = await getServerAuthSession({ req, res });
+  const grant = typeof req.query.grant === "string" ? req.query.grant : null;
+  if (
+    !(await hasVideoAccess(prisma, video, session?.user.id, "view")) &&
+    (await getShareLinkForGrant(prisma, grant, video.id))?.hideVideo !== false
+  ) {
+    return res.status(403).json({ message: "Forbidden" });
+  }
+
+  res.setHeader("Content-Type", "text/vtt");
+  res.setHeader("Cache-Control", "private, max-age=300");
+  res
+    .status(200)
+    .send(
+      formatTranscriptVtt(parseTranscriptSegments(video.transcript.segments))
+    );
+}
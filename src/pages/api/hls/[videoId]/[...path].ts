@@ -0,0 +1,112 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { GetObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import "~/dotenv-config";
+import { getServerAuthSession } from "~/server/auth";
+import { hasVideoAccess } from "~/server/authorization";
+import { getShareLinkForGrant } from "~/server/shareLinks";
+import { s3 } from "~/server/aws/s3";
+import { prisma } from "~/server/db";
+import { getRenditionsPrefix, parseRenditions } from "~/server/videoProcessing";
+
+// Segment links are presigned for as long as a long recording might take to watch
+const SEGMENT_URL_EXPIRES_IN = 6 * 60 * 60;
+
+/**
+ * Serves the HLS playlists of a transcoded video. The bucket is private and players resolve segment
+ * URIs relative to the playlist, so playlists are proxied here and the segment URIs in variant
+ * playlists are replaced with presigned S3 URLs. Access follows `video.get`; people who opened a
+ * share link pass its grant as `?grant=`, unless the link hides the video.
+ *
+ * - `/api/hls/<videoId>/master.m3u8`: the master playlist
+ * - `/api/hls/<videoId>/<rendition>/index.m3u8`: a variant playlist
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const videoId =
+    typeof req.query.videoId === "string" ? req.query.videoId : "";
+  const segments = Array.isArray(req.query.path) ? req.query.path : [];
+  const isMaster = segments.length === 1 && segments[0] === "master.m3u8";
+  const isVariant =
+    segments.length === 2 &&
+    /^[\w-]+$/.test(segments[0] ?? "") &&
+    segments[1] === "index.m3u8";
+  if (!isMaster && !isVariant) {
+    return res.status(404).json({ message: "Not found" });
+  }
+
+  const video = await prisma.video.findUnique({ where: { id: videoId } });
+  const renditions =
+    video && !video.fileDeletedAt ? parseRenditions(video.renditions) : null;
+  if (!video || !renditions) {
+    return res.status(404).json({ message: "Not found" });
+  }
+
+  const session = await getServerAuthSession({ req, res });
+  const grant = typeof req.query.grant === "string" ? req.query.grant : null;
+  if (
+    !(await hasVideoAccess(prisma, video, session?.user.id, "view")) &&
+    (await getShareLinkForGrant(prisma, grant, video.id))?.hideVideo !== false
+  ) {
+    return res.status(403).json({ message: "Forbidden" });
+  }
+
+  const playlistDir = isMaster
+    ? renditions.hls.slice(0, renditions.hls.lastIndexOf("/") + 1)
+    : getRenditionsPrefix(video) + "hls/" + (segments[0] ?? "") + "/";
+  const playlistKey = isMaster ? renditions.hls : playlistDir + "index.m3u8";
+
+  let playlist;
+  try {
+    const object = await s3.getObject({
+      Bucket: process.env.AWS_BUCKET_NAME,
+      Key: playlistKey,
+    });
+    playlist = await object.Body?.transformToString();
+  } catch (error) {
+    console.error(`Failed to load playlist ${playlistKey}:`, error);
+  }
+  if (!playlist) {
+    return res.status(404).json({ message: "Not found" });
+  }
+
+  // Variant playlist URIs in the master stay relative so they come back through this route, with
+  // the grant that was used to load the master
+  if (isMaster && grant) {
+    playlist = playlist
+      .split("\n")
+      .map((line) =>
+        line.trim() && !line.startsWith("#")
+          ? `${line.trim()}?grant=${encodeURIComponent(grant)}`
+          : line
+      )
+      .join("\n");
+  }
+  if (isVariant) {
+    const lines = await Promise.all(
+      playlist.split("\n").map((line) =>
+        line.trim() && !line.startsWith("#")
+          ? getSignedUrl(
+              s3,
+              new GetObjectCommand({
+                Bucket: process.env.AWS_BUCKET_NAME,
+                Key: playlistDir + line.trim(),
+              }),
+              { expiresIn: SEGMENT_URL_EXPIRES_IN }
+            )
+          : line
+      )
+    );
+    playlist = lines.join("\n");
+  }
+
+  res.setHeader("Content-Type", "application/vnd.apple.mpegurl");
+  res.setHeader("Cache-Control", "private, max-age=300");
+  res.status(200).send(playlist);
+}
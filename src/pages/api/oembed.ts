@@ -0,0 +1,100 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { GetObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import "~/dotenv-config";
+import { canEmbedVideo } from "~/server/authorization";
+import { s3 } from "~/server/aws/s3";
+import { prisma } from "~/server/db";
+import { escapeHtml, getAppUrl } from "~/server/mail";
+
+// 16:9, scaled down to fit `maxwidth` and `maxheight`
+const DEFAULT_WIDTH = 640;
+// Short, as the thumbnail URL is signed and sharing can be turned off; the embed checks it again
+const CACHE_AGE = 60 * 60;
+
+// Task and embed URLs: `/task/<videoId>` or `/embed/<videoId>`, with any query
+const EMBEDDABLE_PATH_PATTERN = /^\/(?:task|embed)\/([^/]+)\/?$/;
+
+const parseDimension = (value: unknown) => {
+  const dimension = typeof value === "string" ? parseInt(value, 10) : NaN;
+  return Number.isFinite(dimension) && dimension > 0 ? dimension : null;
+};
+
+/**
+ * oEmbed provider (https://oembed.com) for tasks shared with anyone, so pasting a task link in docs
+ * and tickets shows an inline player. `url` is a task or embed URL of this app; `maxwidth` and
+ * `maxheight` scale the 16:9 player down. Only the JSON format is supported.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+  if (req.query.format && req.query.format !== "json") {
+    return res.status(501).json({ message: "Only JSON is supported" });
+  }
+
+  const appUrl = getAppUrl();
+  let videoId: string | undefined;
+  try {
+    const url = new URL(typeof req.query.url === "string" ? req.query.url : "");
+    if (url.host === new URL(appUrl).host) {
+      videoId = EMBEDDABLE_PATH_PATTERN.exec(url.pathname)?.[1];
+    }
+  } catch {
+    // Not a URL
+  }
+  if (!videoId) {
+    return res.status(404).json({ message: "Not found" });
+  }
+
+  const video = await prisma.video.findUnique({
+    where: { id: videoId },
+    include: { user: { select: { name: true } } },
+  });
+  if (!video) {
+    return res.status(404).json({ message: "Not found" });
+  }
+  if (!canEmbedVideo(video)) {
+    return res.status(401).json({ message: "This task isn't shared publicly" });
+  }
+
+  const maxWidth = parseDimension(req.query.maxwidth);
+  const maxHeight = parseDimension(req.query.maxheight);
+  const width = Math.min(
+    DEFAULT_WIDTH,
+    maxWidth ?? Infinity,
+    maxHeight ? Math.floor((maxHeight * 16) / 9) : Infinity
+  );
+  const height = Math.round((width * 9) / 16);
+
+  const embedUrl = `${appUrl}/embed/${video.id}`;
+
+  res.setHeader("Cache-Control", `public, max-age=${CACHE_AGE}`);
+  return res.status(200).json({
+    version: "1.0",
+    type: "video",
+    provider_name: "Greadings",
+    provider_url: appUrl,
+    title: video.title,
+    author_name: video.user.name ?? undefined,
+    html: `<iframe src="${embedUrl}" width="${width}" height="${height}" title="${escapeHtml(
+      video.title
+    )}" frameborder="0" allow="autoplay; fullscreen; picture-in-picture" allowfullscreen></iframe>`,
+    width,
+    height,
+    thumbnail_url: await getSignedUrl(
+      s3,
+      new GetObjectCommand({
+        Bucket: process.env.AWS_BUCKET_NAME,
+        Key: video.userId + "/" + video.id + "-thumbnail",
+      }),
+      { expiresIn: 7 * 24 * 60 * 60 }
+    ),
+    thumbnail_width: 1200,
+    thumbnail_height: 600,
+    cache_age: CACHE_AGE,
+  });
+}
@@ -0,0 +1,16 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import "@dotenvx/dotenvx/config";
+import { s3 } from "~/server/aws/s3";
+import { verifySignature } from "@upstash/qstash/nextjs";
+import { sweepOrphanedUploads } from "~/server/uploads";
+
+// Scheduled through QStash like `check-expired-videos`
+export default verifySignature(async function handler(
+  _req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { deletedIds, failedIds } = await sweepOrphanedUploads(prisma, s3);
+
+  res.status(200).json({ deletedIds, failedIds });
+});
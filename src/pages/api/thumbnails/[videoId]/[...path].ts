@@ -0,0 +1,108 @@
+import { type NextApiRequest, type NextApiResponse } from "next";
+import { GetObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import "~/dotenv-config";
+import { getServerAuthSession } from "~/server/auth";
+import { hasVideoAccess } from "~/server/authorization";
+import { getShareLinkForGrant } from "~/server/shareLinks";
+import { s3 } from "~/server/aws/s3";
+import { prisma } from "~/server/db";
+import {
+  getScreencastThumbnailKey,
+  parseRenditions,
+} from "~/server/videoProcessing";
+
+const THUMBNAIL_URL_EXPIRES_IN = 6 * 60 * 60;
+
+/**
+ * Serves generated thumbnails that aren't part of `video.get`, with the same access rules. People who
+ * opened a share link pass its grant as `?grant=`, for what the link doesn't hide:
+ *
+ * - `/api/thumbnails/<videoId>/storyboard.vtt`: the scrub preview track, with the sprite it
+ *   refers to replaced by a signed URL
+ * - `/api/thumbnails/<videoId>/screencasts/<revisionId>.jpg`: redirects to the poster of a
+ *   screencast update
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ message: "Method not allowed" });
+  }
+
+  const videoId =
+    typeof req.query.videoId === "string" ? req.query.videoId : "";
+  const segments = Array.isArray(req.query.path) ? req.query.path : [];
+  const isStoryboard =
+    segments.length === 1 && segments[0] === "storyboard.vtt";
+  const screencastMatch =
+    segments.length === 2 && segments[0] === "screencasts"
+      ? /^([\w-]+)\.jpg$/.exec(segments[1] ?? "")
+      : null;
+  if (!isStoryboard && !screencastMatch) {
+    return res.status(404).json({ message: "Not found" });
+  }
+
+  const video = await prisma.video.findUnique({ where: { id: videoId } });
+  if (!video) {
+    return res.status(404).json({ message: "Not found" });
+  }
+
+  const session = await getServerAuthSession({ req, res });
+  const grant = typeof req.query.grant === "string" ? req.query.grant : null;
+  if (!(await hasVideoAccess(prisma, video, session?.user.id, "view"))) {
+    const link = await getShareLinkForGrant(prisma, grant, video.id);
+    if (!link || (screencastMatch ? link.hideAnalysis : link.hideVideo)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+  }
+
+  if (screencastMatch) {
+    const url = await getSignedUrl(
+      s3,
+      new GetObjectCommand({
+        Bucket: process.env.AWS_BUCKET_NAME,
+        Key: getScreencastThumbnailKey(video, screencastMatch[1] ?? ""),
+      }),
+      { expiresIn: THUMBNAIL_URL_EXPIRES_IN }
+    );
+    res.setHeader("Cache-Control", "private, max-age=300");
+    return res.redirect(302, url);
+  }
+
+  const storyboard = video.fileDeletedAt
+    ? null
+    : parseRenditions(video.renditions)?.storyboard;
+  if (!storyboard) {
+    return res.status(404).json({ message: "Not found" });
+  }
+
+  let track;
+  try {
+    const object = await s3.getObject({
+      Bucket: process.env.AWS_BUCKET_NAME,
+      Key: storyboard,
+    });
+    track = await object.Body?.transformToString();
+  } catch (error) {
+    console.error(`Failed to load storyboard ${storyboard}:`, error);
+  }
+  if (!track) {
+    return res.status(404).json({ message: "Not found" });
+  }
+
+  const spriteUrl = await getSignedUrl(
+    s3,
+    new GetObjectCommand({
+      Bucket: process.env.AWS_BUCKET_NAME,
+      Key:
+        storyboard.slice(0, storyboard.lastIndexOf("/") + 1) + "storyboard.jpg",
+    }),
+    { expiresIn: THUMBNAIL_URL_EXPIRES_IN }
+  );
+
+  res.setHeader("Content-Type", "text/vtt");
+  res.setHeader("Cache-Control", "private, max-age=300");
+  res.status(200).send(track.replace(/^storyboard\.jpg#/gm, spriteUrl + "#"));
+}
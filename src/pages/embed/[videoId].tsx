@@ -0,0 +1,142 @@
+import { type NextPage } from "next";
+import Head from "next/head";
+import { useRouter } from "next/router";
+import { useMemo, useRef, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import { type MediaPlayerInstance } from "@vidstack/react";
+import { api } from "~/utils/api";
+import { linkTimestamps } from "~/utils/timestamps";
+import { useViewTracking } from "~/utils/useViewTracking";
+import VideoPlayer from "~/components/VideoPlayer";
+import { createMarkdownComponents } from "~/components/VideoAnalysis";
+
+/**
+ * A task's player on its own, for iframes in docs and tickets (see `/api/oembed`). Only tasks shared
+ * with anyone can be embedded. The analysis is offered below the player, and shown right away with
+ * `?analysis=1`.
+ */
+const EmbedPage: NextPage = () => {
+  const router = useRouter();
+  const { videoId } = router.query as { videoId: string };
+  const playerRef = useRef<MediaPlayerInstance>(null);
+  const [showAnalysis, setShowAnalysis] = useState<boolean | null>(null);
+
+  const {
+    data: video,
+    error,
+    isLoading,
+  } = api.video.getEmbed.useQuery(
+    { videoId },
+    {
+      enabled: router.isReady,
+      refetchOnWindowFocus: false,
+      retry: (failureCount, error) => {
+        if (
+          error?.data?.code === "FORBIDDEN" ||
+          error?.data?.code === "NOT_FOUND"
+        ) {
+          return false;
+        }
+        return failureCount < 2;
+      },
+    }
+  );
+
+  useViewTracking({
+    videoId: video?.id,
+    playerRef,
+    hasPlayer: !!video?.video_url,
+  });
+
+  const markdownComponents = useMemo(
+    () =>
+      createMarkdownComponents((seconds) => {
+        const player = playerRef.current;
+        if (!player) return;
+        player.currentTime = seconds;
+        void player.play();
+      }),
+    []
+  );
+
+  const isAnalysisShown =
+    !!video?.aiAnalysis && (showAnalysis ?? router.query.analysis === "1");
+
+  return (
+    <>
+      <Head>
+        <title>{video?.title ?? "Greadings"}</title>
+        <meta name="robots" content="noindex" />
+        <meta
+          name="viewport"
+          content="width=device-width, initial-scale=1, viewport-fit=cover"
+        />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <div className="flex h-[100dvh] w-full flex-col overflow-hidden bg-black text-white">
+        {video ? (
+          <>
+            <div className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+              <a
+                href={`/task/${video.id}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="truncate font-medium hover:underline"
+              >
+                {video.title}
+              </a>
+              {video.aiAnalysis && (
+                <button
+                  onClick={() => setShowAnalysis(!isAnalysisShown)}
+                  className="shrink-0 rounded-md px-2 py-1 text-xs text-gray-300 hover:bg-white/10"
+                >
+                  {isAnalysisShown ? "Hide analysis" : "Show analysis"}
+                </button>
+              )}
+            </div>
+            {video.video_url ? (
+              <div
+                className={`min-h-0 w-full ${
+                  isAnalysisShown ? "h-1/2 shrink-0" : "flex-1"
+                }`}
+              >
+                <VideoPlayer
+                  video_url={video.video_url}
+                  sources={video.sources}
+                  thumbnailUrl={video.thumbnailUrl}
+                  storyboardUrl={video.storyboardUrl}
+                  captionsUrl={video.captionsUrl}
+                  className="h-full max-h-none min-h-0 w-full rounded-none md:max-h-none"
+                  playerRef={playerRef}
+                />
+              </div>
+            ) : (
+              <p className="flex flex-1 items-center justify-center px-6 text-center text-sm text-gray-400">
+                This video is no longer available.
+              </p>
+            )}
+            {isAnalysisShown && video.aiAnalysis && (
+              <div className="prose prose-sm min-h-0 max-w-none flex-1 overflow-y-auto bg-white p-4 text-custom-black">
+                <ReactMarkdown components={markdownComponents}>
+                  {linkTimestamps(video.aiAnalysis)}
+                </ReactMarkdown>
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="flex flex-1 items-center justify-center px-6 text-center text-sm text-gray-400">
+            {isLoading
+              ? "Loading…"
+              : error?.data?.code === "FORBIDDEN"
+              ? "This task isn't shared publicly."
+              : error?.data?.code === "NOT_FOUND"
+              ? "This task doesn't exist."
+              : "This task couldn't be loaded."}
+          </p>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default EmbedPage;
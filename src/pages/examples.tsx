@@ -56,6 +56,7 @@ const ExamplesHub: NextPage = () => {
                       id={video.id}
                       createdAt={video.createdAt}
                       thumbnailUrl={video.thumbnailUrl ?? ""}
+                      previewUrl={video.previewUrl}
                       author={video.user}
                     />
                   ))}
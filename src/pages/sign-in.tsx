@@ -15,6 +15,7 @@ import logo from "../assets/logo.png";
 
 const SignIn = ({
   providers,
+  callbackUrl,
 }: InferGetServerSidePropsType<typeof getServerSideProps>) => {
   const [isLogin, setIsLogin] = useState(true);
   const [email, setEmail] = useState("");
@@ -35,13 +36,13 @@ const SignIn = ({
           redirect: false,
           email,
           password,
-          callbackUrl: "/tasks",
+          callbackUrl,
         });
 
         if (result?.error) {
           setError("Invalid email or password");
         } else if (result?.ok) {
-          window.location.href = result.url || "/tasks";
+          window.location.href = result.url || callbackUrl;
         }
       } else {
         // Sign Up
@@ -57,11 +58,11 @@ const SignIn = ({
           redirect: false,
           email,
           password,
-          callbackUrl: "/tasks",
+          callbackUrl,
         });
 
         if (result?.ok) {
-          window.location.href = result.url || "/tasks";
+          window.location.href = result.url || callbackUrl;
         }
       }
     } catch (err: unknown) {
@@ -227,7 +228,7 @@ const SignIn = ({
                   {googleProvider && (
                     <button
                       type="button"
-                      onClick={() => void signIn(googleProvider.id, { callbackUrl: "/tasks" })}
+                      onClick={() => void signIn(googleProvider.id, { callbackUrl })}
                       className="w-full relative inline-flex justify-center items-center py-2 px-4 border border-gray-300 rounded-md shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-black transition-colors"
                     >
                       <svg className="h-5 w-5 mr-2" aria-hidden="true" fill="currentColor" viewBox="0 0 24 24"><path d="M12.48 10.92v3.28h7.84c-.24 1.84-.853 3.187-1.787 4.133-1.147 1.147-2.933 2.4-6.053 2.4-4.827 0-8.6-3.893-8.6-8.72s3.773-8.72 8.6-8.72c2.6 0 4.507 1.027 5.907 2.347l2.307-2.307C18.747 1.44 16.133 0 12.48 0 5.867 0 .307 5.387.307 12s5.56 12 12.173 12c3.573 0 6.267-1.173 8.373-3.36 2.16-2.16 2.84-5.213 2.84-7.667 0-.76-.053-1.467-.173-2.053H12.48z"></path></svg>
@@ -237,7 +238,7 @@ const SignIn = ({
                   {githubProvider && (
                     <button
                       type="button"
-                      onClick={() => void signIn(githubProvider.id, { callbackUrl: "/tasks" })}
+                      onClick={() => void signIn(githubProvider.id, { callbackUrl })}
                       className="w-full relative inline-flex justify-center items-center py-2 px-4 border border-gray-300 rounded-md shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-black transition-colors"
                     >
                       <svg className="h-5 w-5 mr-2" fill="currentColor" viewBox="0 0 20 20" aria-hidden="true"><path fillRule="evenodd" d="M10 0C4.477 0 0 4.484 0 10.017c0 4.425 2.865 8.18 6.839 9.504.5.092.682-.217.682-.483 0-.237-.008-.868-.013-1.703-2.782.605-3.369-1.343-3.369-1.343-.454-1.158-1.11-1.466-1.11-1.466-.908-.62.069-.608.069-.608 1.003.07 1.531 1.032 1.531 1.032.892 1.53 2.341 1.088 2.91.832.092-.647.35-1.088.636-1.338-2.22-.253-4.555-1.113-4.555-4.951 0-1.093.39-1.988 1.029-2.688-.103-.253-.446-1.272.098-2.65 0 0 .84-.27 2.75 1.026A9.564 9.564 0 0110 4.844c.85.004 1.705.115 2.504.337 1.909-1.296 2.747-1.027 2.747-1.027.546 1.379.202 2.398.1 2.651.64.7 1.028 1.595 1.028 2.688 0 3.848-2.339 4.695-4.566 4.943.359.309.678.92.678 1.855 0 1.338-.012 2.419-.012 2.747 0 .268.18.58.688.482A10.019 10.019 0 0020 10.017C20 4.484 15.522 0 10 0z" clipRule="evenodd" /></svg>
@@ -262,16 +263,32 @@ const SignIn = ({
 
 export default SignIn;
 
+// Where to go after signing in, e.g. back to a task opened from an invite. Only paths on this site
+// are followed, so the sign-in page can't be used to redirect somewhere else.
+function getCallbackPath(context: GetServerSidePropsContext) {
+  const { callbackUrl } = context.query;
+  if (typeof callbackUrl !== "string") return "/tasks";
+  try {
+    const origin = `http://${context.req.headers.host ?? "localhost"}`;
+    const url = new URL(callbackUrl, origin);
+    if (url.host !== new URL(origin).host) return "/tasks";
+    return `${url.pathname}${url.search}`;
+  } catch {
+    return "/tasks";
+  }
+}
+
 export async function getServerSideProps(context: GetServerSidePropsContext) {
   const session = await getServerSession(context.req, context.res, authOptions);
+  const callbackUrl = getCallbackPath(context);
 
   if (session) {
-    return { redirect: { destination: "/tasks", permanent: false } };
+    return { redirect: { destination: callbackUrl, permanent: false } };
   }
 
   const providers = await getProviders();
 
   return {
-    props: { providers: providers ?? null },
+    props: { providers: providers ?? null, callbackUrl },
   };
 }
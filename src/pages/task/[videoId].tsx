@@ -1,4 +1,8 @@
-import { type NextPage } from "next";
+import {
+  type GetServerSidePropsContext,
+  type InferGetServerSidePropsType,
+  type NextPage,
+} from "next";
 import Head from "next/head";
 
 import { api } from "~/utils/api";
@@ -17,29 +21,105 @@ import VideoRecordModal from "~/components/VideoRecordModal";
 import defaultProfileIcon from "~/assets/default profile icon.jpg";
 import VideoPlayer from "~/components/VideoPlayer";
 import VideoAnalysis from "~/components/VideoAnalysis";
+import TaskComments from "~/components/TaskComments";
 import logo from "~/assets/logo.png";
 import Paywall from "~/components/Paywall";
 import paywallAtom from "~/atoms/paywallAtom";
 import Footer from "~/components/Footer";
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { type MediaPlayerInstance } from "@vidstack/react";
+import { formatTimestamp } from "~/utils/timestamps";
+import { getAnonymousViewerId } from "~/utils/viewerAnalytics";
+import { useViewTracking } from "~/utils/useViewTracking";
+import { canEmbedVideo } from "~/server/authorization";
+import { prisma } from "~/server/db";
+import { getAppUrl } from "~/server/mail";
 
-const VideoList: NextPage = () => {
+const VideoList: NextPage<
+  InferGetServerSidePropsType<typeof getServerSideProps>
+> = ({ oEmbed }) => {
   const router = useRouter();
   const { status, data: session } = useSession();
   const { videoId } = router.query as { videoId: string };
   const posthog = usePostHog();
   const [, setRecordOpen] = useAtom(recordVideoModalOpen);
   const [, setPaywallOpen] = useAtom(paywallAtom);
+  const playerRef = useRef<MediaPlayerInstance>(null);
+  // Share links open the task as `/task/<videoId>?link=<token>`
+  const linkToken =
+    typeof router.query.link === "string" ? router.query.link : undefined;
+  const [shareGrant, setShareGrant] = useState<string | null>(null);
+  const [linkPassword, setLinkPassword] = useState("");
+
+  // Opening a link counts a view, so the grant is kept for the rest of the browser session
+  const {
+    mutate: openShareLink,
+    error: openShareLinkError,
+    isLoading: isOpeningShareLink,
+  } = api.video.openShareLink.useMutation({
+    onSuccess: ({ grant }, { token }) => {
+      sessionStorage.setItem(`shareGrant:${token}`, grant);
+      setShareGrant(grant);
+    },
+  });
+  useEffect(() => {
+    if (!linkToken) return;
+    const storedGrant = sessionStorage.getItem(`shareGrant:${linkToken}`);
+    if (storedGrant) {
+      setShareGrant(storedGrant);
+    } else {
+      openShareLink({ token: linkToken });
+    }
+  }, [linkToken, openShareLink]);
+
+  // Email invites open the task as `/task/<videoId>?invite=<token>`; the signed-in account accepts
+  // the invite, then the task loads without the token in the URL
+  const inviteToken =
+    typeof router.query.invite === "string" ? router.query.invite : undefined;
+  const { mutate: acceptShareInvite, error: acceptShareInviteError } =
+    api.video.acceptShareInvite.useMutation({
+      onSuccess: ({ videoId }) => {
+        void router.replace(`/task/${videoId}`, undefined, { shallow: true });
+      },
+    });
+  useEffect(() => {
+    if (inviteToken && status === "authenticated") {
+      acceptShareInvite({ token: inviteToken });
+    }
+  }, [inviteToken, status, acceptShareInvite]);
+
+  const submitLinkPassword = (e: FormEvent) => {
+    e.preventDefault();
+    if (!linkToken || !linkPassword) return;
+    openShareLink({ token: linkToken, password: linkPassword });
+  };
+
+  const seekTo = (seconds: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.currentTime = seconds;
+    void player.play();
+    player.el?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
 
   const { data: video, isLoading } = api.video.get.useQuery(
-    { videoId },
+    { videoId, shareGrant },
     {
-      enabled: router.isReady,
+      enabled:
+        router.isReady && !inviteToken && (!linkToken || !!shareGrant),
       refetchOnWindowFocus: false,
       retry: (failureCount, error) => {
         if (error?.data?.code === "FORBIDDEN") return false;
         else return failureCount < 2;
       },
       onError: (err) => {
+        // A grant from an earlier visit may have expired; open the link again
+        if (err?.data?.code === "FORBIDDEN" && linkToken && shareGrant) {
+          sessionStorage.removeItem(`shareGrant:${linkToken}`);
+          setShareGrant(null);
+          openShareLink({ token: linkToken });
+          return;
+        }
         if (err?.data?.code === "FORBIDDEN") {
           posthog?.capture("video page: FORBIDDEN");
         } else if (err?.data?.code === "NOT_FOUND") {
@@ -49,6 +129,55 @@ const VideoList: NextPage = () => {
     }
   );
 
+  // Only sent by people who opened the task with a share link
+  const viewerShareGrant = video?.shareLink ? shareGrant : undefined;
+  const hasPlayer = !!video?.video_url && !video.shareLink?.hideVideo;
+
+  const { data: comments } = api.comment.list.useQuery(
+    { videoId, shareGrant: viewerShareGrant },
+    { enabled: !!video, refetchOnWindowFocus: false }
+  );
+  // Open comments pinned to a moment in the recording are marked on the timeline
+  const commentMarkers = comments?.comments.flatMap((comment) =>
+    comment.timestamp !== null && !comment.parentId && !comment.resolvedAt
+      ? [
+          {
+            id: comment.id,
+            time: comment.timestamp,
+            label: `${formatTimestamp(comment.timestamp)} ${
+              comment.user.name ?? ""
+            }: ${comment.body}`,
+          },
+        ]
+      : []
+  );
+
+  const { data: reactions, refetch: refetchReactions } =
+    api.analytics.getReactions.useQuery(
+      { videoId, shareGrant: viewerShareGrant },
+      { enabled: hasPlayer, refetchOnWindowFocus: false }
+    );
+  const reactMutation = api.analytics.react.useMutation({
+    onSuccess: () => void refetchReactions(),
+    onError: (err) => console.error(err.message),
+  });
+  const timelineMarkers = [
+    ...(commentMarkers ?? []),
+    ...(reactions ?? []).map((reaction) => ({
+      id: reaction.id,
+      time: reaction.timestamp,
+      label: `${reaction.emoji} at ${formatTimestamp(reaction.timestamp)}`,
+      emoji: reaction.emoji,
+    })),
+  ];
+
+  useViewTracking({
+    videoId: video?.id,
+    shareGrant: viewerShareGrant,
+    playerRef,
+    hasPlayer,
+  });
+
   const copyTaskMutation = api.video.copyTask.useMutation({
     onSuccess: (data) => {
       void router.push(`/task/${data.newVideoId}`);
@@ -82,7 +211,77 @@ const VideoList: NextPage = () => {
     });
   };
 
-  if (!isLoading && (!video || (!video.video_url && !video.fileDeletedAt))) {
+  if (inviteToken && (status === "unauthenticated" || acceptShareInviteError)) {
+    return (
+      <div className="flex min-h-screen w-full flex-col items-center justify-center">
+        <span className="max-w-[80%] text-center text-2xl font-medium">
+          {acceptShareInviteError
+            ? acceptShareInviteError.message
+            : "Sign in to open this task"}
+        </span>
+        {!acceptShareInviteError && (
+          <button
+            onClick={() =>
+              void signIn(undefined, { callbackUrl: window.location.href })
+            }
+            className="mt-6 h-10 w-full max-w-xs rounded-md bg-custom-black text-sm font-medium text-white hover:bg-custom-black/80"
+          >
+            Sign in
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (linkToken && !shareGrant && openShareLinkError) {
+    const needsPassword =
+      openShareLinkError.data?.code === "UNAUTHORIZED" ||
+      openShareLinkError.data?.code === "TOO_MANY_REQUESTS";
+    return (
+      <div className="flex min-h-screen w-full flex-col items-center justify-center">
+        <span className="max-w-[80%] text-center text-2xl font-medium">
+          {needsPassword
+            ? "This task is password protected"
+            : openShareLinkError.message}
+        </span>
+        {needsPassword && (
+          <form
+            onSubmit={submitLinkPassword}
+            className="mt-6 flex w-full max-w-xs flex-col gap-2"
+          >
+            <input
+              type="password"
+              autoFocus
+              value={linkPassword}
+              onChange={(e) => setLinkPassword(e.target.value)}
+              placeholder="Password"
+              aria-label="Password"
+              className="h-10 rounded-md border border-gray-300 px-3 text-sm focus:border-custom-dark-orange focus:outline-none focus:ring-1 focus:ring-custom-dark-orange"
+            />
+            {(openShareLinkError.message === "Wrong password" ||
+              openShareLinkError.data?.code === "TOO_MANY_REQUESTS") && (
+              <span className="text-sm text-red-600">
+                {openShareLinkError.message}
+              </span>
+            )}
+            <button
+              type="submit"
+              disabled={!linkPassword || isOpeningShareLink}
+              className="h-10 rounded-md bg-custom-black text-sm font-medium text-white hover:bg-custom-black/80 disabled:opacity-50"
+            >
+              Open task
+            </button>
+          </form>
+        )}
+      </div>
+    );
+  }
+
+  if (
+    !isLoading &&
+    (!video ||
+      (!video.video_url && !video.fileDeletedAt && !video.shareLink?.hideVideo))
+  ) {
     return (
       <div className="flex min-h-screen w-full flex-col items-center justify-center">
         <span className="max-w-[80%] text-center text-2xl font-medium">
@@ -115,6 +314,15 @@ const VideoList: NextPage = () => {
         <meta property="og:image:type" content="image/png" />
         <meta property="og:image:width" content="1200" />
         <meta property="og:image:height" content="600" />
+        {/* Lets docs and chat apps show the player inline, see `/api/oembed` */}
+        {oEmbed && (
+          <link
+            rel="alternate"
+            type="application/json+oembed"
+            href={oEmbed.href}
+            title={oEmbed.title}
+          />
+        )}
         <meta
           name="viewport"
           content="width=device-width, initial-scale=1, maximum-scale=1, user-scalable=no, viewport-fit=cover"
@@ -141,7 +349,7 @@ const VideoList: NextPage = () => {
               </Link>
             </div>
             <div className="flex items-center justify-center">
-              {video && video.userId === session?.user.id ? (
+              {video?.canManage ? (
                 <>
                   <VideoMoreMenu video={video} />
                   <ShareModal video={video} />
@@ -212,12 +420,26 @@ const VideoList: NextPage = () => {
                   </p>
                 </div>
               </div>
-            ) : video?.video_url ? (
+            ) : video?.shareLink?.hideVideo ? null : video?.video_url ? (
               <div className="aspect-video h-full md:max-h-[60dvh] w-full md:rounded-xl md:shadow-2xl md:overflow-hidden bg-black">
                 <VideoPlayer
                   video_url={video.video_url}
+                  sources={video.sources}
                   thumbnailUrl={video.thumbnailUrl}
+                  storyboardUrl={video.storyboardUrl}
+                  captionsUrl={video.captionsUrl}
                   className="md:max-h-none h-full w-full"
+                  playerRef={playerRef}
+                  markers={timelineMarkers}
+                  onReact={(emoji, time) =>
+                    reactMutation.mutate({
+                      videoId: video.id,
+                      anonymousId: getAnonymousViewerId(),
+                      shareGrant: viewerShareGrant,
+                      emoji,
+                      timestamp: time,
+                    })
+                  }
                 />
               </div>
             ) : null}
@@ -264,19 +486,37 @@ const VideoList: NextPage = () => {
             </div>
 
             {/* AI Analysis Section */}
-            {video ? (
+            {video?.shareLink?.hideAnalysis ? null : video ? (
               <VideoAnalysis
                 videoId={video.id}
-                initialAnalysis={video.aiAnalysis}
+                videoUrl={video.video_url}
+                onSeek={video.video_url ? seekTo : undefined}
+                initialRevisions={video.analysisRevisions}
+                initialCurrentRevisionId={video.currentRevisionId}
+                initialAnalysisJobId={video.analysisJobs[0]?.id}
                 initialGeneratedAt={video.aiAnalysisGeneratedAt}
                 initialSolved={video.solved}
-                isOwner={video.userId === session?.user.id}
+                isOwner={video.canEdit}
+                shareGrant={video.shareLink ? shareGrant : undefined}
               />
             ) : (
               <div className="mt-6 mr-5">
                 <div className="h-[80px] w-full animate-pulse rounded-lg bg-slate-200"></div>
               </div>
             )}
+
+            {video && (
+              <TaskComments
+                videoId={video.id}
+                shareGrant={video.shareLink ? shareGrant : undefined}
+                onSeek={
+                  video.video_url && !video.shareLink?.hideVideo
+                    ? seekTo
+                    : undefined
+                }
+                getCurrentTime={() => playerRef.current?.currentTime ?? 0}
+              />
+            )}
           </div>
         </div>
       </main>
@@ -288,3 +528,35 @@ const VideoList: NextPage = () => {
 };
 
 export default VideoList;
+
+// Link unfurlers don't run scripts, so the oEmbed discovery link is rendered on the server
+export async function getServerSideProps({
+  params,
+}: GetServerSidePropsContext<{ videoId: string }>) {
+  const video = params
+    ? await prisma.video.findUnique({
+        where: { id: params.videoId },
+        select: {
+          id: true,
+          title: true,
+          sharing: true,
+          shareLinkExpiresAt: true,
+        },
+      })
+    : null;
+  if (!video || !canEmbedVideo(video)) {
+    return { props: { oEmbed: null } };
+  }
+
+  const appUrl = getAppUrl();
+  return {
+    props: {
+      oEmbed: {
+        href: `${appUrl}/api/oembed?format=json&url=${encodeURIComponent(
+          `${appUrl}/task/${video.id}`
+        )}`,
+        title: video.title,
+      },
+    },
+  };
+}
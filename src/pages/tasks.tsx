@@ -10,6 +10,15 @@ import ProfileMenu from "~/components/ProfileMenu";
 import NewVideoMenu from "~/components/NewVideoMenu";
 import VideoRecordModal from "~/components/VideoRecordModal";
 import VideoUploadModal from "~/components/VideoUploadModal";
+import PendingUploads from "~/components/PendingUploads";
+import TaskFilterBar from "~/components/TaskFilterBar";
+import FolderBar, { TASK_DRAG_TYPE } from "~/components/FolderBar";
+import TaskBulkActions from "~/components/TaskBulkActions";
+import {
+  TagChips,
+  VideoHoverPreview,
+  ViewCount,
+} from "~/components/VideoCard";
 import { useAtom } from "jotai";
 import uploadVideoModalOpen from "~/atoms/uploadVideoModalOpen";
 import recordVideoModalOpen from "~/atoms/recordVideoModalOpen";
@@ -18,10 +27,23 @@ import paywallAtom from "~/atoms/paywallAtom";
 import { usePostHog } from "posthog-js/react";
 import Image from "next/image";
 import { useSearchParams } from "next/navigation";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import logo from "~/assets/logo.png";
 
-import { getTasksCache, setTasksCache } from "~/utils/cacheUtils";
+import { MagnifyingGlassIcon } from "@radix-ui/react-icons";
+import {
+  getTasksCache,
+  searchTasksCache,
+  setTasksCache,
+} from "~/utils/cacheUtils";
+import {
+  hasTaskFilters,
+  isTaskFilterKey,
+  parseTaskFilters,
+  taskFiltersToQuery,
+  toTaskListInput,
+  type TaskFilters,
+} from "~/utils/taskFilters";
 
 const VideoList: NextPage = () => {
   const [, setRecordOpen] = useAtom(recordVideoModalOpen);
@@ -65,6 +87,123 @@ const VideoList: NextPage = () => {
   }, [data, dataUpdatedAt, session?.user?.id]);
 
   const videos = data?.pages.flatMap((page) => page.items) ?? [];
+
+  // Filters live in the URL so filtered lists can be bookmarked and shared; the unfiltered list
+  // above stays loaded for the cache and the task count
+  const filters = useMemo(() => parseTaskFilters(router.query), [router.query]);
+  const isFiltering = hasTaskFilters(filters);
+  const setFilters = (next: TaskFilters) => {
+    setSelectedIds([]);
+    const query = Object.fromEntries(
+      Object.entries(router.query).filter(([key]) => !isTaskFilterKey(key))
+    );
+    void router.replace(
+      { pathname: router.pathname, query: { ...query, ...taskFiltersToQuery(next) } },
+      undefined,
+      { shallow: true }
+    );
+  };
+  const {
+    data: filteredData,
+    isLoading: isFilteredLoading,
+    fetchNextPage: fetchNextFilteredPage,
+    hasNextPage: hasNextFilteredPage,
+    isFetchingNextPage: isFetchingNextFilteredPage,
+  } = api.video.getAll.useInfiniteQuery(
+    { limit: 20, ...toTaskListInput(filters) },
+    {
+      enabled: isFiltering,
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+      keepPreviousData: true,
+    }
+  );
+  const filteredVideos = isFiltering
+    ? filteredData?.pages.flatMap((page) => page.items) ?? []
+    : videos;
+
+  const [searchInput, setSearchInput] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+  const isSearching = searchQuery.length > 0;
+
+  // Matches from the cached list show right away and are replaced by the server's ranked results
+  const cachedMatches = useMemo(
+    () => (isSearching ? searchTasksCache(searchQuery, session?.user?.id) : []),
+    [isSearching, searchQuery, session?.user?.id]
+  );
+  const {
+    data: searchData,
+    isFetching: isSearchFetching,
+    fetchNextPage: fetchNextSearchPage,
+    hasNextPage: hasNextSearchPage,
+    isFetchingNextPage: isFetchingNextSearchPage,
+  } = api.video.search.useInfiniteQuery(
+    { query: searchQuery, limit: 20 },
+    {
+      enabled: isSearching && status === "authenticated",
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+      placeholderData: {
+        pages: [{ items: cachedMatches, nextCursor: undefined }],
+        pageParams: [undefined],
+      },
+    }
+  );
+  const searchResults = searchData?.pages.flatMap((page) => page.items) ?? [];
+  const listedVideos: ((typeof searchResults)[number] | (typeof videos)[number])[] =
+    isSearching ? searchResults : filteredVideos;
+  const isListLoading = isSearching
+    ? isSearchFetching && searchResults.length === 0
+    : isFiltering
+    ? isFilteredLoading
+    : isLoading;
+  const isFetchingNextListPage = isSearching
+    ? isFetchingNextSearchPage
+    : isFiltering
+    ? isFetchingNextFilteredPage
+    : isFetchingNextPage;
+  const hasNextListPage = isSearching
+    ? hasNextSearchPage
+    : isFiltering
+    ? hasNextFilteredPage
+    : hasNextPage;
+  const fetchNextListPage = isSearching
+    ? fetchNextSearchPage
+    : isFiltering
+    ? fetchNextFilteredPage
+    : fetchNextPage;
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const toggleSelected = (videoId: string) =>
+    setSelectedIds((ids) =>
+      ids.includes(videoId)
+        ? ids.filter((id) => id !== videoId)
+        : [...ids, videoId]
+    );
+  const selectedVideos = listedVideos.filter((video) =>
+    selectedIds.includes(video.id)
+  );
+
+  const onLibraryChanged = () => {
+    void utils.video.getAll.invalidate();
+    void utils.video.search.invalidate();
+    void utils.library.getFolders.invalidate();
+  };
+  const moveVideosMutation = api.library.moveVideos.useMutation({
+    onSettled: onLibraryChanged,
+    onError: (err) => console.error(err.message),
+  });
+  const tagVideosMutation = api.library.tagVideos.useMutation({
+    onSettled: onLibraryChanged,
+    onError: (err) => console.error(err.message),
+  });
+  const moveVideos = (videoIds: string[], folderId: string | null) =>
+    moveVideosMutation.mutate({ videoIds, folderId });
+  const tagVideos = (videoIds: string[], tagId: string, tagged: boolean) =>
+    tagVideosMutation.mutate({ videoIds, tagId, tagged });
+
   const posthog = usePostHog();
   const searchParams = useSearchParams();
   const [closeWindow, setCloseWindow] = useState<boolean>(false);
@@ -194,6 +333,41 @@ const VideoList: NextPage = () => {
             )}
           </div>
         </div>
+        {status === "authenticated" && <PendingUploads />}
+        {status === "authenticated" &&
+          (videos.length > 0 || isSearching || isFiltering) && (
+          <div className="flex w-full flex-col gap-3 px-6 pt-4 md:w-[94%] md:max-w-6xl md:px-0">
+            <div className="relative max-w-md">
+              <MagnifyingGlassIcon className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search tasks, context and analyses"
+                aria-label="Search tasks"
+                className="w-full rounded-md border border-gray-300 py-2 pl-9 pr-3 text-sm focus:border-custom-dark-orange focus:outline-none focus:ring-1 focus:ring-custom-dark-orange"
+              />
+            </div>
+            {!isSearching && (
+              <>
+                <FolderBar
+                  activeFolder={filters.folder}
+                  onSelect={(folder) => setFilters({ ...filters, folder })}
+                  onMove={moveVideos}
+                />
+                <TaskFilterBar filters={filters} onChange={setFilters} />
+              </>
+            )}
+            {selectedVideos.length > 0 && (
+              <TaskBulkActions
+                selectedVideos={selectedVideos}
+                onMove={moveVideos}
+                onTag={tagVideos}
+                onSelectionChange={setSelectedIds}
+              />
+            )}
+          </div>
+        )}
         <div
           className="flex w-full grow items-start justify-center overflow-auto bg-custom-white pt-14"
           suppressHydrationWarning={true}
@@ -249,7 +423,35 @@ const VideoList: NextPage = () => {
             </>
           ) : (
             <>
-              {!isLoading && videos && videos?.length <= 0 ? (
+              {isSearching && !isListLoading && listedVideos.length === 0 ? (
+                <div className="flex items-center justify-center px-8">
+                  <div className="flex flex-col">
+                    <span className="text-lg font-semibold text-zinc-700">
+                      No tasks match &quot;{searchQuery}&quot;
+                    </span>
+                    <span className="mt-1 text-base text-zinc-500">
+                      Try fewer or different words.
+                    </span>
+                  </div>
+                </div>
+              ) : isFiltering &&
+                !isSearching &&
+                !isListLoading &&
+                listedVideos.length === 0 ? (
+                <div className="flex items-center justify-center px-8">
+                  <div className="flex flex-col">
+                    <span className="text-lg font-semibold text-zinc-700">
+                      No tasks match these filters
+                    </span>
+                    <button
+                      onClick={() => setFilters({})}
+                      className="mt-1 text-left text-base text-zinc-500 underline"
+                    >
+                      Clear filters
+                    </button>
+                  </div>
+                </div>
+              ) : !isLoading && videos && videos?.length <= 0 ? (
                 <div className="flex items-center justify-center px-8">
                   <div className="flex flex-col">
                     <span className="text-lg font-semibold text-zinc-700">
@@ -277,21 +479,29 @@ const VideoList: NextPage = () => {
                 </div>
               ) : (
                 <div className="flex-start grid w-full max-w-[1300px] grid-cols-[repeat(auto-fill,250px)] flex-row flex-wrap items-center justify-center gap-14 px-4 pb-16">
-                  {videos &&
-                    videos.map(
-                      ({ title, id, createdAt, thumbnailUrl, fileDeletedAt }) => (
-                        <VideoCard
-                          title={title}
-                          id={id}
-                          createdAt={createdAt}
-                          thumbnailUrl={thumbnailUrl}
-                          fileDeletedAt={fileDeletedAt}
-                          key={id}
-                        />
-                      )
-                    )}
-
-                  {isLoading || isFetchingNextPage ? (
+                  {listedVideos.map((video) => (
+                    <VideoCard
+                      title={video.title}
+                      id={video.id}
+                      createdAt={video.createdAt}
+                      thumbnailUrl={video.thumbnailUrl}
+                      previewUrl={video.previewUrl}
+                      fileDeletedAt={video.fileDeletedAt}
+                      snippet={"rank" in video ? video.snippet : undefined}
+                      tags={video.tags}
+                      views={video._count.views}
+                      selected={selectedIds.includes(video.id)}
+                      isSelecting={selectedIds.length > 0}
+                      onToggleSelected={() => toggleSelected(video.id)}
+                      onTagSelected={(tag) => setFilters({ ...filters, tag })}
+                      dragVideoIds={
+                        selectedIds.includes(video.id) ? selectedIds : [video.id]
+                      }
+                      key={video.id}
+                    />
+                  ))}
+
+                  {isListLoading || isFetchingNextListPage ? (
                     <>
                       <VideoCardSkeleton />
                       <VideoCardSkeleton />
@@ -304,14 +514,14 @@ const VideoList: NextPage = () => {
                     </>
                   ) : null}
 
-                  {!isLoading && hasNextPage && (
+                  {!isListLoading && hasNextListPage && (
                     <div className="col-span-full flex w-full items-center justify-center py-4">
                       <button
-                        onClick={() => void fetchNextPage()}
-                        disabled={isFetchingNextPage}
+                        onClick={() => void fetchNextListPage()}
+                        disabled={isFetchingNextListPage}
                         className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
                       >
-                        {isFetchingNextPage ? "Loading..." : "Load More"}
+                        {isFetchingNextListPage ? "Loading..." : "Load More"}
                       </button>
                     </div>
                   )}
@@ -329,8 +539,20 @@ interface VideoCardProps {
   title: string;
   id: string;
   thumbnailUrl: string;
+  previewUrl?: string | null;
   createdAt: Date;
   fileDeletedAt?: Date | null;
+  // Why the task matched a search, with the matching words highlighted
+  snippet?: { text: string; highlight: boolean }[];
+  tags: { id: string; name: string; color: string }[];
+  views: number;
+  selected: boolean;
+  // Checkboxes stay visible on every card while any task is selected
+  isSelecting: boolean;
+  onToggleSelected: () => void;
+  onTagSelected: (tagId: string) => void;
+  // The tasks moved when this card is dropped on a folder: the selection if it's part of it
+  dragVideoIds: string[];
 }
 
 const VideoCardSkeleton = () => {
@@ -350,13 +572,36 @@ const VideoCard = ({
   id,
   createdAt,
   thumbnailUrl,
+  previewUrl,
   fileDeletedAt,
+  snippet,
+  tags,
+  views,
+  selected,
+  isSelecting,
+  onToggleSelected,
+  onTagSelected,
+  dragVideoIds,
 }: VideoCardProps) => {
   const [imgError, setImgError] = useState(!!fileDeletedAt);
+  const [isHovering, setIsHovering] = useState(false);
 
   return (
-    <Link href={`/task/${id}`}>
-      <div className="group h-[240px] w-[250px] cursor-pointer overflow-hidden rounded-lg border border-[#6c668533] bg-white transition-all hover:border-custom-dark-orange/50 hover:shadow-md">
+    <Link
+      href={`/task/${id}`}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(TASK_DRAG_TYPE, JSON.stringify(dragVideoIds));
+        e.dataTransfer.effectAllowed = "move";
+      }}
+    >
+      <div
+        onMouseEnter={() => setIsHovering(true)}
+        onMouseLeave={() => setIsHovering(false)}
+        className={`group h-[240px] w-[250px] cursor-pointer overflow-hidden rounded-lg border bg-white transition-all hover:border-custom-dark-orange/50 hover:shadow-md ${
+          selected ? "border-custom-dark-orange ring-2 ring-custom-dark-orange/40" : "border-[#6c668533]"
+        }`}
+      >
         <figure className="relative flex aspect-video w-full items-center justify-center overflow-hidden bg-slate-50">
           {!imgError && !fileDeletedAt ? (
             <Image
@@ -391,13 +636,44 @@ const VideoCard = ({
               )}
             </div>
           )}
+          {!fileDeletedAt && (
+            <VideoHoverPreview previewUrl={previewUrl} active={isHovering} />
+          )}
+          <input
+            type="checkbox"
+            checked={selected}
+            onClick={(e) => e.stopPropagation()}
+            onChange={onToggleSelected}
+            aria-label={`Select ${title}`}
+            className={`absolute left-2 top-2 h-4 w-4 cursor-pointer accent-custom-dark-orange ${
+              selected || isSelecting ? "" : "opacity-0 group-hover:opacity-100"
+            }`}
+          />
         </figure>
         <div className="m-4 flex flex-col">
           <span className="line-clamp-2 text-sm font-semibold text-[#0f0f0f]">
             {title}
           </span>
-          <span className="mt-2 text-xs text-[#606060]" suppressHydrationWarning>
+          {snippet?.length ? (
+            <span className="mt-1 line-clamp-2 text-xs text-[#606060]">
+              {snippet.map((part, index) =>
+                part.highlight ? (
+                  <mark key={index} className="bg-custom-dark-orange/20 text-inherit">
+                    {part.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{part.text}</span>
+                )
+              )}
+            </span>
+          ) : null}
+          <TagChips tags={tags} onSelect={onTagSelected} />
+          <span
+            className="mt-2 flex items-center gap-2 text-xs text-[#606060]"
+            suppressHydrationWarning
+          >
             {getTime(createdAt)}
+            <ViewCount views={views} />
           </span>
         </div>
       </div>
@@ -0,0 +1,457 @@
+import {
+  type AnalysisRevision,
+  type AnalysisRevisionKind,
+  type Prisma,
+  type PrismaClient,
+  type Video,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { type AnalysisProvider } from "~/server/analysisProvider";
+import { assertVideoAccess, type VideoAccess } from "~/server/authorization";
+import {
+  computerUsePlanSchema,
+  formatPlanErrors,
+  PLAN_MAX_STEPS,
+  type ComputerUsePlan,
+} from "~/utils/computerUsePlan";
+import { getRevisionChain } from "~/utils/revisions";
+import { extractTimestamps } from "~/utils/timestamps";
+
+export interface ParsedAnalysis {
+  title: string | null;
+  markdown: string;
+  plan: Prisma.JsonObject | null;
+}
+
+export interface ValidatedAnalysis extends Omit<ParsedAnalysis, "plan"> {
+  plan: ComputerUsePlan | null;
+  planErrors: string[];
+}
+
+const ANALYSIS_START_MARKERS = ["---ANALYSIS_START---", "---ANALYSIS_START"];
+const PLAN_SEPARATORS = [
+  "---COMPUTER_USE_PLAN---",
+  "---COMPUTER_USE_PLAN",
+  "Section 2: Computer Use Instructions (JSON)",
+];
+const MARKERS_TO_STRIP = [
+  /^---ANALYSIS_START---/i,
+  /^---ANALYSIS_START/i,
+  /^---ANALYSIS_END---/i,
+  /---ANALYSIS_END/i,
+  /^---/i,
+  /^TITLE:.*\n?/i,
+  /Section 1: User Analysis \(Markdown\)/i,
+  /Section 2: Computer Use Instructions \(JSON\)/i,
+];
+
+function parsePlanJson(text: string): Prisma.JsonObject | null {
+  let cleaned = text.trim();
+  // Remove markdown code fences if present
+  if (cleaned.startsWith("```")) {
+    cleaned = cleaned.replace(/^```(?:json)?\n?/, "").replace(/\n?```$/, "");
+  }
+
+  const firstBrace = cleaned.indexOf("{");
+  const lastBrace = cleaned.lastIndexOf("}");
+  if (firstBrace === -1 || lastBrace <= firstBrace) return null;
+
+  try {
+    const parsed = JSON.parse(cleaned.substring(firstBrace, lastBrace + 1)) as unknown;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as Prisma.JsonObject;
+    }
+  } catch (e) {
+    console.error("Failed to parse computer use plan", e);
+  }
+  return null;
+}
+
+/**
+ * Splits a raw model response into its title, markdown body and computer use plan.
+ *
+ * The plan separator is frequently dropped by the model, so when it is missing we fall back to the
+ * last fenced JSON block that looks like a plan (has a `steps` array).
+ */
+export function parseAnalysisResponse(rawResponse: string): ParsedAnalysis {
+  let title: string | null = null;
+  let body = rawResponse;
+
+  const startMarker = ANALYSIS_START_MARKERS.find((marker) =>
+    rawResponse.includes(marker)
+  );
+  if (startMarker) {
+    const parts = rawResponse.split(startMarker);
+    const titleMatch = (parts[0] ?? "").match(/TITLE:\s*(.*)/i);
+    if (titleMatch?.[1]) title = titleMatch[1].trim();
+    body = parts.slice(1).join(startMarker);
+  } else {
+    const titleMatch = rawResponse.match(/TITLE:\s*(.*)/i);
+    if (titleMatch?.[1]) {
+      title = titleMatch[1].trim();
+      body = rawResponse.replace(/TITLE:.*\n?/i, "");
+    }
+  }
+
+  let markdown = body;
+  let plan: Prisma.JsonObject | null = null;
+
+  const separator = PLAN_SEPARATORS.find((sep) => body.includes(sep));
+  if (separator) {
+    const parts = body.split(separator);
+    markdown = parts[0] ?? "";
+    plan = parsePlanJson(parts.slice(1).join(separator));
+  } else {
+    const fencedBlocks = [...body.matchAll(/```[\w-]*\n([\s\S]*?)\n?```/g)];
+    for (const block of fencedBlocks.reverse()) {
+      if (!block[1]?.trim().startsWith("{")) continue;
+      const candidate = parsePlanJson(block[1]);
+      if (candidate && Array.isArray(candidate.steps)) {
+        plan = candidate;
+        markdown = body.replace(block[0], "");
+        break;
+      }
+    }
+  }
+
+  markdown = markdown.trim();
+  for (const marker of MARKERS_TO_STRIP) {
+    markdown = markdown.replace(marker, "").trim();
+  }
+
+  return { title, markdown, plan };
+}
+
+/**
+ * Returns the markdown of a response that is still streaming in. Anything after the plan separator
+ * is ignored since the plan can't be parsed until it is complete.
+ */
+export function parsePartialAnalysis(rawResponse: string) {
+  const separatorIndexes = PLAN_SEPARATORS.map((sep) => rawResponse.indexOf(sep)).filter(
+    (index) => index !== -1
+  );
+  const end = separatorIndexes.length > 0 ? Math.min(...separatorIndexes) : rawResponse.length;
+  return parseAnalysisResponse(rawResponse.slice(0, end)).markdown;
+}
+
+const validatePlan = (plan: Prisma.JsonObject | null) => {
+  if (!plan) {
+    return { plan: null, errors: ["The response did not include a computer use plan"] };
+  }
+  const result = computerUsePlanSchema.safeParse(plan);
+  return result.success
+    ? { plan: result.data, errors: [] }
+    : { plan: null, errors: formatPlanErrors(result.error) };
+};
+
+const buildPlanRepairPrompt = (parsed: ParsedAnalysis, errors: string[]) =>
+  `The computer use plan for the analysis below does not match the required format.
+
+Errors:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Analysis:
+${parsed.markdown}
+
+Plan:
+${parsed.plan ? JSON.stringify(parsed.plan, null, 2) : "(missing)"}
+
+Return only the corrected plan as a valid JSON object, without markdown code blocks, in this format:
+{
+  "task_description": "Brief description of the task",
+  "start_url": "URL of the page the task starts on, if visible in the recording",
+  "steps": [
+    {
+      "action": "click" | "type" | "scroll" | "wait",
+      "coordinate": [x, y], // Required for click. Based on a 1024x768 resolution grid.
+      "text": "...", // Required for type
+      "description": "Explanation of the step",
+      "element_description": "Visual description of the element to interact with"
+    }
+  ]
+}`;
+
+/**
+ * Validates the plan in a model response against `computerUsePlanSchema`. A missing or invalid plan
+ * gets one repair request; if that still doesn't validate, no plan is stored and the errors are kept
+ * on the revision so the UI can show them.
+ */
+export async function validateAnalysisPlan(
+  parsed: ParsedAnalysis,
+  {
+    provider,
+    cachedContext,
+    signal,
+    repair = true,
+  }: {
+    provider: AnalysisProvider;
+    cachedContext?: string | null;
+    signal?: AbortSignal;
+    repair?: boolean;
+  }
+): Promise<ValidatedAnalysis> {
+  const result = validatePlan(parsed.plan);
+  if (result.errors.length === 0 || !repair) {
+    return { ...parsed, plan: result.plan, planErrors: result.errors };
+  }
+
+  try {
+    const response = await provider.generate({
+      prompt: buildPlanRepairPrompt(parsed, result.errors),
+      cachedContext,
+      signal,
+    });
+    const repaired = validatePlan(parsePlanJson(response));
+    return { ...parsed, plan: repaired.plan, planErrors: repaired.errors };
+  } catch (error) {
+    console.error("Failed to repair computer use plan:", error);
+    return { ...parsed, plan: null, planErrors: result.errors };
+  }
+}
+
+/** Returns the plan of the most recent revision that has one. */
+export function getLatestPlan(
+  revisions: Pick<AnalysisRevision, "plan">[]
+): Prisma.JsonValue | null {
+  for (let i = revisions.length - 1; i >= 0; i--) {
+    const plan = revisions[i]?.plan;
+    if (plan) return plan;
+  }
+  return null;
+}
+
+/**
+ * Flattens revisions into the markdown shown to users and indexed on `Video.aiAnalysis`. Each
+ * refinement is rendered under its prompt, mirroring the layout of the analysis page.
+ */
+export function renderAnalysisMarkdown(
+  revisions: Pick<AnalysisRevision, "kind" | "prompt" | "markdown" | "createdAt">[]
+) {
+  return revisions
+    // Plan edits have no markdown of their own
+    .filter((revision) => revision.kind !== "plan_edit")
+    .map((revision, index) => {
+      if (index === 0 && revision.kind === "initial") return revision.markdown;
+
+      const timestamp = revision.createdAt.toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+      });
+      const header =
+        revision.kind === "screencast"
+          ? `### Screencast Update (${timestamp})`
+          : `### Refined Analysis (${timestamp})`;
+      const promptBlock = revision.prompt
+        ? `> **User Refinement**\n> ${revision.prompt.replace(/\n/g, "\n> ")}\n\n`
+        : "";
+
+      return `${promptBlock}${header}\n\n${revision.markdown}`;
+    })
+    .join("\n\n---\n\n");
+}
+
+/** Builds the "Previous Analysis" context passed to the model when refining. */
+export function formatRevisionsForPrompt(
+  revisions: Pick<
+    AnalysisRevision,
+    "kind" | "prompt" | "markdown" | "plan" | "createdAt"
+  >[]
+) {
+  if (revisions.length === 0) return "No previous analysis.";
+
+  const plan = getLatestPlan(revisions);
+  const markdown = renderAnalysisMarkdown(revisions);
+
+  return plan
+    ? `${markdown}\n\nCurrent Computer Use Plan (JSON):\n${JSON.stringify(plan, null, 2)}`
+    : markdown;
+}
+
+/**
+ * Prompt for analyzing the original recording, or for refining the analysis when the user asks a
+ * follow-up question.
+ */
+export function buildVideoAnalysisPrompt({
+  userContext,
+  previousAnalysis,
+  refinementPrompt,
+  transcript,
+}: {
+  userContext: string | null;
+  previousAnalysis: string;
+  refinementPrompt?: string;
+  // The recording's narration as `[m:ss] text` lines, see `formatTranscriptForPrompt`
+  transcript?: string | null;
+}) {
+  return refinementPrompt 
+              ? `You are an AI problem solving and automation expert analyzing a screen recording, the subsequent analysis, and the user's follow up request.
+
+              User Refinement Request:
+              ${refinementPrompt}
+
+              Please provide a refined analysis and updated response using the following context and the user's specific request. 
+              
+              User Context:
+              ${userContext ?? "None"}
+
+              Transcript of the User's Narration:
+              ${transcript || "None"}
+
+              Previous Analysis:
+              ${previousAnalysis}
+              
+              Maintain this format:
+              TITLE: [A 5-word or less descriptive title for the task]
+              ---ANALYSIS_START---
+              1. User Analysis (Markdown) - Provide the new insights, answers to follow-up questions, or changed instructions. IMPORTANT: If the user requests code or if the previous code needs updating, YOU MUST PROVIDE THE FULL UPDATED CODE SNIPPETS. Do not just describe the changes; show the actual code. Refer to moments in the recording as [mm:ss] timestamps.
+              2. "---COMPUTER_USE_PLAN---" separator
+              3. Computer Use Instructions (JSON) - Provide the FULL, complete, and updated JSON plan that incorporates all changes. This replaces the previous plan.`
+              : 
+              
+              `You are an AI problem solving and automation expert analyzing a screen recording. The user is showing you a task they want automated or a problem they want resolved.
+
+              User Context:
+              ${userContext ?? "None"}
+
+              Transcript of the User's Narration:
+              ${transcript || "None"}
+
+              Please analyze this video and provide your response in the following format:
+
+              TITLE: [A 5-word or less descriptive title for the task]
+
+              ---ANALYSIS_START---
+
+              Section 1: User Analysis (Markdown)
+              1. **Code Example**: If applicable, provide code snippets with clear instructions on where to use them
+              2. **Task Summary**: A clear description of what the user is trying to accomplish
+              3. **Automation Approach**: How this task could be automated (e.g., using browser automation, API calls, scripts, etc.)
+              4. **Implementation Steps**: Step-by-step instructions for implementing the automation
+              5. **Tools/Technologies**: List any tools, libraries, or services that would be helpful
+              6. **Observed Steps**: A numbered list of the steps the user takes in the recording, each starting with when it happens as [mm:ss], e.g. "1. [00:42] Opens the billing settings"
+
+              Verify that the output of Section 1 is valid Markdown.
+
+              ---COMPUTER_USE_PLAN---
+
+              Section 2: Computer Use Instructions (JSON)
+              Provide a valid JSON object immediately following the separator. Do not include markdown code blocks.
+              The JSON should contain a step-by-step plan for a Computer Use agent to replicate the workflow shown in the video, in at most ${PLAN_MAX_STEPS} steps.
+              
+              Format:
+              {
+                "task_description": "Brief description of the task",
+                "start_url": "URL of the page the task starts on, if visible in the recording",
+                "steps": [
+                  {
+                    "action": "click" | "type" | "scroll" | "wait",
+                    "coordinate": [x, y], // Estimate coordinates based on a 1024x768 resolution grid.
+                    "text": "...", // For type actions
+                    "description": "Explanation of the step",
+                    "element_description": "Visual description of the element to interact with",
+                    "timestamp": "mm:ss" // When the step happens in the recording
+                  }
+                ]
+              }`;
+}
+
+/**
+ * Loads a video for analysis, checks the caller has `access` to it and resolves the revision chain
+ * the new analysis builds on (`parentRevisionId`, or the current revision when omitted). Anything
+ * that writes revisions needs `edit`; reading the analysis only needs `view`.
+ */
+export async function loadVideoForAnalysis(
+  prisma: PrismaClient,
+  {
+    videoId,
+    userId,
+    parentRevisionId,
+    access,
+  }: {
+    videoId: string;
+    userId?: string;
+    parentRevisionId?: string;
+    access: VideoAccess;
+  }
+) {
+  const video = await prisma.video.findUnique({
+    where: { id: videoId },
+    include: {
+      analysisRevisions: {
+        orderBy: { createdAt: "asc" },
+      },
+      transcript: true,
+    },
+  });
+
+  if (!video) {
+    throw new TRPCError({ code: "NOT_FOUND" });
+  }
+
+  await assertVideoAccess(prisma, video, userId, access);
+
+  const headId = parentRevisionId ?? video.currentRevisionId;
+  if (headId && !video.analysisRevisions.some((r) => r.id === headId)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Revision not found" });
+  }
+
+  return {
+    video,
+    activeRevisions: getRevisionChain(video.analysisRevisions, headId),
+  };
+}
+
+/**
+ * Stores a model response as a new revision on top of `parentRevisions` (or as a new root when
+ * empty), makes it current and refreshes the rendered `Video.aiAnalysis`.
+ */
+export async function saveAnalysisRevision(
+  prisma: PrismaClient,
+  {
+    video,
+    parentRevisions,
+    kind,
+    prompt,
+    parsed,
+    model,
+    incomplete = false,
+  }: {
+    video: Video;
+    parentRevisions: AnalysisRevision[];
+    kind: AnalysisRevisionKind;
+    prompt?: string;
+    parsed: ValidatedAnalysis;
+    model: string;
+    incomplete?: boolean;
+  }
+) {
+  const revision = await prisma.analysisRevision.create({
+    data: {
+      videoId: video.id,
+      parentId: parentRevisions[parentRevisions.length - 1]?.id ?? null,
+      kind,
+      prompt,
+      markdown: parsed.markdown,
+      plan: parsed.plan ?? undefined,
+      planErrors: parsed.planErrors,
+      timestamps: extractTimestamps(parsed.markdown),
+      model,
+      incomplete,
+    },
+  });
+
+  const updatedVideo = await prisma.video.update({
+    where: { id: video.id },
+    data: {
+      // Only analysis prompts ask for a title
+      title: kind === "screencast" || kind === "plan_edit" ? undefined : parsed.title ?? undefined,
+      currentRevisionId: revision.id,
+      aiAnalysis: renderAnalysisMarkdown([...parentRevisions, revision]),
+      aiAnalysisGeneratedAt: revision.createdAt,
+    },
+  });
+
+  return { revision, generatedAt: updatedVideo.aiAnalysisGeneratedAt };
+}
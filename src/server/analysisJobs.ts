@@ -0,0 +1,251 @@
+import { type S3 } from "@aws-sdk/client-s3";
+import {
+  type AnalysisJob,
+  type AnalysisJobStatus,
+  type PrismaClient,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import {
+  getAnalysisProvider,
+  getOrCreateVideoContext,
+} from "~/server/analysisProvider";
+import {
+  buildVideoAnalysisPrompt,
+  formatRevisionsForPrompt,
+  parseAnalysisResponse,
+  parsePartialAnalysis,
+  saveAnalysisRevision,
+  validateAnalysisPlan,
+} from "~/server/analysis";
+import { getTranscriptForPrompt } from "~/server/transcription";
+import { getRevisionChain } from "~/utils/revisions";
+
+export const ANALYSIS_JOB_MAX_ATTEMPTS = 3;
+// Longest a single attempt may run before it is abandoned and retried
+export const ANALYSIS_JOB_TIMEOUT_MS = 10 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const PARTIAL_MARKDOWN_INTERVAL_MS = 2000;
+
+export const ACTIVE_ANALYSIS_JOB_STATUSES: AnalysisJobStatus[] = [
+  "queued",
+  "uploading",
+  "processing",
+  "generating",
+];
+const RUNNING_ANALYSIS_JOB_STATUSES: AnalysisJobStatus[] = [
+  "uploading",
+  "processing",
+  "generating",
+];
+
+/**
+ * Queues an analysis of a video. A job that is already queued or running for the same request is
+ * returned instead of starting a second one; one for a different request fails with a conflict, as
+ * the two would race to become the video's analysis.
+ */
+export async function enqueueAnalysisJob(
+  // Also takes a transaction client, so jobs can be queued along with other writes
+  prisma: Pick<PrismaClient, "analysisJob">,
+  {
+    videoId,
+    refinementPrompt,
+    parentRevisionId,
+  }: { videoId: string; refinementPrompt?: string; parentRevisionId?: string }
+) {
+  const existing = await prisma.analysisJob.findFirst({
+    where: { videoId, status: { in: ACTIVE_ANALYSIS_JOB_STATUSES } },
+    orderBy: { createdAt: "desc" },
+  });
+  if (existing) {
+    if (
+      existing.refinementPrompt === (refinementPrompt ?? null) &&
+      existing.parentRevisionId === (parentRevisionId ?? null)
+    ) {
+      return existing;
+    }
+    throw new TRPCError({
+      code: "CONFLICT",
+      message:
+        "This video is already being analyzed. Try again once that analysis is done.",
+    });
+  }
+
+  return prisma.analysisJob.create({
+    data: { videoId, refinementPrompt, parentRevisionId },
+  });
+}
+
+/**
+ * Claims the next job that is due, taking a lease on it for `ANALYSIS_JOB_TIMEOUT_MS`. Running jobs
+ * whose lease has expired belonged to a worker that hung or died; they are picked up again, or
+ * failed once they are out of attempts.
+ */
+export async function claimNextAnalysisJob(
+  prisma: PrismaClient
+): Promise<AnalysisJob | null> {
+  for (;;) {
+    const now = new Date();
+    const candidate = await prisma.analysisJob.findFirst({
+      where: {
+        OR: [
+          { status: "queued", runAfter: { lte: now } },
+          {
+            status: { in: RUNNING_ANALYSIS_JOB_STATUSES },
+            lockedUntil: { lt: now },
+          },
+        ],
+      },
+      orderBy: { runAfter: "asc" },
+    });
+    if (!candidate) return null;
+
+    const timedOut = candidate.status !== "queued";
+    const outOfAttempts = candidate.attempts >= ANALYSIS_JOB_MAX_ATTEMPTS;
+
+    // Only claim the job if no other worker touched it since we read it
+    const { count } = await prisma.analysisJob.updateMany({
+      where: { id: candidate.id, updatedAt: candidate.updatedAt },
+      data:
+        timedOut && outOfAttempts
+          ? {
+              status: "failed",
+              error: "Analysis timed out",
+              lockedUntil: null,
+              finishedAt: now,
+            }
+          : {
+              status: "uploading",
+              attempts: { increment: 1 },
+              lockedUntil: new Date(now.getTime() + ANALYSIS_JOB_TIMEOUT_MS),
+              error: timedOut ? "Analysis timed out" : candidate.error,
+            },
+    });
+    if (count === 0 || (timedOut && outOfAttempts)) continue;
+
+    return prisma.analysisJob.findUnique({ where: { id: candidate.id } });
+  }
+}
+
+/** Runs a claimed job to completion, recording the outcome and scheduling a retry on failure. */
+export async function runAnalysisJob(
+  prisma: PrismaClient,
+  s3: S3,
+  job: AnalysisJob
+) {
+  const abortController = new AbortController();
+  const timeout = setTimeout(
+    () => abortController.abort(new Error("Analysis timed out")),
+    ANALYSIS_JOB_TIMEOUT_MS
+  );
+
+  const setStatus = (status: AnalysisJobStatus) =>
+    prisma.analysisJob.update({ where: { id: job.id }, data: { status } });
+
+  try {
+    const video = await prisma.video.findUniqueOrThrow({
+      where: { id: job.videoId },
+      include: {
+        analysisRevisions: {
+          orderBy: { createdAt: "asc" },
+        },
+        transcript: true,
+      },
+    });
+
+    const activeRevisions = job.parentRevisionId
+      ? getRevisionChain(video.analysisRevisions, job.parentRevisionId)
+      : [];
+    const isRefinement = !!job.refinementPrompt && activeRevisions.length > 0;
+
+    const provider = getAnalysisProvider();
+    const cachedContext = await getOrCreateVideoContext(
+      provider,
+      prisma,
+      s3,
+      video,
+      setStatus,
+      abortController.signal
+    );
+    await setStatus("generating");
+
+    const stream = provider.stream({
+      prompt: buildVideoAnalysisPrompt({
+        userContext: video.userContext,
+        previousAnalysis: formatRevisionsForPrompt(activeRevisions),
+        refinementPrompt: job.refinementPrompt ?? undefined,
+        transcript: getTranscriptForPrompt(video.transcript),
+      }),
+      cachedContext,
+      signal: abortController.signal,
+    });
+
+    let text = "";
+    let lastSavedAt = Date.now();
+    for await (const chunk of stream) {
+      text += chunk;
+      if (Date.now() - lastSavedAt > PARTIAL_MARKDOWN_INTERVAL_MS) {
+        lastSavedAt = Date.now();
+        await prisma.analysisJob.update({
+          where: { id: job.id },
+          data: { partialMarkdown: parsePartialAnalysis(text) },
+        });
+      }
+    }
+
+    if (!text.trim()) {
+      throw new Error("The model returned an empty response");
+    }
+
+    const { revision } = await saveAnalysisRevision(prisma, {
+      video,
+      parentRevisions: isRefinement ? activeRevisions : [],
+      kind: isRefinement ? "refinement" : "initial",
+      prompt: job.refinementPrompt ?? undefined,
+      parsed: await validateAnalysisPlan(parseAnalysisResponse(text), {
+        provider,
+        cachedContext,
+        signal: abortController.signal,
+      }),
+      model: provider.model,
+    });
+
+    return await prisma.analysisJob.update({
+      where: { id: job.id },
+      data: {
+        status: "done",
+        revisionId: revision.id,
+        partialMarkdown: null,
+        error: null,
+        lockedUntil: null,
+        finishedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error(`Analysis job ${job.id} failed:`, error);
+    const message =
+      error instanceof Error ? error.message : "Failed to analyze video";
+    const canRetry = job.attempts < ANALYSIS_JOB_MAX_ATTEMPTS;
+
+    return await prisma.analysisJob.update({
+      where: { id: job.id },
+      data: canRetry
+        ? {
+            status: "queued",
+            error: message,
+            partialMarkdown: null,
+            lockedUntil: null,
+            runAfter: new Date(
+              Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)
+            ),
+          }
+        : {
+            status: "failed",
+            error: message,
+            lockedUntil: null,
+            finishedAt: new Date(),
+          },
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
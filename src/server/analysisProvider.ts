@@ -0,0 +1,175 @@
+import { GetObjectCommand, type S3 } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { type PrismaClient, type Video } from "@prisma/client";
+import axios from "axios";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fakeAnalysisProvider } from "~/server/fakeAnalysisProvider";
+import { geminiProvider } from "~/server/gemini";
+
+export type AnalysisProgressStage = "uploading" | "processing";
+
+/** A video the provider has stored and finished processing, ready to be referenced in prompts. */
+export interface UploadedVideo {
+  name: string;
+  uri: string;
+  mimeType: string;
+}
+
+export type VideoInput =
+  | { type: "inline"; mimeType: string; data: string }
+  | { type: "file"; mimeType: string; uri: string };
+
+export interface GenerateRequest {
+  prompt: string;
+  // Sent alongside the prompt, e.g. a follow-up screencast
+  video?: VideoInput;
+  // Context created with `cacheContext`, usually holding the original recording
+  cachedContext?: string | null;
+  signal?: AbortSignal;
+}
+
+/**
+ * A multimodal model that can watch a recording and answer prompts about it. The analysis pipeline
+ * only talks to models through this interface so they can be swapped per request.
+ */
+export interface AnalysisProvider {
+  name: string;
+  // Stored on each revision as `AnalysisRevision.model`
+  model: string;
+  // Prefix of the names returned by `cacheContext`, to tell which provider a stored cache belongs to
+  contextNamePrefix: string;
+  /** Uploads a video file and waits until the provider has finished processing it. */
+  uploadVideo(
+    filePath: string,
+    options: {
+      mimeType: string;
+      displayName: string;
+      onProgress?: (stage: AnalysisProgressStage) => Promise<unknown>;
+      signal?: AbortSignal;
+    }
+  ): Promise<UploadedVideo>;
+  deleteVideo(video: UploadedVideo): Promise<void>;
+  /** Caches an uploaded video so repeated prompts don't resend it. Returns the context name. */
+  cacheContext(
+    video: UploadedVideo,
+    options: { displayName: string; ttlSeconds: number }
+  ): Promise<string | null>;
+  generate(request: GenerateRequest): Promise<string>;
+  /** Yields the response text as it is generated. */
+  stream(request: GenerateRequest): AsyncIterable<string>;
+}
+
+const providers = {
+  gemini: geminiProvider,
+  fake: fakeAnalysisProvider,
+} satisfies Record<string, AnalysisProvider>;
+
+export type AnalysisProviderName = keyof typeof providers;
+
+const isAnalysisProviderName = (name: string): name is AnalysisProviderName =>
+  name in providers;
+
+/**
+ * Returns the provider registered under `name`, falling back to `ANALYSIS_PROVIDER` and then Gemini.
+ * Set `ANALYSIS_PROVIDER=fake` to run the pipeline offline.
+ */
+export const getAnalysisProvider = (name?: string): AnalysisProvider => {
+  const requested = name ?? process.env.ANALYSIS_PROVIDER;
+  if (requested && isAnalysisProviderName(requested)) {
+    return providers[requested];
+  }
+  return providers.gemini;
+};
+
+const CONTEXT_TTL_SECONDS = 3600;
+
+/** The provider's cached context for a video's recording, or null when it has none that's valid. */
+export const getCachedVideoContext = (
+  provider: AnalysisProvider,
+  video: Pick<Video, "geminiCacheName" | "geminiCacheExpiresAt">
+) =>
+  // The cache columns predate other providers, so only reuse caches this provider created
+  video.geminiCacheName?.startsWith(provider.contextNamePrefix) &&
+  video.geminiCacheExpiresAt &&
+  video.geminiCacheExpiresAt > new Date()
+    ? video.geminiCacheName
+    : null;
+
+/**
+ * Returns the provider's cached context for a video's recording, uploading the recording from S3
+ * and caching it first when there is no valid cache yet.
+ */
+export async function getOrCreateVideoContext(
+  provider: AnalysisProvider,
+  prisma: PrismaClient,
+  s3: S3,
+  video: Video,
+  // Called as the video moves through the upload, for callers that report progress
+  onProgress?: (stage: AnalysisProgressStage) => Promise<unknown>,
+  // Cancels the download and upload, e.g. when a job times out
+  signal?: AbortSignal
+) {
+  const cachedContext = getCachedVideoContext(provider, video);
+  if (cachedContext) return cachedContext;
+
+  await onProgress?.("uploading");
+
+  // Get the video from S3
+  const getObjectCommand = new GetObjectCommand({
+    Bucket: process.env.AWS_BUCKET_NAME,
+    Key: video.userId + "/" + video.id,
+  });
+
+  const signedUrl = await getSignedUrl(s3, getObjectCommand, {
+    expiresIn: 3600,
+  });
+
+  // Download video to temporary file
+  const tempDir = os.tmpdir();
+  const tempFilePath = path.join(tempDir, `${video.id}-${Date.now()}-${Math.floor(Math.random() * 1000)}.webm`);
+
+  const response = await axios.get(signedUrl, {
+    responseType: "arraybuffer",
+    signal,
+  });
+
+  fs.writeFileSync(tempFilePath, new Uint8Array(response.data as ArrayBuffer));
+
+  let uploaded: UploadedVideo;
+  try {
+    uploaded = await provider.uploadVideo(tempFilePath, {
+      mimeType: "video/webm",
+      displayName: video.title,
+      onProgress,
+      signal,
+    });
+  } finally {
+    // Clean up temporary file
+    try {
+      if (fs.existsSync(tempFilePath)) fs.unlinkSync(tempFilePath);
+    } catch (e) {
+      console.error("Failed to cleanup temp file:", e);
+    }
+  }
+
+  // Note: We are NOT deleting the uploaded file as it backs the cache.
+  // It will eventually expire via retention policy.
+  const contextName = await provider.cacheContext(uploaded, {
+    displayName: video.title,
+    ttlSeconds: CONTEXT_TTL_SECONDS,
+  });
+
+  // Update DB with new cache info
+  await prisma.video.update({
+    where: { id: video.id },
+    data: {
+      geminiCacheName: contextName,
+      // Slightly less than the TTL to be safe
+      geminiCacheExpiresAt: new Date(Date.now() + (CONTEXT_TTL_SECONDS - 100) * 1000),
+    },
+  });
+
+  return contextName;
+}
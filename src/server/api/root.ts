@@ -1,6 +1,10 @@
 import { createTRPCRouter } from "~/server/api/trpc";
 import { videoRouter } from "~/server/api/routers/video";
 import { stripeRouter } from "~/server/api/routers/stripe";
+import { libraryRouter } from "~/server/api/routers/library";
+import { workspaceRouter } from "~/server/api/routers/workspace";
+import { commentRouter } from "~/server/api/routers/comment";
+import { analyticsRouter } from "~/server/api/routers/analytics";
 
 /**
  * This is the primary router for your server.
@@ -10,6 +14,10 @@ import { stripeRouter } from "~/server/api/routers/stripe";
 export const appRouter = createTRPCRouter({
   video: videoRouter,
   stripe: stripeRouter,
+  library: libraryRouter,
+  workspace: workspaceRouter,
+  comment: commentRouter,
+  analytics: analyticsRouter,
 });
 
 // export type definition of API
@@ -0,0 +1,208 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { type PrismaClient } from "@prisma/client";
+import { type Session } from "next-auth";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  publicProcedure,
+} from "~/server/api/trpc";
+import { findVideoWithAccess, hasVideoAccess } from "~/server/authorization";
+import { getShareLinkForGrant } from "~/server/shareLinks";
+import { REACTION_EMOJIS } from "~/utils/viewerAnalytics";
+
+// Keeps a single anonymous viewer from flooding a task with reactions
+const MAX_REACTIONS_PER_VIEWER = 50;
+
+// Watch-through at which a view counts as finished, leaving room for outros and rounding
+const COMPLETED_WATCH_THROUGH = 0.9;
+
+const viewerSchema = z.object({
+  videoId: z.string(),
+  // Random id the browser keeps for anonymous viewers; signed-in viewers are counted by account
+  anonymousId: z.string().min(8).max(64),
+  // From `video.openShareLink`, for people who opened the task with a share link
+  shareGrant: z.string().max(200).nullish(),
+});
+
+/** The video, if the viewer can see it directly or through a share link. */
+async function findViewableVideo(
+  prisma: PrismaClient,
+  userId: string | undefined,
+  { videoId, shareGrant }: { videoId: string; shareGrant?: string | null }
+) {
+  const video = await prisma.video.findUnique({ where: { id: videoId } });
+  if (!video) {
+    throw new TRPCError({ code: "NOT_FOUND" });
+  }
+  if (
+    !(await hasVideoAccess(prisma, video, userId, "view")) &&
+    !(await getShareLinkForGrant(prisma, shareGrant, video.id))
+  ) {
+    throw new TRPCError({ code: "FORBIDDEN" });
+  }
+  return video;
+}
+
+const getViewerKey = (
+  session: Session | null,
+  { anonymousId }: z.infer<typeof viewerSchema>
+) => (session ? `user:${session.user.id}` : `anon:${anonymousId}`);
+
+// Only the host is kept, and visits from the app itself count as direct
+const getReferrerHost = (
+  referrer: string | null | undefined,
+  appHost?: string
+) => {
+  if (!referrer) return null;
+  try {
+    const { host } = new URL(referrer);
+    return host && host !== appHost ? host : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Views and reactions of tasks, kept in our database so owners can see who watched their tasks. */
+export const analyticsRouter = createTRPCRouter({
+  trackView: publicProcedure
+    .input(
+      viewerSchema.extend({
+        // Sent with the first event of a page load, to count visits
+        isNewVisit: z.boolean().default(false),
+        referrer: z.string().max(2000).nullish(),
+        // Furthest point reached so far in this visit, from 0 to 1
+        watchThrough: z.number().min(0).max(1).default(0),
+      })
+    )
+    .mutation(async ({ ctx: { prisma, session, req }, input }) => {
+      const video = await findViewableVideo(prisma, session?.user.id, input);
+      // The uploader and editors watching their own task aren't viewers
+      if (await hasVideoAccess(prisma, video, session?.user.id, "edit")) {
+        return;
+      }
+      const viewerKey = getViewerKey(session, input);
+
+      const view = await prisma.videoView.upsert({
+        where: { videoId_viewerKey: { videoId: video.id, viewerKey } },
+        create: {
+          videoId: video.id,
+          viewerKey,
+          referrer: getReferrerHost(input.referrer, req.headers.host),
+          watchThrough: input.watchThrough,
+        },
+        update: input.isNewVisit ? { visits: { increment: 1 } } : {},
+      });
+      // Only ever moves forward, so rewatching the start doesn't lower it
+      if (input.watchThrough > view.watchThrough) {
+        await prisma.videoView.updateMany({
+          where: { id: view.id, watchThrough: { lt: input.watchThrough } },
+          data: { watchThrough: input.watchThrough },
+        });
+      }
+    }),
+  getStats: protectedProcedure
+    .input(z.object({ videoId: z.string() }))
+    .query(async ({ ctx: { prisma, session }, input }) => {
+      const video = await findVideoWithAccess(
+        prisma,
+        input.videoId,
+        session.user.id,
+        "edit"
+      );
+
+      const [totals, completedViewers, referrers, reactions] =
+        await Promise.all([
+          prisma.videoView.aggregate({
+            where: { videoId: video.id },
+            _count: { _all: true },
+            _sum: { visits: true },
+            _avg: { watchThrough: true },
+          }),
+          prisma.videoView.count({
+            where: {
+              videoId: video.id,
+              watchThrough: { gte: COMPLETED_WATCH_THROUGH },
+            },
+          }),
+          prisma.videoView.groupBy({
+            by: ["referrer"],
+            where: { videoId: video.id },
+            _count: { _all: true },
+            orderBy: { _count: { referrer: "desc" } },
+            take: 5,
+          }),
+          prisma.reaction.groupBy({
+            by: ["emoji"],
+            where: { videoId: video.id },
+            _count: { _all: true },
+          }),
+        ]);
+
+      return {
+        uniqueViewers: totals._count._all,
+        visits: totals._sum.visits ?? 0,
+        averageWatchThrough: totals._avg.watchThrough ?? 0,
+        completedViewers,
+        referrers: referrers.map((referrer) => ({
+          host: referrer.referrer,
+          viewers: referrer._count._all,
+        })),
+        reactions: reactions.map((reaction) => ({
+          emoji: reaction.emoji,
+          count: reaction._count._all,
+        })),
+      };
+    }),
+  getReactions: publicProcedure
+    .input(viewerSchema.omit({ anonymousId: true }))
+    .query(async ({ ctx: { prisma, session }, input }) => {
+      const video = await findViewableVideo(prisma, session?.user.id, input);
+
+      return prisma.reaction.findMany({
+        where: { videoId: video.id },
+        select: { id: true, emoji: true, timestamp: true },
+        orderBy: { timestamp: "asc" },
+      });
+    }),
+  react: publicProcedure
+    .input(
+      viewerSchema.extend({
+        emoji: z.enum(REACTION_EMOJIS),
+        timestamp: z.number().min(0),
+      })
+    )
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const video = await findViewableVideo(prisma, session?.user.id, input);
+      const viewerKey = getViewerKey(session, input);
+
+      const reactionCount = await prisma.reaction.count({
+        where: { videoId: video.id, viewerKey },
+      });
+      if (reactionCount >= MAX_REACTIONS_PER_VIEWER) {
+        throw new TRPCError({
+          code: "TOO_MANY_REQUESTS",
+          message: "You've reached the reaction limit for this task",
+        });
+      }
+
+      const reaction = await prisma.reaction.create({
+        data: {
+          videoId: video.id,
+          viewerKey,
+          emoji: input.emoji,
+          timestamp: input.timestamp,
+        },
+        select: { id: true, emoji: true, timestamp: true },
+      });
+
+      posthog?.capture({
+        distinctId: session?.user.id ?? viewerKey,
+        event: "react to video",
+        properties: { videoId: video.id, emoji: input.emoji },
+      });
+      void posthog?.shutdownAsync();
+
+      return reaction;
+    }),
+});
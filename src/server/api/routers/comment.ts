@@ -0,0 +1,261 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { type PrismaClient, type Video } from "@prisma/client";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  publicProcedure,
+} from "~/server/api/trpc";
+import {
+  assertVideoAccess,
+  findVideoWithAccess,
+  hasVideoAccess,
+} from "~/server/authorization";
+import { buildMentionMail, getAppUrl, getMailTransport } from "~/server/mail";
+import { getShareLinkForGrant } from "~/server/shareLinks";
+
+const userSelect = { id: true, name: true, image: true } as const;
+
+/** Who can be @mentioned on a video: the members of its workspace, or the owner of a personal one. */
+async function getMentionableUsers(
+  prisma: PrismaClient,
+  video: Pick<Video, "userId" | "workspaceId">
+) {
+  if (!video.workspaceId) {
+    return prisma.user.findMany({
+      where: { id: video.userId },
+      select: { ...userSelect, email: true },
+    });
+  }
+  const memberships = await prisma.membership.findMany({
+    where: { workspaceId: video.workspaceId },
+    include: { user: { select: { ...userSelect, email: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+  return memberships.map((membership) => membership.user);
+}
+
+async function findComment(prisma: PrismaClient, commentId: string) {
+  const comment = await prisma.comment.findUnique({
+    where: { id: commentId },
+    include: { video: true },
+  });
+  if (!comment) {
+    throw new TRPCError({ code: "NOT_FOUND" });
+  }
+  return comment;
+}
+
+/**
+ * Comments on tasks. Anyone who can see a task can read them; workspace members and people it was
+ * shared with as commenters can write them.
+ */
+export const commentRouter = createTRPCRouter({
+  list: publicProcedure
+    .input(
+      z.object({
+        videoId: z.string(),
+        // From `video.openShareLink`, for people who opened the task with a share link
+        shareGrant: z.string().max(200).nullish(),
+      })
+    )
+    .query(async ({ ctx: { prisma, session }, input }) => {
+      const video = await prisma.video.findUnique({
+        where: { id: input.videoId },
+      });
+      if (!video) {
+        throw new TRPCError({ code: "NOT_FOUND" });
+      }
+      const userId = session?.user.id;
+      if (
+        !(await hasVideoAccess(prisma, video, userId, "view")) &&
+        !(await getShareLinkForGrant(prisma, input.shareGrant, video.id))
+      ) {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+
+      const [comments, canComment, canModerate] = await Promise.all([
+        prisma.comment.findMany({
+          where: { videoId: video.id },
+          include: { user: { select: userSelect } },
+          orderBy: { createdAt: "asc" },
+        }),
+        hasVideoAccess(prisma, video, userId, "comment"),
+        hasVideoAccess(prisma, video, userId, "edit"),
+      ]);
+
+      // Names of the mentioned users, to highlight the mentions in comments
+      const mentionedUsers = await prisma.user.findMany({
+        where: {
+          id: { in: [...new Set(comments.flatMap((c) => c.mentionedUserIds))] },
+        },
+        select: { id: true, name: true },
+      });
+
+      // Replies whose comment is gone (its author deleted their account) are dropped too
+      const rootIds = new Set(
+        comments.filter((c) => !c.parentId).map((c) => c.id)
+      );
+      return {
+        comments: comments
+          .filter(
+            (comment) => !comment.parentId || rootIds.has(comment.parentId)
+          )
+          .map((comment) => ({
+            ...comment,
+            mentions: mentionedUsers.filter((user) =>
+              comment.mentionedUserIds.includes(user.id)
+            ),
+          })),
+        canComment,
+        // Resolving other people's comments takes edit access on the task
+        canModerate,
+      };
+    }),
+  getMentionableUsers: protectedProcedure
+    .input(z.object({ videoId: z.string() }))
+    .query(async ({ ctx: { prisma, session }, input }) => {
+      const video = await findVideoWithAccess(
+        prisma,
+        input.videoId,
+        session.user.id,
+        "comment"
+      );
+      const users = await getMentionableUsers(prisma, video);
+      return users.map(({ email: _email, ...user }) => user);
+    }),
+  create: protectedProcedure
+    .input(
+      z.object({
+        videoId: z.string(),
+        body: z.string().trim().min(1).max(5000),
+        timestamp: z.number().min(0).nullish(),
+        parentId: z.string().nullish(),
+        mentionedUserIds: z.array(z.string()).max(20).default([]),
+      })
+    )
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const video = await findVideoWithAccess(
+        prisma,
+        input.videoId,
+        session.user.id,
+        "comment"
+      );
+
+      let parentId: string | null = null;
+      if (input.parentId) {
+        const parent = await prisma.comment.findUnique({
+          where: { id: input.parentId },
+        });
+        if (!parent || parent.videoId !== video.id) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Comment not found",
+          });
+        }
+        // Threads are one level deep; replying to a reply continues its thread
+        parentId = parent.parentId ?? parent.id;
+      }
+
+      // Only people who can be mentioned are notified, and never the author
+      const mentionable = await getMentionableUsers(prisma, video);
+      const mentioned = mentionable.filter(
+        (user) =>
+          input.mentionedUserIds.includes(user.id) &&
+          user.id !== session.user.id
+      );
+
+      const comment = await prisma.comment.create({
+        data: {
+          videoId: video.id,
+          userId: session.user.id,
+          parentId,
+          body: input.body,
+          timestamp: input.timestamp,
+          mentionedUserIds: mentioned.map((user) => user.id),
+        },
+        include: { user: { select: userSelect } },
+      });
+
+      const transport = getMailTransport();
+      const url = `${getAppUrl()}/task/${video.id}`;
+      const authorName = session.user.name ?? session.user.email ?? "Someone";
+      const sent = await Promise.allSettled(
+        mentioned.flatMap((user) =>
+          user.email
+            ? [
+                transport.send(
+                  buildMentionMail({
+                    to: user.email,
+                    authorName,
+                    videoTitle: video.title,
+                    comment: input.body,
+                    url,
+                  })
+                ),
+              ]
+            : []
+        )
+      );
+      for (const result of sent) {
+        if (result.status === "rejected") {
+          console.error("Failed to send mention email:", result.reason);
+        }
+      }
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "create comment",
+        properties: {
+          videoId: video.id,
+          isReply: !!parentId,
+          hasTimestamp: input.timestamp != null,
+          mentions: mentioned.length,
+        },
+      });
+      void posthog?.shutdownAsync();
+
+      return comment;
+    }),
+  setResolved: protectedProcedure
+    .input(z.object({ commentId: z.string(), resolved: z.boolean() }))
+    .mutation(async ({ ctx: { prisma, session }, input }) => {
+      const comment = await findComment(prisma, input.commentId);
+      if (comment.parentId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only top-level comments can be resolved",
+        });
+      }
+      // Authors who have since lost access can't act on their comments anymore
+      await assertVideoAccess(
+        prisma,
+        comment.video,
+        session.user.id,
+        comment.userId === session.user.id ? "comment" : "edit"
+      );
+
+      return prisma.comment.update({
+        where: { id: comment.id },
+        data: input.resolved
+          ? { resolvedAt: new Date(), resolvedById: session.user.id }
+          : { resolvedAt: null, resolvedById: null },
+      });
+    }),
+  delete: protectedProcedure
+    .input(z.object({ commentId: z.string() }))
+    .mutation(async ({ ctx: { prisma, session }, input }) => {
+      const comment = await findComment(prisma, input.commentId);
+      await assertVideoAccess(
+        prisma,
+        comment.video,
+        session.user.id,
+        comment.userId === session.user.id ? "comment" : "manage"
+      );
+
+      await prisma.$transaction([
+        prisma.comment.deleteMany({ where: { parentId: comment.id } }),
+        prisma.comment.delete({ where: { id: comment.id } }),
+      ]);
+    }),
+});
@@ -0,0 +1,305 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { type Prisma, type PrismaClient } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import {
+  getActiveWorkspace,
+  libraryWhere,
+  roleAllows,
+  videoAccessWhere,
+} from "~/server/authorization";
+import { TAG_COLORS, type TagColor } from "~/utils/tags";
+
+const nameSchema = z.string().trim().min(1).max(60);
+const tagColorSchema = z.enum(
+  Object.keys(TAG_COLORS) as [TagColor, ...TagColor[]]
+);
+const videoIdsSchema = z.array(z.string()).min(1).max(100);
+
+/**
+ * The library the user is looking at: the folders and tags of their active workspace, or their own
+ * when they work in their personal library. Workspace viewers can see them but not change them.
+ */
+async function getLibrary(prisma: PrismaClient, userId: string) {
+  const workspace = await getActiveWorkspace(prisma, userId);
+  const workspaceId = workspace?.workspaceId ?? null;
+  const where: Prisma.FolderWhereInput & Prisma.TagWhereInput = workspaceId
+    ? { workspaceId }
+    : { userId, workspaceId: null };
+  return {
+    userId,
+    workspaceId,
+    where,
+    canEdit: !workspace || roleAllows(workspace.role, "edit"),
+  };
+}
+
+type Library = Awaited<ReturnType<typeof getLibrary>>;
+
+function assertCanEditLibrary(library: Library) {
+  if (!library.canEdit) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Viewers can't organize this workspace's tasks",
+    });
+  }
+}
+
+// The tasks of the library the user may file into folders and tag
+const editableVideosWhere = (library: Library): Prisma.VideoWhereInput => ({
+  AND: [
+    libraryWhere(library.userId, library.workspaceId),
+    videoAccessWhere(library.userId, "edit"),
+  ],
+});
+
+async function findLibraryFolder(
+  prisma: PrismaClient,
+  folderId: string,
+  library: Library
+) {
+  const folder = await prisma.folder.findFirst({
+    where: { id: folderId, ...library.where },
+  });
+  if (!folder) {
+    throw new TRPCError({ code: "FORBIDDEN" });
+  }
+  return folder;
+}
+
+async function findLibraryTag(
+  prisma: PrismaClient,
+  tagId: string,
+  library: Library
+) {
+  const tag = await prisma.tag.findFirst({
+    where: { id: tagId, ...library.where },
+  });
+  if (!tag) {
+    throw new TRPCError({ code: "FORBIDDEN" });
+  }
+  return tag;
+}
+
+// Names are unique per library, checked up front for a readable error instead of a constraint failure
+async function assertFolderNameFree(
+  prisma: PrismaClient,
+  library: Library,
+  name: string
+) {
+  const existing = await prisma.folder.findFirst({
+    where: { ...library.where, name },
+  });
+  if (existing) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `A folder named "${name}" already exists`,
+    });
+  }
+}
+
+async function assertTagNameFree(
+  prisma: PrismaClient,
+  library: Library,
+  name: string
+) {
+  const existing = await prisma.tag.findFirst({
+    where: { ...library.where, name },
+  });
+  if (existing) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `A tag named "${name}" already exists`,
+    });
+  }
+}
+
+/** Folders and tags that organize a task library, personal or of a workspace. */
+export const libraryRouter = createTRPCRouter({
+  getFolders: protectedProcedure.query(async ({ ctx: { prisma, session } }) => {
+    const library = await getLibrary(prisma, session.user.id);
+    return prisma.folder.findMany({
+      where: library.where,
+      orderBy: { name: "asc" },
+      include: { _count: { select: { videos: true } } },
+    });
+  }),
+  createFolder: protectedProcedure
+    .input(z.object({ name: nameSchema }))
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const library = await getLibrary(prisma, session.user.id);
+      assertCanEditLibrary(library);
+      await assertFolderNameFree(prisma, library, input.name);
+      const folder = await prisma.folder.create({
+        data: {
+          userId: session.user.id,
+          workspaceId: library.workspaceId,
+          name: input.name,
+        },
+      });
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "create folder",
+      });
+      void posthog?.shutdownAsync();
+
+      return folder;
+    }),
+  renameFolder: protectedProcedure
+    .input(z.object({ folderId: z.string(), name: nameSchema }))
+    .mutation(async ({ ctx: { prisma, session }, input }) => {
+      const library = await getLibrary(prisma, session.user.id);
+      assertCanEditLibrary(library);
+      const folder = await findLibraryFolder(prisma, input.folderId, library);
+      if (folder.name !== input.name) {
+        await assertFolderNameFree(prisma, library, input.name);
+      }
+      return prisma.folder.update({
+        where: { id: folder.id },
+        data: { name: input.name },
+      });
+    }),
+  // The folder's tasks stay in the library, outside of any folder
+  deleteFolder: protectedProcedure
+    .input(z.object({ folderId: z.string() }))
+    .mutation(async ({ ctx: { prisma, session }, input }) => {
+      const library = await getLibrary(prisma, session.user.id);
+      assertCanEditLibrary(library);
+      await findLibraryFolder(prisma, input.folderId, library);
+      await prisma.folder.delete({ where: { id: input.folderId } });
+      return { success: true };
+    }),
+  getTags: protectedProcedure.query(async ({ ctx: { prisma, session } }) => {
+    const library = await getLibrary(prisma, session.user.id);
+    return prisma.tag.findMany({
+      where: library.where,
+      orderBy: { name: "asc" },
+    });
+  }),
+  createTag: protectedProcedure
+    .input(z.object({ name: nameSchema, color: tagColorSchema.optional() }))
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const library = await getLibrary(prisma, session.user.id);
+      assertCanEditLibrary(library);
+      await assertTagNameFree(prisma, library, input.name);
+      const tag = await prisma.tag.create({
+        data: {
+          userId: session.user.id,
+          workspaceId: library.workspaceId,
+          name: input.name,
+          color: input.color,
+        },
+      });
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "create tag",
+      });
+      void posthog?.shutdownAsync();
+
+      return tag;
+    }),
+  updateTag: protectedProcedure
+    .input(
+      z.object({
+        tagId: z.string(),
+        name: nameSchema.optional(),
+        color: tagColorSchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx: { prisma, session }, input }) => {
+      const library = await getLibrary(prisma, session.user.id);
+      assertCanEditLibrary(library);
+      const tag = await findLibraryTag(prisma, input.tagId, library);
+      if (input.name && input.name !== tag.name) {
+        await assertTagNameFree(prisma, library, input.name);
+      }
+      return prisma.tag.update({
+        where: { id: tag.id },
+        data: { name: input.name, color: input.color },
+      });
+    }),
+  deleteTag: protectedProcedure
+    .input(z.object({ tagId: z.string() }))
+    .mutation(async ({ ctx: { prisma, session }, input }) => {
+      const library = await getLibrary(prisma, session.user.id);
+      assertCanEditLibrary(library);
+      await findLibraryTag(prisma, input.tagId, library);
+      await prisma.tag.delete({ where: { id: input.tagId } });
+      return { success: true };
+    }),
+  // Moves tasks into a folder, or out of their folder when `folderId` is null
+  moveVideos: protectedProcedure
+    .input(
+      z.object({ videoIds: videoIdsSchema, folderId: z.string().nullable() })
+    )
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const library = await getLibrary(prisma, session.user.id);
+      assertCanEditLibrary(library);
+      if (input.folderId) {
+        await findLibraryFolder(prisma, input.folderId, library);
+      }
+
+      // Tasks outside of the library or that the user can't edit are skipped rather than failing
+      // the whole move
+      const { count } = await prisma.video.updateMany({
+        where: { id: { in: input.videoIds }, ...editableVideosWhere(library) },
+        data: { folderId: input.folderId },
+      });
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "move videos to folder",
+        properties: {
+          videoAmount: count,
+          removedFromFolder: !input.folderId,
+        },
+      });
+      void posthog?.shutdownAsync();
+
+      return { count };
+    }),
+  // Adds a tag to tasks, or removes it when `tagged` is false
+  tagVideos: protectedProcedure
+    .input(
+      z.object({
+        videoIds: videoIdsSchema,
+        tagId: z.string(),
+        tagged: z.boolean(),
+      })
+    )
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const library = await getLibrary(prisma, session.user.id);
+      assertCanEditLibrary(library);
+      await findLibraryTag(prisma, input.tagId, library);
+      const videos = await prisma.video.findMany({
+        where: { id: { in: input.videoIds }, ...editableVideosWhere(library) },
+        select: { id: true },
+      });
+
+      await prisma.$transaction(
+        videos.map((video) =>
+          prisma.video.update({
+            where: { id: video.id },
+            data: {
+              tags: input.tagged
+                ? { connect: { id: input.tagId } }
+                : { disconnect: { id: input.tagId } },
+            },
+          })
+        )
+      );
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: input.tagged ? "tag videos" : "untag videos",
+        properties: {
+          videoAmount: videos.length,
+        },
+      });
+      void posthog?.shutdownAsync();
+
+      return { count: videos.length };
+    }),
+});
@@ -10,143 +10,408 @@ import {
   DeleteObjectCommand,
   GetObjectCommand,
   PutObjectCommand,
+  UploadPartCommand,
   type S3,
 } from "@aws-sdk/client-s3";
-import { type PrismaClient, type Video } from "@prisma/client";
 import "~/dotenv-config";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { TRPCError } from "@trpc/server";
-import { genAI } from "~/server/gemini";
-import axios from "axios";
+import {
+  getAnalysisProvider,
+  getOrCreateVideoContext,
+  type UploadedVideo,
+  type VideoInput,
+} from "~/server/analysisProvider";
+import {
+  formatRevisionsForPrompt,
+  getLatestPlan,
+  loadVideoForAnalysis,
+  parseAnalysisResponse,
+  renderAnalysisMarkdown,
+  saveAnalysisRevision,
+  validateAnalysisPlan,
+} from "~/server/analysis";
+import { getRevisionChain } from "~/utils/revisions";
+import {
+  ACTIVE_ANALYSIS_JOB_STATUSES,
+  ANALYSIS_JOB_MAX_ATTEMPTS,
+  enqueueAnalysisJob,
+} from "~/server/analysisJobs";
+import {
+  assertPublicUrl,
+  isPlanExecutorEnabled,
+  type PlanRunStepLog,
+} from "~/server/planExecutor";
+import { computerUsePlanSchema } from "~/utils/computerUsePlan";
+import { exportPlan, planExportTargets } from "~/utils/planExport";
+import { deleteObjectsWithPrefix } from "~/server/aws/s3";
+import { searchVideos } from "~/server/search";
+import { getClientIp } from "~/server/rateLimit";
+import {
+  buildShareInviteMail,
+  getAppUrl,
+  getMailTransport,
+} from "~/server/mail";
+import {
+  createShareLinkToken,
+  getShareLinkForGrant,
+  hashShareLinkPassword,
+  openShareLink,
+} from "~/server/shareLinks";
+import {
+  canEmbedVideo,
+  findVideoWithAccess,
+  getActiveWorkspace,
+  getVideoRole,
+  getVideoShareAccess,
+  getWorkspaceIdForNewVideos,
+  hasVideoAccess,
+  libraryWhere,
+  roleAllows,
+  videoAccessWhere,
+  type VideoAccess,
+} from "~/server/authorization";
+import {
+  UNFILED_FOLDER,
+  taskFiltersSchema,
+  type TaskFilters,
+} from "~/utils/taskFilters";
+import {
+  deleteRenditions,
+  getPreviewUrl,
+  parseRenditions,
+  storeScreencastThumbnail,
+  type VideoSource,
+} from "~/server/videoProcessing";
+import {
+  type PlanRun,
+  type Prisma,
+  type PrismaClient,
+  type Video,
+} from "@prisma/client";
 import fs from "fs";
 import path from "path";
 import os from "os";
 
-const MODEL_NAME = "gemini-3-flash-preview";
-
-async function getOrCreateGeminiCache(prisma: PrismaClient, s3: S3, video: Video) {
-  let cacheName = video.geminiCacheName;
-  let cacheValid = false;
-
-  // Check if we have a valid cache
-  if (cacheName && video.geminiCacheExpiresAt && video.geminiCacheExpiresAt > new Date()) {
-    cacheValid = true;
-  }
+const httpUrlSchema = z
+  .string()
+  .url()
+  .refine((url) => /^https?:\/\//.test(url), "Only http and https URLs are supported");
+
+// Multipart uploads go straight to the video's key; the parts are only assembled on completion
+const multipartUploadSchema = z.object({ videoId: z.string(), uploadId: z.string() });
+
+// Signed URLs a video card needs: the thumbnail and, once processed, the hover preview
+async function withCardUrls<T extends Video>(s3: S3, video: T) {
+  return {
+    ...video,
+    thumbnailUrl: await getSignedUrl(
+      s3,
+      new GetObjectCommand({
+        Bucket: process.env.AWS_BUCKET_NAME,
+        Key: video.userId + "/" + video.id + "-thumbnail",
+      }),
+      { expiresIn: 7 * 24 * 60 * 60 }
+    ),
+    previewUrl: await getPreviewUrl(s3, video),
+  };
+}
 
-  if (!cacheValid) {
-    // Get the video from S3
+/**
+ * What the player needs: the playable sources, best first (the HLS ladder and MP4 once transcoded,
+ * then the upload), the poster, the storyboard and the captions. `grantQuery` is appended to the
+ * media routes for people who opened a share link.
+ */
+async function getPlaybackUrls(
+  s3: S3,
+  video: Video & { transcript: { id: string } | null },
+  { hideVideo = false, grantQuery = "" } = {}
+) {
+  let signedUrl = null;
+  let storyboardUrl = null;
+  const sources: VideoSource[] = [];
+  if (!video.fileDeletedAt && !hideVideo) {
     const getObjectCommand = new GetObjectCommand({
       Bucket: process.env.AWS_BUCKET_NAME,
       Key: video.userId + "/" + video.id,
     });
 
-    const signedUrl = await getSignedUrl(s3, getObjectCommand, {
-      expiresIn: 3600,
-    });
-
-    // Download video to temporary file
-    const tempDir = os.tmpdir();
-    const tempFilePath = path.join(tempDir, `${video.id}-${Date.now()}-${Math.floor(Math.random() * 1000)}.webm`);
-    
-    const response = await axios.get(signedUrl, {
-      responseType: "arraybuffer",
-    });
-    
-    fs.writeFileSync(tempFilePath, new Uint8Array(response.data as ArrayBuffer));
-
-    // Upload to Gemini
-    const uploadResult = await genAI.files.upload({
-      file: tempFilePath,
-      config: {
-        mimeType: "video/webm",
-        displayName: video.title,
-      },
-    });
+    signedUrl = await getSignedUrl(s3, getObjectCommand);
 
-    if (!uploadResult.name) {
-      if (fs.existsSync(tempFilePath)) fs.unlinkSync(tempFilePath);
-      throw new Error("Upload failed: No file name returned from Gemini");
+    const renditions = parseRenditions(video.renditions);
+    if (renditions?.storyboard) {
+      storyboardUrl = `/api/thumbnails/${video.id}/storyboard.vtt${grantQuery}`;
     }
-
-    // Wait for file to be processed
-    let file = await genAI.files.get({ name: uploadResult.name });
-    while (file.state === "PROCESSING") {
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-      file = await genAI.files.get({ name: uploadResult.name });
+    if (renditions) {
+      sources.push(
+        {
+          src: `/api/hls/${video.id}/master.m3u8${grantQuery}`,
+          type: "application/x-mpegurl",
+        },
+        {
+          src: await getSignedUrl(
+            s3,
+            new GetObjectCommand({
+              Bucket: process.env.AWS_BUCKET_NAME,
+              Key: renditions.mp4,
+            })
+          ),
+          type: "video/mp4",
+        }
+      );
     }
+    sources.push({ src: signedUrl, type: "video/webm" });
+  }
 
-    if (file.state === "FAILED") {
-      if (fs.existsSync(tempFilePath)) fs.unlinkSync(tempFilePath);
-      throw new Error("Video processing failed");
-    }
+  const thumbnailUrl = await getSignedUrl(
+    s3,
+    new GetObjectCommand({
+      Bucket: process.env.AWS_BUCKET_NAME,
+      Key: video.userId + "/" + video.id + "-thumbnail",
+    }),
+    { expiresIn: 7 * 24 * 60 * 60 }
+  );
+
+  return {
+    video_url: signedUrl,
+    sources,
+    thumbnailUrl,
+    storyboardUrl,
+    captionsUrl:
+      video.transcript && !hideVideo
+        ? `/api/captions/${video.id}${grantQuery}`
+        : null,
+  };
+}
 
-    // Create Cache
-    const cache = await genAI.caches.create({
-      model: MODEL_NAME,
-      config: {
-        displayName: video.title,
-        contents: [
-          {
-            role: "user",
-            parts: [{
-              fileData: {
-                mimeType: uploadResult.mimeType,
-                fileUri: uploadResult.uri,
-              },
-            }],
-          },
-        ],
-        ttl: "3600s", // 1 Hour Default
-        tools: [
-          { urlContext: {} }
-        ]
-      },
-    });
+const taskListFiltersSchema = taskFiltersSchema.omit({ from: true, to: true }).extend({
+  createdAfter: z.date().nullish(),
+  createdBefore: z.date().nullish(),
+});
+
+// `where` and `orderBy` of a task library (see `libraryWhere`); `id` breaks ties so cursors stay stable
+function getTaskListQuery(
+  library: Prisma.VideoWhereInput,
+  filters: z.infer<typeof taskListFiltersSchema>
+) {
+  const where: Prisma.VideoWhereInput = {
+    ...library,
+    uploadStatus: "uploaded",
+    solved:
+      filters.status === "solved"
+        ? true
+        : filters.status === "unsolved"
+        ? false
+        : filters.status === "unreviewed"
+        ? null
+        : undefined,
+    sharing: filters.visibility ? filters.visibility === "shared" : undefined,
+    aiAnalysis:
+      filters.analysis === "analyzed"
+        ? { not: null }
+        : filters.analysis === "unanalyzed"
+        ? null
+        : undefined,
+    fileDeletedAt:
+      filters.file === "deleted"
+        ? { not: null }
+        : filters.file === "available"
+        ? null
+        : undefined,
+    folderId:
+      filters.folder === UNFILED_FOLDER ? null : filters.folder ?? undefined,
+    tags: filters.tag ? { some: { id: filters.tag } } : undefined,
+    createdAt: {
+      gte: filters.createdAfter ?? undefined,
+      lt: filters.createdBefore ?? undefined,
+    },
+  };
+
+  const sorts = {
+    newest: [{ createdAt: "desc" }, { id: "desc" }],
+    oldest: [{ createdAt: "asc" }, { id: "asc" }],
+    title: [{ title: "asc" }, { id: "asc" }],
+    lastAnalyzed: [
+      { aiAnalysisGeneratedAt: { sort: "desc", nulls: "last" } },
+      { createdAt: "desc" },
+      { id: "desc" },
+    ],
+  } satisfies Record<
+    NonNullable<TaskFilters["sort"]>,
+    Prisma.VideoOrderByWithRelationInput[]
+  >;
+
+  return { where, orderBy: sorts[filters.sort ?? "newest"] };
+}
+
+const bulkVideoIdsSchema = z.array(z.string()).min(1).max(100);
+
+// From `video.openShareLink`, for people who opened the task with a share link
+const shareGrantSchema = z.string().max(200).nullish();
+
+/** Whether a share link grant lets its holder read the analysis of a video. */
+async function canReadAnalysisWithGrant(
+  prisma: PrismaClient,
+  grant: string | null | undefined,
+  videoId: string
+) {
+  const link = await getShareLinkForGrant(prisma, grant, videoId);
+  return !!link && !link.hideAnalysis;
+}
 
-    if (cache.name) {
-      cacheName = cache.name;
-    }
 
-    // Update DB with new cache info
-    await prisma.video.update({
-      where: { id: video.id },
-      data: {
-        geminiCacheName: cacheName,
-        geminiCacheExpiresAt: new Date(Date.now() + 3500 * 1000), // Slightly less than 1 hour to be safe
-      },
+// How many uploaded videos accounts without a subscription can have
+const FREE_TIER_VIDEO_LIMIT = 10;
+
+/**
+ * Counts the user's uploaded videos and whether they have used up the free tier. Unfinished uploads
+ * don't count, so uploads are checked again before they are confirmed.
+ */
+async function getUploadLimit(
+  prisma: PrismaClient,
+  user: { id: string; stripeSubscriptionStatus?: string | null }
+) {
+  const videoAmount = await prisma.video.count({
+    where: { userId: user.id, uploadStatus: "uploaded" },
+  });
+  const reachedLimit =
+    user.stripeSubscriptionStatus !== "active" &&
+    !!process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY &&
+    videoAmount >= FREE_TIER_VIDEO_LIMIT;
+  return { videoAmount, reachedLimit };
+}
+
+const uploadLimitError = () =>
+  new TRPCError({
+    code: "FORBIDDEN",
+    message:
+      "Sorry, you have reached the maximum video upload limit on our free tier. Please upgrade to upload more.",
+  });
+
+// Up to `bulkVideoIdsSchema`'s 100 videos are changed one by one, which takes longer than the
+// default 5 second limit of interactive transactions
+const BULK_ACTION_TRANSACTION_OPTIONS = { maxWait: 5000, timeout: 30000 };
+
+/** What a bulk action did to one video; `error` says why it was skipped. */
+type BulkActionResult = {
+  videoId: string;
+  ok: boolean;
+  error?: string;
+};
+
+/**
+ * Applies a change to many videos in one transaction. `apply` returns a reason to skip a video
+ * instead of changing it; videos that don't exist or that the user may not `access` are skipped
+ * too. Returns a result per requested video, in request order, and the videos that were changed.
+ */
+async function runBulkAction(
+  prisma: PrismaClient,
+  {
+    userId,
+    videoIds,
+    access,
+  }: { userId: string; videoIds: string[]; access: VideoAccess },
+  apply: (
+    tx: Prisma.TransactionClient,
+    video: Video
+  ) => Promise<string | undefined>
+) {
+  const requestedIds = [...new Set(videoIds)];
+
+  return prisma.$transaction(async (tx) => {
+    const videos = await tx.video.findMany({
+      where: { id: { in: requestedIds }, ...videoAccessWhere(userId, access) },
     });
+    const videosById = new Map(videos.map((video) => [video.id, video]));
+
+    const results: BulkActionResult[] = [];
+    const changed: Video[] = [];
+    for (const videoId of requestedIds) {
+      const video = videosById.get(videoId);
+      const skipReason = video ? await apply(tx, video) : "Task not found";
+      results.push(
+        skipReason ? { videoId, ok: false, error: skipReason } : { videoId, ok: true }
+      );
+      if (video && !skipReason) changed.push(video);
+    }
+    return { results, changed };
+  }, BULK_ACTION_TRANSACTION_OPTIONS);
+}
 
-    // Clean up temporary file
-    try {
-      if (fs.existsSync(tempFilePath)) fs.unlinkSync(tempFilePath);
-    } catch (e) {
-      console.error("Failed to cleanup temp file:", e);
+// S3 can't join the transaction, so files are removed after it commits; failures are only logged
+async function deleteUploadObjects(
+  s3: S3,
+  videos: Pick<Video, "id" | "userId">[],
+  removeRenditions: (video: Pick<Video, "id" | "userId">) => Promise<unknown>
+) {
+  const deletions = await Promise.allSettled(
+    videos.map((video) =>
+      Promise.all([
+        s3.send(
+          new DeleteObjectCommand({
+            Bucket: process.env.AWS_BUCKET_NAME,
+            Key: video.userId + "/" + video.id,
+          })
+        ),
+        s3.send(
+          new DeleteObjectCommand({
+            Bucket: process.env.AWS_BUCKET_NAME,
+            Key: video.userId + "/" + video.id + "-thumbnail",
+          })
+        ),
+        removeRenditions(video),
+      ])
+    )
+  );
+  deletions.forEach((deletion, i) => {
+    if (deletion.status === "rejected") {
+      console.error(`Failed to delete files of video ${videos[i]?.id ?? ""}`, deletion.reason);
     }
-    
-    // Note: We are NOT deleting the Gemini file immediately as it backs the cache.
-    // It will eventually expire via retention policy.
-  }
+  });
+}
 
-  return cacheName;
+async function withScreenshotUrls(s3: S3, run: PlanRun) {
+  const steps = run.steps as unknown as PlanRunStepLog[];
+  return {
+    ...run,
+    steps: await Promise.all(
+      steps.map(async (step) => ({
+        ...step,
+        screenshotUrl: step.screenshotKey
+          ? await getSignedUrl(
+              s3,
+              new GetObjectCommand({
+                Bucket: process.env.AWS_BUCKET_NAME,
+                Key: step.screenshotKey,
+              }),
+              { expiresIn: 3600 }
+            )
+          : null,
+      }))
+    ),
+  };
 }
 
 export const videoRouter = createTRPCRouter({
   getAll: protectedProcedure
     .input(
-      z.object({
+      taskListFiltersSchema.extend({
         limit: z.number().min(1).max(100).nullish(),
         cursor: z.string().nullish(),
       })
     )
     .query(async ({ ctx: { prisma, session, s3, posthog }, input }) => {
-      const limit = input.limit ?? 20;
-      const { cursor } = input;
+      const { limit: requestedLimit, cursor, ...filters } = input;
+      const limit = requestedLimit ?? 20;
+      const workspace = await getActiveWorkspace(prisma, session.user.id);
+      const { where, orderBy } = getTaskListQuery(
+        libraryWhere(session.user.id, workspace?.workspaceId ?? null),
+        filters
+      );
 
       const videos = await prisma.video.findMany({
         take: limit + 1,
-        where: {
-          userId: session.user.id,
-        },
+        where,
         include: {
           user: {
             select: {
@@ -154,11 +419,15 @@ export const videoRouter = createTRPCRouter({
               image: true,
             },
           },
+          tags: {
+            select: { id: true, name: true, color: true },
+            orderBy: { name: "asc" },
+          },
+          // Unique viewers, shown on the card
+          _count: { select: { views: true } },
         },
         cursor: cursor ? { id: cursor } : undefined,
-        orderBy: {
-          createdAt: "desc",
-        },
+        orderBy,
       });
 
       let nextCursor: typeof cursor | undefined = undefined;
@@ -169,26 +438,13 @@ export const videoRouter = createTRPCRouter({
 
       // Generate signed URLs for all videos
       const videosWithUrls = await Promise.all(
-        videos.map(async (video) => {
-          const thumbnailUrl = await getSignedUrl(
-            s3,
-            new GetObjectCommand({
-              Bucket: process.env.AWS_BUCKET_NAME,
-              Key: video.userId + "/" + video.id + "-thumbnail",
-            }),
-            { expiresIn: 7 * 24 * 60 * 60 }
-          );
-          return {
-            ...video,
-            thumbnailUrl,
-          };
-        })
+        videos.map((video) => withCardUrls(s3, video))
       );
 
       // Track analytics asynchronously (don't block response)
       void (async () => {
         const totalCount = await prisma.video.count({
-          where: { userId: session.user.id },
+          where: { userId: session.user.id, uploadStatus: "uploaded" },
         });
         posthog?.capture({
           distinctId: session.user.id,
@@ -205,8 +461,62 @@ export const videoRouter = createTRPCRouter({
         nextCursor,
       };
     }),
+  getSavedViews: protectedProcedure.query(async ({ ctx: { prisma, session } }) => {
+    const views = await prisma.savedView.findMany({
+      where: { userId: session.user.id },
+      orderBy: { name: "asc" },
+    });
+    // Views saved by older versions may hold filters that no longer exist; those are dropped
+    return views.map((view) => {
+      const filters = taskFiltersSchema.safeParse(view.filters);
+      return { ...view, filters: filters.success ? filters.data : {} };
+    });
+  }),
+  saveView: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1).max(60),
+        filters: taskFiltersSchema,
+      })
+    )
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      // Saving under an existing name replaces that view
+      const view = await prisma.savedView.upsert({
+        where: { userId_name: { userId: session.user.id, name: input.name } },
+        create: {
+          userId: session.user.id,
+          name: input.name,
+          filters: input.filters,
+        },
+        update: { filters: input.filters },
+      });
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "save task view",
+        properties: {
+          filters: Object.keys(input.filters),
+        },
+      });
+      void posthog?.shutdownAsync();
+
+      return view;
+    }),
+  deleteSavedView: protectedProcedure
+    .input(z.object({ viewId: z.string() }))
+    .mutation(async ({ ctx: { prisma, session }, input }) => {
+      const deleted = await prisma.savedView.deleteMany({
+        where: { id: input.viewId, userId: session.user.id },
+      });
+
+      if (deleted.count === 0) {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+
+      return { success: true };
+    }),
   get: publicProcedure
-    .input(z.object({ videoId: z.string() }))
+    .input(z.object({ videoId: z.string(), shareGrant: shareGrantSchema }))
     .query(async ({ ctx, input }) => {
       const { s3, posthog, session, prisma } = ctx;
       const video = await prisma.video.findUnique({
@@ -214,16 +524,49 @@ export const videoRouter = createTRPCRouter({
           id: input.videoId,
         },
         include: {
-          user: true,
+          // Only what the page shows about the owner, since the task can be public
+          user: { select: { id: true, name: true, image: true } },
+          analysisRevisions: {
+            orderBy: { createdAt: "asc" },
+          },
+          analysisJobs: {
+            where: { status: { in: ACTIVE_ANALYSIS_JOB_STATUSES } },
+            orderBy: { createdAt: "desc" },
+            take: 1,
+          },
+          // Only whether there is one; the segments are served by `/api/captions`
+          transcript: { select: { id: true } },
         },
       });
       if (!video) {
         throw new TRPCError({ code: "NOT_FOUND" });
       }
 
-      if (video.userId !== session?.user.id && !video.sharing && !video.linkShareSeo) {
+      const role = await getVideoRole(prisma, video, session?.user.id);
+      const shareAccess = role
+        ? null
+        : await getVideoShareAccess(prisma, video.id, session?.user.id);
+      // Share links only matter to people who couldn't open the task otherwise
+      const shareLink =
+        role || shareAccess || video.sharing || video.linkShareSeo
+          ? null
+          : await getShareLinkForGrant(prisma, input.shareGrant, video.id);
+      if (
+        !role &&
+        !shareAccess &&
+        !shareLink &&
+        !video.sharing &&
+        !video.linkShareSeo
+      ) {
         throw new TRPCError({ code: "FORBIDDEN" });
       }
+      const hideVideo = !!shareLink?.hideVideo;
+      const hideAnalysis = !!shareLink?.hideAnalysis;
+      // The media routes check the grant too, since they are loaded by the player
+      const grantQuery =
+        shareLink && input.shareGrant
+          ? `?grant=${encodeURIComponent(input.shareGrant)}`
+          : "";
 
       if (session) {
         posthog?.capture({
@@ -242,26 +585,133 @@ export const videoRouter = createTRPCRouter({
         void posthog?.shutdownAsync();
       }
 
-      let signedUrl = null;
-      if (!video.fileDeletedAt) {
-        const getObjectCommand = new GetObjectCommand({
-          Bucket: process.env.AWS_BUCKET_NAME,
-          Key: video.userId + "/" + video.id,
-        });
+      const playbackUrls = await getPlaybackUrls(s3, video, {
+        hideVideo,
+        grantQuery,
+      });
 
-        signedUrl = await getSignedUrl(s3, getObjectCommand);
+      return {
+        ...video,
+        ...(hideAnalysis && {
+          aiAnalysis: null,
+          currentRevisionId: null,
+          analysisRevisions: [],
+          analysisJobs: [],
+        }),
+        ...playbackUrls,
+        // What the share link the task was opened with hides, when that is how the viewer sees it
+        shareLink: shareLink && { hideVideo, hideAnalysis },
+        // The viewer's role, null when they only see it because it's shared
+        role,
+        // How the task was shared with the viewer by email, when they aren't a member
+        shareAccess,
+        canEdit: roleAllows(role, "edit"),
+        canManage: roleAllows(role, "manage"),
+      };
+    }),
+  getEmbed: publicProcedure
+    .input(z.object({ videoId: z.string() }))
+    .query(async ({ ctx: { s3, prisma }, input }) => {
+      const video = await prisma.video.findUnique({
+        where: { id: input.videoId },
+        include: {
+          user: { select: { name: true } },
+          transcript: { select: { id: true } },
+        },
+      });
+      if (!video) {
+        throw new TRPCError({ code: "NOT_FOUND" });
+      }
+      if (!canEmbedVideo(video)) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "This task isn't shared publicly",
+        });
       }
 
-      const thumbnailUrl = await getSignedUrl(
-        s3,
-        new GetObjectCommand({
-          Bucket: process.env.AWS_BUCKET_NAME,
-          Key: video.userId + "/" + video.id + "-thumbnail",
-        }),
-        { expiresIn: 7 * 24 * 60 * 60 }
+      return {
+        id: video.id,
+        title: video.title,
+        createdAt: video.createdAt,
+        user: video.user,
+        // The rendered analysis, shown below the player on request
+        aiAnalysis: video.aiAnalysis,
+        ...(await getPlaybackUrls(s3, video)),
+      };
+    }),
+  search: protectedProcedure
+    .input(
+      z.object({
+        query: z.string().max(200),
+        limit: z.number().min(1).max(100).nullish(),
+        // Offset of the next page, from `nextCursor`
+        cursor: z.number().int().min(0).nullish(),
+      })
+    )
+    .query(async ({ ctx: { prisma, session, s3, posthog }, input }) => {
+      const limit = input.limit ?? 20;
+      const offset = input.cursor ?? 0;
+
+      const workspace = await getActiveWorkspace(prisma, session.user.id);
+      const { hits, hasMore } = await searchVideos(prisma, {
+        userId: session.user.id,
+        workspaceId: workspace?.workspaceId ?? null,
+        query: input.query,
+        limit,
+        offset,
+      });
+
+      const videos = await prisma.video.findMany({
+        where: { id: { in: hits.map((hit) => hit.id) } },
+        include: {
+          user: {
+            select: {
+              name: true,
+              image: true,
+            },
+          },
+          tags: {
+            select: { id: true, name: true, color: true },
+            orderBy: { name: "asc" },
+          },
+          // Unique viewers, shown on the card
+          _count: { select: { views: true } },
+        },
+      });
+      const videosById = new Map(videos.map((video) => [video.id, video]));
+
+      const items = await Promise.all(
+        hits.flatMap((hit) => {
+          const video = videosById.get(hit.id);
+          // Skips videos deleted between the search and loading them
+          return video
+            ? [
+                withCardUrls(s3, video).then((card) => ({
+                  ...card,
+                  rank: hit.rank,
+                  snippet: hit.snippet,
+                })),
+              ]
+            : [];
+        })
       );
 
-      return { ...video, video_url: signedUrl, thumbnailUrl };
+      if (offset === 0) {
+        posthog?.capture({
+          distinctId: session.user.id,
+          event: "search videos",
+          properties: {
+            queryLength: input.query.length,
+            resultCount: items.length,
+          },
+        });
+        void posthog?.shutdownAsync();
+      }
+
+      return {
+        items,
+        nextCursor: hasMore ? offset + limit : undefined,
+      };
     }),
   getExamples: publicProcedure
     .input(
@@ -301,20 +751,7 @@ export const videoRouter = createTRPCRouter({
 
       // Generate signed URLs for all videos
       const videosWithUrls = await Promise.all(
-        videos.map(async (video) => {
-          const thumbnailUrl = await getSignedUrl(
-            s3,
-            new GetObjectCommand({
-              Bucket: process.env.AWS_BUCKET_NAME,
-              Key: video.userId + "/" + video.id + "-thumbnail",
-            }),
-            { expiresIn: 7 * 24 * 60 * 60 }
-          );
-          return {
-            ...video,
-            thumbnailUrl,
-          };
-        })
+        videos.map((video) => withCardUrls(s3, video))
       );
 
       return {
@@ -322,44 +759,32 @@ export const videoRouter = createTRPCRouter({
         nextCursor,
       };
     }),
-  getUploadUrl: protectedProcedure
+  // Creates the task for an upload; the video itself goes through the multipart procedures below
+  createUpload: protectedProcedure
     .input(z.object({ key: z.string(), userContext: z.string().optional() }))
-    .mutation(async ({ ctx: { prisma, session, s3, posthog }, input }) => {
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
       const { key, userContext } = input;
 
-      const videos = await prisma.video.findMany({
-        where: {
-          userId: session.user.id,
-        },
-      });
-
-      if (
-        session.user.stripeSubscriptionStatus !== "active" &&
-        !!process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY &&
-        videos.length >= 10
-      ) {
+      const { videoAmount, reachedLimit } = await getUploadLimit(prisma, session.user);
+      if (reachedLimit) {
         posthog?.capture({
           distinctId: session.user.id,
           event: "hit video upload limit",
           properties: {
-            videoAmount: videos.length,
+            videoAmount,
             stripeSubscriptionStatus: session.user.stripeSubscriptionStatus,
           },
         });
         void posthog?.shutdownAsync();
 
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message:
-            "Sorry, you have reached the maximum video upload limit on our free tier. Please upgrade to upload more.",
-        });
+        throw uploadLimitError();
       }
 
       posthog?.capture({
         distinctId: session.user.id,
         event: "uploading video",
         properties: {
-          videoAmount: videos.length,
+          videoAmount,
           stripeSubscriptionStatus: session.user.stripeSubscriptionStatus,
         },
       });
@@ -368,18 +793,22 @@ export const videoRouter = createTRPCRouter({
       const video = await prisma.video.create({
         data: {
           userId: session.user.id,
+          workspaceId: await getWorkspaceIdForNewVideos(prisma, session.user.id),
           title: key,
           userContext,
         },
       });
 
-      const signedVideoUrl = await getSignedUrl(
-        s3,
-        new PutObjectCommand({
-          Bucket: process.env.AWS_BUCKET_NAME,
-          Key: session.user.id + "/" + video.id,
-        })
-      );
+      return {
+        success: true,
+        id: video.id,
+      };
+    }),
+  // Signed once the video is up, as a long upload would outlast the URL
+  getThumbnailUploadUrl: protectedProcedure
+    .input(z.object({ videoId: z.string() }))
+    .mutation(async ({ ctx: { prisma, session, s3 }, input }) => {
+      const video = await findVideoWithAccess(prisma, input.videoId, session.user.id, "edit");
 
       const signedThumbnailUrl = await getSignedUrl(
         s3,
@@ -389,70 +818,496 @@ export const videoRouter = createTRPCRouter({
         })
       );
 
-      return {
-        success: true,
-        id: video.id,
-        signedVideoUrl,
-        signedThumbnailUrl,
-      };
+      return { signedThumbnailUrl };
     }),
-  setSharing: protectedProcedure
-    .input(z.object({ videoId: z.string(), sharing: z.boolean() }))
-    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
-      const updateVideo = await prisma.video.updateMany({
-        where: {
-          id: input.videoId,
-          userId: session.user.id,
-        },
-        data: {
-          sharing: input.sharing,
-        },
+  createMultipartUpload: protectedProcedure
+    .input(z.object({ videoId: z.string(), contentType: z.string() }))
+    .mutation(async ({ ctx: { prisma, session, s3 }, input }) => {
+      const video = await findVideoWithAccess(prisma, input.videoId, session.user.id, "edit");
+
+      const upload = await s3.createMultipartUpload({
+        Bucket: process.env.AWS_BUCKET_NAME,
+        Key: video.userId + "/" + video.id,
+        ContentType: input.contentType,
       });
 
-      if (updateVideo.count === 0) {
-        throw new TRPCError({ code: "FORBIDDEN" });
+      if (!upload.UploadId) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to start upload",
+        });
       }
 
+      return { uploadId: upload.UploadId };
+    }),
+  signUploadParts: protectedProcedure
+    .input(
+      multipartUploadSchema.extend({
+        partNumbers: z.array(z.number().int().min(1).max(10000)).min(1).max(100),
+      })
+    )
+    .mutation(async ({ ctx: { prisma, session, s3 }, input }) => {
+      const video = await findVideoWithAccess(prisma, input.videoId, session.user.id, "edit");
+
+      const parts = await Promise.all(
+        input.partNumbers.map(async (partNumber) => ({
+          partNumber,
+          url: await getSignedUrl(
+            s3,
+            new UploadPartCommand({
+              Bucket: process.env.AWS_BUCKET_NAME,
+              Key: video.userId + "/" + video.id,
+              UploadId: input.uploadId,
+              PartNumber: partNumber,
+            })
+          ),
+        }))
+      );
+
+      return { parts };
+    }),
+  completeMultipartUpload: protectedProcedure
+    .input(
+      multipartUploadSchema.extend({
+        parts: z
+          .array(z.object({ partNumber: z.number().int().min(1), etag: z.string() }))
+          .min(1),
+      })
+    )
+    .mutation(async ({ ctx: { prisma, session, s3, posthog }, input }) => {
+      const video = await findVideoWithAccess(prisma, input.videoId, session.user.id, "edit");
+
+      await s3.completeMultipartUpload({
+        Bucket: process.env.AWS_BUCKET_NAME,
+        Key: video.userId + "/" + video.id,
+        UploadId: input.uploadId,
+        MultipartUpload: {
+          Parts: [...input.parts]
+            .sort((a, b) => a.partNumber - b.partNumber)
+            .map(({ partNumber, etag }) => ({ PartNumber: partNumber, ETag: etag })),
+        },
+      });
+
       posthog?.capture({
         distinctId: session.user.id,
-        event: "update video setSharing",
+        event: "complete multipart upload",
         properties: {
-          videoId: input.videoId,
-          videoSharing: input.sharing,
+          videoId: video.id,
+          parts: input.parts.length,
         },
       });
       void posthog?.shutdownAsync();
 
-      return {
-        success: true,
-        updateVideo,
-      };
+      return { success: true };
     }),
-  setLinkShareSeo: protectedProcedure
-    .input(z.object({ videoId: z.string(), linkShareSeo: z.boolean() }))
-    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
-      if (input.linkShareSeo) {
-        const video = await prisma.video.findUnique({
-          where: { id: input.videoId },
-          select: { solved: true, userId: true },
+  abortMultipartUpload: protectedProcedure
+    .input(multipartUploadSchema)
+    .mutation(async ({ ctx: { prisma, session, s3 }, input }) => {
+      const video = await findVideoWithAccess(prisma, input.videoId, session.user.id, "edit");
+
+      await s3.abortMultipartUpload({
+        Bucket: process.env.AWS_BUCKET_NAME,
+        Key: video.userId + "/" + video.id,
+        UploadId: input.uploadId,
+      });
+
+      return { success: true };
+    }),
+  confirmUpload: protectedProcedure
+    .input(z.object({ videoId: z.string() }))
+    .mutation(async ({ ctx: { prisma, session, s3, posthog }, input }) => {
+      const video = await findVideoWithAccess(prisma, input.videoId, session.user.id, "edit");
+      if (video.uploadStatus === "uploaded") {
+        return { uploadStatus: video.uploadStatus };
+      }
+
+      const object = await s3
+        .headObject({
+          Bucket: process.env.AWS_BUCKET_NAME,
+          Key: video.userId + "/" + video.id,
+        })
+        .catch((error: unknown) => {
+          if (error instanceof Error && error.name === "NotFound") return null;
+          throw error;
         });
 
-        if (!video || video.userId !== session.user.id) {
-          throw new TRPCError({ code: "FORBIDDEN" });
-        }
+      const uploaded = !!object?.ContentLength;
 
-        if (video.solved !== true) {
-          throw new TRPCError({
-            code: "FORBIDDEN",
-            message: "You must mark this task as solved before enabling SEO link sharing.",
+      // Uploads started in parallel all passed the check in `createUpload`, so only as many are
+      // confirmed as the uploader's free tier allows; the rest fail and are swept with other failed
+      // uploads
+      if (uploaded) {
+        const uploader = await prisma.user.findUniqueOrThrow({
+          where: { id: video.userId },
+          select: { id: true, stripeSubscriptionStatus: true },
+        });
+        const { reachedLimit } = await getUploadLimit(prisma, uploader);
+        if (reachedLimit) {
+          await prisma.video.update({
+            where: { id: video.id },
+            data: { uploadStatus: "failed" },
           });
+          throw uploadLimitError();
         }
       }
 
-      const updateVideo = await prisma.video.updateMany({
-        where: {
-          id: input.videoId,
-          userId: session.user.id,
+      const updatedVideo = await prisma.video.update({
+        where: { id: video.id },
+        data: { uploadStatus: uploaded ? "uploaded" : "failed" },
+      });
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: uploaded ? "confirm upload" : "upload missing",
+        properties: {
+          videoId: video.id,
+          size: object?.ContentLength,
+        },
+      });
+      void posthog?.shutdownAsync();
+
+      if (!uploaded) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "The video didn't finish uploading. Please try again.",
+        });
+      }
+
+      return { uploadStatus: updatedVideo.uploadStatus };
+    }),
+  setSharing: protectedProcedure
+    .input(z.object({ videoId: z.string(), sharing: z.boolean() }))
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const updateVideo = await prisma.video.updateMany({
+        where: {
+          id: input.videoId,
+          ...videoAccessWhere(session.user.id, "manage"),
+        },
+        data: {
+          sharing: input.sharing,
+        },
+      });
+
+      if (updateVideo.count === 0) {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "update video setSharing",
+        properties: {
+          videoId: input.videoId,
+          videoSharing: input.sharing,
+        },
+      });
+      void posthog?.shutdownAsync();
+
+      return {
+        success: true,
+        updateVideo,
+      };
+    }),
+  getShares: protectedProcedure
+    .input(z.object({ videoId: z.string() }))
+    .query(async ({ ctx: { prisma, session }, input }) => {
+      await findVideoWithAccess(prisma, input.videoId, session.user.id, "manage");
+      return prisma.videoShare.findMany({
+        where: { videoId: input.videoId },
+        select: { id: true, email: true, access: true, acceptedAt: true },
+        orderBy: { createdAt: "asc" },
+      });
+    }),
+  // Accepts an email invite for the signed-in account, see `VideoShare`
+  acceptShareInvite: protectedProcedure
+    .input(z.object({ token: z.string().max(200) }))
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const share = await prisma.videoShare.findUnique({
+        where: { inviteToken: input.token },
+      });
+      if (!share) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "This invite was revoked or doesn't exist",
+        });
+      }
+
+      if (share.userId !== session.user.id) {
+        // Only claimed if no other account accepted it in the meantime
+        const { count } = await prisma.videoShare.updateMany({
+          where: { id: share.id, userId: null },
+          data: { userId: session.user.id, acceptedAt: new Date() },
+        });
+        if (count === 0) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "This invite was already accepted by another account",
+          });
+        }
+
+        posthog?.capture({
+          distinctId: session.user.id,
+          event: "accept video share",
+          properties: { videoId: share.videoId },
+        });
+        void posthog?.shutdownAsync();
+      }
+
+      return { videoId: share.videoId };
+    }),
+  shareWithPeople: protectedProcedure
+    .input(
+      z.object({
+        videoId: z.string(),
+        emails: z
+          .array(z.string().trim().toLowerCase().email())
+          .min(1)
+          .max(20),
+        access: z.enum(["viewer", "commenter"]),
+      })
+    )
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const video = await findVideoWithAccess(
+        prisma,
+        input.videoId,
+        session.user.id,
+        "manage"
+      );
+      const emails = [...new Set(input.emails)];
+
+      const existing = await prisma.videoShare.findMany({
+        where: { videoId: video.id, email: { in: emails } },
+        select: { email: true, userId: true },
+      });
+      // Sharing again with someone who accepted only changes their access, without another email;
+      // pending invites are sent again
+      const invited = emails.filter(
+        (email) =>
+          !existing.some((share) => share.email === email && share.userId)
+      );
+
+      const shares = await prisma.$transaction(
+        emails.map((email) =>
+          prisma.videoShare.upsert({
+            where: { videoId_email: { videoId: video.id, email } },
+            create: {
+              videoId: video.id,
+              email,
+              access: input.access,
+              invitedById: session.user.id,
+              inviteToken: createShareLinkToken(),
+            },
+            update: { access: input.access },
+          })
+        )
+      );
+
+      const transport = getMailTransport();
+      const appUrl = getAppUrl();
+      const inviterName = session.user.name ?? session.user.email ?? "Someone";
+      const sent = await Promise.allSettled(
+        invited.map(async (email) => {
+          let share = shares.find((share) => share.email === email);
+          // Shares from before invites had tokens get one when they are sent again
+          if (share && !share.inviteToken) {
+            share = await prisma.videoShare.update({
+              where: { id: share.id },
+              data: { inviteToken: createShareLinkToken() },
+            });
+          }
+          return transport.send(
+            buildShareInviteMail({
+              to: email,
+              inviterName,
+              videoTitle: video.title,
+              url: `${appUrl}/task/${video.id}?invite=${share?.inviteToken ?? ""}`,
+              canComment: input.access === "commenter",
+            })
+          );
+        })
+      );
+      const failedEmails = invited.filter((email, i) => {
+        const result = sent[i];
+        if (result?.status !== "rejected") return false;
+        console.error(`Failed to send share invite to ${email}:`, result.reason);
+        return true;
+      });
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "share video with people",
+        properties: {
+          videoId: video.id,
+          access: input.access,
+          invited: invited.length,
+          updated: emails.length - invited.length,
+        },
+      });
+      void posthog?.shutdownAsync();
+
+      return { invited, failedEmails };
+    }),
+  revokeShare: protectedProcedure
+    .input(z.object({ shareId: z.string() }))
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const share = await prisma.videoShare.findUnique({
+        where: { id: input.shareId },
+      });
+      if (!share) {
+        throw new TRPCError({ code: "NOT_FOUND" });
+      }
+      await findVideoWithAccess(prisma, share.videoId, session.user.id, "manage");
+
+      await prisma.videoShare.delete({ where: { id: share.id } });
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "revoke video share",
+        properties: { videoId: share.videoId },
+      });
+      void posthog?.shutdownAsync();
+    }),
+  getShareLinks: protectedProcedure
+    .input(z.object({ videoId: z.string() }))
+    .query(async ({ ctx: { prisma, session }, input }) => {
+      await findVideoWithAccess(prisma, input.videoId, session.user.id, "manage");
+      const links = await prisma.shareLink.findMany({
+        where: { videoId: input.videoId },
+        orderBy: { createdAt: "asc" },
+      });
+      return links.map(({ passwordHash, ...link }) => ({
+        ...link,
+        hasPassword: !!passwordHash,
+      }));
+    }),
+  createShareLink: protectedProcedure
+    .input(
+      z
+        .object({
+          videoId: z.string(),
+          label: z.string().trim().max(60).nullish(),
+          password: z.string().min(8).max(100).nullish(),
+          expiresAt: z.date().nullish(),
+          maxViews: z.number().int().min(1).max(100000).nullish(),
+          hideAnalysis: z.boolean().default(false),
+          hideVideo: z.boolean().default(false),
+        })
+        .refine((link) => !(link.hideAnalysis && link.hideVideo), {
+          message: "A link can't hide both the video and the analysis",
+        })
+    )
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const video = await findVideoWithAccess(
+        prisma,
+        input.videoId,
+        session.user.id,
+        "manage"
+      );
+      if (input.expiresAt && input.expiresAt <= new Date()) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The expiry must be in the future",
+        });
+      }
+
+      const { passwordHash, ...link } = await prisma.shareLink.create({
+        data: {
+          videoId: video.id,
+          token: createShareLinkToken(),
+          label: input.label || null,
+          passwordHash: input.password
+            ? await hashShareLinkPassword(input.password)
+            : null,
+          expiresAt: input.expiresAt,
+          maxViews: input.maxViews,
+          hideAnalysis: input.hideAnalysis,
+          hideVideo: input.hideVideo,
+          createdById: session.user.id,
+        },
+      });
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "create share link",
+        properties: {
+          videoId: video.id,
+          hasPassword: !!passwordHash,
+          hasExpiry: !!input.expiresAt,
+          hasMaxViews: !!input.maxViews,
+          hideAnalysis: input.hideAnalysis,
+          hideVideo: input.hideVideo,
+        },
+      });
+      void posthog?.shutdownAsync();
+
+      return { ...link, hasPassword: !!passwordHash };
+    }),
+  revokeShareLink: protectedProcedure
+    .input(z.object({ linkId: z.string() }))
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const link = await prisma.shareLink.findUnique({
+        where: { id: input.linkId },
+      });
+      if (!link) {
+        throw new TRPCError({ code: "NOT_FOUND" });
+      }
+      await findVideoWithAccess(prisma, link.videoId, session.user.id, "manage");
+
+      await prisma.shareLink.delete({ where: { id: link.id } });
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "revoke share link",
+        properties: { videoId: link.videoId, viewCount: link.viewCount },
+      });
+      void posthog?.shutdownAsync();
+    }),
+  openShareLink: publicProcedure
+    .input(
+      z.object({
+        token: z.string().max(100),
+        password: z.string().max(100).nullish(),
+      })
+    )
+    .mutation(async ({ ctx: { prisma, session, posthog, req }, input }) => {
+      const opened = await openShareLink(prisma, {
+        ...input,
+        ip: getClientIp(req),
+      });
+
+      if (session) {
+        posthog?.capture({
+          distinctId: session.user.id,
+          event: "open share link",
+          properties: { videoId: opened.videoId },
+        });
+        void posthog?.shutdownAsync();
+      }
+
+      return opened;
+    }),
+  setLinkShareSeo: protectedProcedure
+    .input(z.object({ videoId: z.string(), linkShareSeo: z.boolean() }))
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      if (input.linkShareSeo) {
+        const video = await findVideoWithAccess(
+          prisma,
+          input.videoId,
+          session.user.id,
+          "manage"
+        );
+
+        if (video.solved !== true) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "You must mark this task as solved before enabling SEO link sharing.",
+          });
+        }
+      }
+
+      const updateVideo = await prisma.video.updateMany({
+        where: {
+          id: input.videoId,
+          ...videoAccessWhere(session.user.id, "manage"),
         },
         data: {
           linkShareSeo: input.linkShareSeo,
@@ -486,7 +1341,7 @@ export const videoRouter = createTRPCRouter({
       const updateVideo = await prisma.video.updateMany({
         where: {
           id: input.videoId,
-          userId: session.user.id,
+          ...videoAccessWhere(session.user.id, "manage"),
         },
         data: {
           delete_after_link_expires: input.delete_after_link_expires,
@@ -523,7 +1378,7 @@ export const videoRouter = createTRPCRouter({
       const updateVideo = await prisma.video.updateMany({
         where: {
           id: input.videoId,
-          userId: session.user.id,
+          ...videoAccessWhere(session.user.id, "manage"),
         },
         data: {
           shareLinkExpiresAt: input.shareLinkExpiresAt,
@@ -560,7 +1415,7 @@ export const videoRouter = createTRPCRouter({
       const updateVideo = await prisma.video.updateMany({
         where: {
           id: input.videoId,
-          userId: session.user.id,
+          ...videoAccessWhere(session.user.id, "edit"),
         },
         data: {
           title: input.title,
@@ -593,17 +1448,16 @@ export const videoRouter = createTRPCRouter({
       })
     )
     .mutation(async ({ ctx: { prisma, session, s3, posthog }, input }) => {
+      const video = await findVideoWithAccess(
+        prisma,
+        input.videoId,
+        session.user.id,
+        "manage"
+      );
       const deleteVideo = await prisma.video.deleteMany({
-        where: {
-          id: input.videoId,
-          userId: session.user.id,
-        },
+        where: { id: video.id },
       });
 
-      if (deleteVideo.count === 0) {
-        throw new TRPCError({ code: "FORBIDDEN" });
-      }
-
       posthog?.capture({
         distinctId: session.user.id,
         event: "video delete",
@@ -616,17 +1470,19 @@ export const videoRouter = createTRPCRouter({
       const deleteVideoObject = await s3.send(
         new DeleteObjectCommand({
           Bucket: process.env.AWS_BUCKET_NAME,
-          Key: session.user.id + "/" + input.videoId,
+          Key: video.userId + "/" + video.id,
         })
       );
 
       const deleteThumbnailObject = await s3.send(
         new DeleteObjectCommand({
           Bucket: process.env.AWS_BUCKET_NAME,
-          Key: session.user.id + "/" + input.videoId + "-thumbnail",
+          Key: video.userId + "/" + video.id + "-thumbnail",
         })
       );
 
+      await deleteObjectsWithPrefix(s3, video.userId + "/" + video.id + "/");
+
       return {
         success: true,
         deleteVideo,
@@ -642,20 +1498,19 @@ export const videoRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx: { prisma, session, s3, posthog }, input }) => {
       // 1. Update DB to mark file as deleted
+      const video = await findVideoWithAccess(
+        prisma,
+        input.videoId,
+        session.user.id,
+        "manage"
+      );
       const updateVideo = await prisma.video.updateMany({
-        where: {
-          id: input.videoId,
-          userId: session.user.id,
-        },
+        where: { id: video.id },
         data: {
           fileDeletedAt: new Date(),
         },
       });
 
-      if (updateVideo.count === 0) {
-        throw new TRPCError({ code: "FORBIDDEN" });
-      }
-
       posthog?.capture({
         distinctId: session.user.id,
         event: "video file delete (retention)",
@@ -669,17 +1524,19 @@ export const videoRouter = createTRPCRouter({
       const deleteVideoObject = await s3.send(
         new DeleteObjectCommand({
           Bucket: process.env.AWS_BUCKET_NAME,
-          Key: session.user.id + "/" + input.videoId,
+          Key: video.userId + "/" + video.id,
         })
       );
 
       const deleteThumbnailObject = await s3.send(
         new DeleteObjectCommand({
           Bucket: process.env.AWS_BUCKET_NAME,
-          Key: session.user.id + "/" + input.videoId + "-thumbnail",
+          Key: video.userId + "/" + video.id + "-thumbnail",
         })
       );
 
+      await deleteRenditions(s3, video);
+
       return {
         success: true,
         updateVideo,
@@ -693,7 +1550,7 @@ export const videoRouter = createTRPCRouter({
       const updateVideo = await prisma.video.updateMany({
         where: {
           id: input.videoId,
-          userId: session.user.id,
+          ...videoAccessWhere(session.user.id, "edit"),
         },
         data: {
           solved: input.solved,
@@ -719,233 +1576,275 @@ export const videoRouter = createTRPCRouter({
         updateVideo,
       };
     }),
-  analyzeVideo: publicProcedure
-    .input(z.object({ videoId: z.string(), refinementPrompt: z.string().optional() }))
-    .mutation(async ({ ctx, input }) => {
-      const { s3, prisma, session } = ctx;
-      
-      // Get video from database
-      const video = await prisma.video.findUnique({
-        where: { id: input.videoId },
-      });
-
-      if (!video) {
-        throw new TRPCError({ code: "NOT_FOUND" });
-      }
-
-      // Check if user has access to this video
-      if (video.userId !== session?.user.id && !video.sharing && !video.linkShareSeo) {
-        throw new TRPCError({ code: "FORBIDDEN" });
-      }
-
-      try {
-        const cacheName = await getOrCreateGeminiCache(prisma, s3, video);
-
-        // Analyze the video using Cache
-        const result = await genAI.models.generateContent({
-          model: MODEL_NAME,
-          contents: [
-            {
-              parts: [
-                {
-                  text: input.refinementPrompt 
-              ? `You are an AI problem solving and automation expert analyzing a screen recording, the subsequent analysis, and the user's follow up request.
-
-              User Refinement Request:
-              ${input.refinementPrompt}
-
-              Please provide a refined analysis and updated response using the following context and the user's specific request. 
-              
-              User Context:
-              ${video.userContext ?? "None"}
-
-              Previous Analysis:
-              ${video.aiAnalysis ?? "No previous analysis."}
-              
-              Maintain this format:
-              TITLE: [A 5-word or less descriptive title for the task]
-              ---ANALYSIS_START---
-              1. User Analysis (Markdown) - Provide the new insights, answers to follow-up questions, or changed instructions. IMPORTANT: If the user requests code or if the previous code needs updating, YOU MUST PROVIDE THE FULL UPDATED CODE SNIPPETS. Do not just describe the changes; show the actual code.
-              2. "---COMPUTER_USE_PLAN---" separator
-              3. Computer Use Instructions (JSON) - Provide the FULL, complete, and updated JSON plan that incorporates all changes. This replaces the previous plan.`
-              : 
-              
-              `You are an AI problem solving and automation expert analyzing a screen recording. The user is showing you a task they want automated or a problem they want resolved.
+  bulkDelete: protectedProcedure
+    .input(z.object({ videoIds: bulkVideoIdsSchema }))
+    .mutation(async ({ ctx: { prisma, session, s3, posthog }, input }) => {
+      const { results, changed } = await runBulkAction(
+        prisma,
+        {
+          userId: session.user.id,
+          videoIds: input.videoIds,
+          access: "manage",
+        },
+        () => Promise.resolve(undefined)
+      );
 
-              User Context:
-              ${video.userContext ?? "None"}
+      // Deleted in one query rather than one per video in the transaction, since the cascades to
+      // each video's comments, revisions and jobs are emulated by Prisma
+      await prisma.video.deleteMany({
+        where: {
+          id: { in: changed.map((video) => video.id) },
+          ...videoAccessWhere(session.user.id, "manage"),
+        },
+      });
 
-              Please analyze this video and provide your response in the following format:
+      await deleteUploadObjects(s3, changed, (video) =>
+        deleteObjectsWithPrefix(s3, video.userId + "/" + video.id + "/")
+      );
 
-              TITLE: [A 5-word or less descriptive title for the task]
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "bulk video delete",
+        properties: {
+          videoAmount: changed.length,
+        },
+      });
+      void posthog?.shutdownAsync();
 
-              ---ANALYSIS_START---
+      return { results };
+    }),
+  bulkDeleteFile: protectedProcedure
+    .input(z.object({ videoIds: bulkVideoIdsSchema }))
+    .mutation(async ({ ctx: { prisma, session, s3, posthog }, input }) => {
+      const fileDeletedAt = new Date();
+      const { results, changed } = await runBulkAction(
+        prisma,
+        {
+          userId: session.user.id,
+          videoIds: input.videoIds,
+          access: "manage",
+        },
+        async (tx, video) => {
+          if (video.fileDeletedAt) return "The video file is already deleted";
+          await tx.video.update({
+            where: { id: video.id },
+            data: { fileDeletedAt },
+          });
+          return undefined;
+        }
+      );
 
-              Section 1: User Analysis (Markdown)
-              1. **Code Example**: If applicable, provide code snippets with clear instructions on where to use them
-              2. **Task Summary**: A clear description of what the user is trying to accomplish
-              3. **Automation Approach**: How this task could be automated (e.g., using browser automation, API calls, scripts, etc.)
-              4. **Implementation Steps**: Step-by-step instructions for implementing the automation
-              5. **Tools/Technologies**: List any tools, libraries, or services that would be helpful
+      await deleteUploadObjects(s3, changed, (video) =>
+        deleteRenditions(s3, video)
+      );
 
-              Verify that the output of Section 1 is valid Markdown.
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "bulk video file delete",
+        properties: {
+          videoAmount: changed.length,
+        },
+      });
+      void posthog?.shutdownAsync();
 
-              ---COMPUTER_USE_PLAN---
+      return { results, fileDeletedAt };
+    }),
+  bulkSetSharing: protectedProcedure
+    .input(z.object({ videoIds: bulkVideoIdsSchema, sharing: z.boolean() }))
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const { results, changed } = await runBulkAction(
+        prisma,
+        {
+          userId: session.user.id,
+          videoIds: input.videoIds,
+          access: "manage",
+        },
+        async (tx, video) => {
+          await tx.video.update({
+            where: { id: video.id },
+            data: { sharing: input.sharing },
+          });
+          return undefined;
+        }
+      );
 
-              Section 2: Computer Use Instructions (JSON)
-              Provide a valid JSON object immediately following the separator. Do not include markdown code blocks.
-              The JSON should contain a step-by-step plan for a Computer Use agent to replicate the workflow shown in the video.
-              
-              Format:
-              {
-                "task_description": "Brief description of the task",
-                "steps": [
-                  {
-                    "action": "click" | "type" | "scroll" | "wait",
-                    "coordinate": [x, y], // Estimate coordinates based on a 1024x768 resolution grid.
-                    "text": "...", // For type actions
-                    "description": "Explanation of the step",
-                    "element_description": "Visual description of the element to interact with"
-                  }
-                ]
-              }`
-                },
-              ],
-            },
-          ],
-          config: {
-            cachedContent: cacheName ? cacheName : undefined,
-          }
-        });
-
-        const rawResponse = result.text ?? "";
-        let analysisText = rawResponse;
-        let title = video.title;
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "bulk update video setSharing",
+        properties: {
+          videoAmount: changed.length,
+          videoSharing: input.sharing,
+        },
+      });
+      void posthog?.shutdownAsync();
 
-        // Parse title and main analysis text
-        const analysisStartMarkers = ["---ANALYSIS_START---", "---ANALYSIS_START"];
-        let foundStart = false;
-        
-        for (const marker of analysisStartMarkers) {
-          if (rawResponse.includes(marker)) {
-            const parts = rawResponse.split(marker);
-            const preStart = parts[0] ?? "";
-            
-            // Extract title from before the start marker
-            const titleMatch = preStart.match(/TITLE:\s*(.*)/i);
-            if (titleMatch?.[1]) {
-              title = titleMatch[1].trim();
-            }
-            
-            analysisText = parts[1]?.trim() ?? "";
-            foundStart = true;
-            break;
-          }
+      return { results };
+    }),
+  bulkSetSolved: protectedProcedure
+    .input(
+      z.object({ videoIds: bulkVideoIdsSchema, solved: z.boolean().nullable() })
+    )
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const { results, changed } = await runBulkAction(
+        prisma,
+        {
+          userId: session.user.id,
+          videoIds: input.videoIds,
+          access: "edit",
+        },
+        async (tx, video) => {
+          await tx.video.update({
+            where: { id: video.id },
+            data: { solved: input.solved },
+          });
+          return undefined;
         }
+      );
 
-        if (!foundStart) {
-          // Fallback parsing if separator is missing
-          const titleMatch = rawResponse.match(/TITLE:\s*(.*)/i);
-          if (titleMatch?.[1]) {
-            title = titleMatch[1].trim();
-            analysisText = rawResponse.replace(/TITLE:.*\n?/i, "").trim();
-          }
-        }
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "bulk update video solved",
+        properties: {
+          videoAmount: changed.length,
+          solved: input.solved,
+        },
+      });
+      void posthog?.shutdownAsync();
 
-        // For refinements, append the new analysis to the old one
-        let finalAnalysis = analysisText;
-        if (input.refinementPrompt && video.aiAnalysis) {
-          const planSeparator = "---COMPUTER_USE_PLAN---";
-          const separators = [planSeparator, "---COMPUTER_USE_PLAN", "Section 2: Computer Use Instructions (JSON)"];
-          
-          let oldDisplay = video.aiAnalysis;
-          let oldPlan = "";
-          for (const sep of separators) {
-            if (video.aiAnalysis.includes(sep)) {
-              const parts = video.aiAnalysis.split(sep);
-              oldDisplay = parts[0]?.trim() ?? "";
-              oldPlan = parts[1]?.trim() ?? "";
-              break;
+      return { results };
+    }),
+  // Queues a fresh analysis of each video; one that is already being analyzed keeps its job, and one
+  // with a refinement running is skipped
+  bulkReanalyze: protectedProcedure
+    .input(z.object({ videoIds: bulkVideoIdsSchema }))
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const { results, changed } = await runBulkAction(
+        prisma,
+        {
+          userId: session.user.id,
+          videoIds: input.videoIds,
+          access: "edit",
+        },
+        async (tx, video) => {
+          if (video.fileDeletedAt) return "The video file was deleted";
+          try {
+            await enqueueAnalysisJob(tx, { videoId: video.id });
+          } catch (error) {
+            if (error instanceof TRPCError && error.code === "CONFLICT") {
+              return error.message;
             }
+            throw error;
           }
+          return undefined;
+        }
+      );
 
-          let newDisplay = analysisText;
-          let newPlan = "";
-          for (const sep of separators) {
-            if (analysisText.includes(sep)) {
-              const parts = analysisText.split(sep);
-              newDisplay = parts[0]?.trim() ?? "";
-              newPlan = parts[1]?.trim() ?? "";
-              break;
-            }
-          }
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "bulk reanalyze videos",
+        properties: {
+          videoAmount: changed.length,
+        },
+      });
+      void posthog?.shutdownAsync();
 
-          if (newDisplay) {
-            const timestamp = new Date().toLocaleString("en-US", {
-              month: "short",
-              day: "numeric",
-              hour: "numeric",
-              minute: "2-digit",
-            });
-            
-            // User Refinement Block
-            const userPromptBlock = input.refinementPrompt 
-              ? `\n\n---\n\n> **User Refinement**\n> ${input.refinementPrompt.replace(/\n/g, '\n> ')}\n\n`
-              : `\n\n---\n\n`;
-
-            const separatorWithHeader = `### Refined Analysis (${timestamp})\n\n`;
-            const planToUse = newPlan || oldPlan;
-            
-            finalAnalysis = `${oldDisplay}${userPromptBlock}${separatorWithHeader}${newDisplay}${planToUse ? `\n\n${planSeparator}\n${planToUse}` : ""}`;
-          }
-        }
+      return { results };
+    }),
+  analyzeVideo: publicProcedure
+    .input(
+      z.object({
+        videoId: z.string(),
+        refinementPrompt: z.string().optional(),
+        // Refine from an earlier revision instead of the current one, starting a new branch
+        parentRevisionId: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx: { prisma, session }, input }) => {
+      const { activeRevisions } = await loadVideoForAnalysis(prisma, {
+        videoId: input.videoId,
+        userId: session?.user.id,
+        parentRevisionId: input.parentRevisionId,
+        access: "edit",
+      });
+      const isRefinement = !!input.refinementPrompt && activeRevisions.length > 0;
+
+      // Analysis can take minutes, so it runs in the analysis worker and the client polls `getAnalysisJob`
+      const job = await enqueueAnalysisJob(prisma, {
+        videoId: input.videoId,
+        refinementPrompt: input.refinementPrompt,
+        parentRevisionId: isRefinement
+          ? activeRevisions[activeRevisions.length - 1]?.id
+          : undefined,
+      });
 
-        // Save analysis and update title in database
-        const updatedVideo = await prisma.video.update({
-          where: { id: input.videoId },
-          data: {
-            title: title,
-            aiAnalysis: finalAnalysis,
-            aiAnalysisGeneratedAt: new Date(),
+      return {
+        jobId: job.id,
+        status: job.status,
+      };
+    }),
+  getAnalysisJob: publicProcedure
+    .input(z.object({ jobId: z.string(), shareGrant: shareGrantSchema }))
+    .query(async ({ ctx: { prisma, session }, input }) => {
+      const job = await prisma.analysisJob.findUnique({
+        where: { id: input.jobId },
+        include: {
+          video: {
+            select: {
+              id: true,
+              userId: true,
+              workspaceId: true,
+              sharing: true,
+              linkShareSeo: true,
+            },
           },
-        });
+        },
+      });
 
-        return {
-          success: true,
-          analysis: finalAnalysis,
-          generatedAt: updatedVideo.aiAnalysisGeneratedAt,
-        };
-      } catch (error) {
-        console.error("Error analyzing video:", error);
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to analyze video",
-        });
+      if (!job) {
+        throw new TRPCError({ code: "NOT_FOUND" });
+      }
+
+      const { video } = job;
+      if (
+        !(await hasVideoAccess(prisma, video, session?.user.id, "view")) &&
+        !(await canReadAnalysisWithGrant(prisma, input.shareGrant, video.id))
+      ) {
+        throw new TRPCError({ code: "FORBIDDEN" });
       }
+
+      const revision = job.revisionId
+        ? await prisma.analysisRevision.findUnique({
+            where: { id: job.revisionId },
+          })
+        : null;
+
+      return {
+        id: job.id,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: ANALYSIS_JOB_MAX_ATTEMPTS,
+        error: job.error,
+        partialMarkdown: job.partialMarkdown,
+        revision,
+      };
     }),
-  
+
   analyzeScreencastUpdate: publicProcedure
     .input(z.object({ 
       videoId: z.string(), 
       videoBlob: z.string(), // base64 encoded video
       refinementPrompt: z.string().optional(), 
+      parentRevisionId: z.string().optional(),
     }))
     .mutation(async ({ ctx, input }) => {
       const { prisma, session, s3 } = ctx;
-      
-      // Get video from database
-      const video = await prisma.video.findUnique({
-        where: { id: input.videoId },
-      });
 
-      if (!video) {
-        throw new TRPCError({ code: "NOT_FOUND" });
-      }
-
-      // Check if user has access to this video
-      if (video.userId !== session?.user.id && !video.sharing && !video.linkShareSeo) {
-        throw new TRPCError({ code: "FORBIDDEN" });
-      }
+      const { video, activeRevisions } = await loadVideoForAnalysis(prisma, {
+        videoId: input.videoId,
+        userId: session?.user.id,
+        parentRevisionId: input.parentRevisionId,
+        access: "edit",
+      });
 
       try {
         // Decode base64 video blob to check size
@@ -953,84 +1852,58 @@ export const videoRouter = createTRPCRouter({
         const videoSizeBytes = videoBuffer.length;
         const THRESHOLD = 15 * 1024 * 1024; // 15MB
         
-        let videoPart: { inlineData: { mimeType: string, data: string } } | { fileData: { mimeType: string, fileUri: string } };
-        let fileToDelete: string | null = null;
+        const provider = getAnalysisProvider();
+        let videoInput: VideoInput;
+        let uploadedVideo: UploadedVideo | null = null;
 
         if (videoSizeBytes < THRESHOLD) {
           // Use Inline Data for smaller videos (faster, skips processing wait)
-          videoPart = {
-            inlineData: {
-              mimeType: "video/webm",
-              data: input.videoBlob,
-            },
+          videoInput = {
+            type: "inline",
+            mimeType: "video/webm",
+            data: input.videoBlob,
           };
         } else {
-          // Use File API for larger videos
+          // Upload larger videos through the provider's file API
           // Write to temporary file
           const tempDir = os.tmpdir();
           const tempFilePath = path.join(tempDir, `screencast-${video.id}-${Date.now()}.webm`);
           fs.writeFileSync(tempFilePath, new Uint8Array(videoBuffer));
 
-          // Upload to Gemini
-          const uploadResult = await genAI.files.upload({
-            file: tempFilePath,
-            config: {
+          try {
+            uploadedVideo = await provider.uploadVideo(tempFilePath, {
               mimeType: "video/webm",
               displayName: `Screencast Update - ${video.title}`,
-            },
-          });
-
-          if (!uploadResult.name) {
-            if (fs.existsSync(tempFilePath)) fs.unlinkSync(tempFilePath);
-            throw new Error("Upload failed: No file name returned from Gemini");
-          }
-
-          // Wait for file to be processed
-          let file = await genAI.files.get({ name: uploadResult.name });
-          while (file.state === "PROCESSING") {
-            await new Promise((resolve) => setTimeout(resolve, 2000));
-            file = await genAI.files.get({ name: uploadResult.name });
-          }
-
-          if (file.state === "FAILED") {
-            if (fs.existsSync(tempFilePath)) fs.unlinkSync(tempFilePath);
-            throw new Error("Video processing failed");
+            });
+          } finally {
+            // Clean up temporary file
+            try {
+              if (fs.existsSync(tempFilePath)) fs.unlinkSync(tempFilePath);
+            } catch (e) {
+              console.error("Failed to cleanup temp file:", e);
+            }
           }
 
-          videoPart = {
-            fileData: {
-              mimeType: uploadResult.mimeType ?? "video/webm",
-              fileUri: uploadResult.uri!,
-            },
+          videoInput = {
+            type: "file",
+            mimeType: uploadedVideo.mimeType,
+            uri: uploadedVideo.uri,
           };
-          fileToDelete = uploadResult.name;
-
-          // Clean up temporary file
-          try {
-            if (fs.existsSync(tempFilePath)) fs.unlinkSync(tempFilePath);
-          } catch (e) {
-            console.error("Failed to cleanup temp file:", e);
-          }
         }
 
         // Get or create cache for the original video content
-        const cacheName = await getOrCreateGeminiCache(prisma, s3, video);
+        const cachedContext = await getOrCreateVideoContext(provider, prisma, s3, video);
 
         // Analyze the video with refinement context
-        const result = await genAI.models.generateContent({
-          model: MODEL_NAME,
-          contents: [
-            {
-              parts: [
-                videoPart,
-                {
-                  text: `You are an AI problem solving and automation expert analyzing a follow-up screen recording.
+        const response = await provider.generate({
+          video: videoInput,
+          prompt: `You are an AI problem solving and automation expert analyzing a follow-up screen recording.
               
                   User Context:
                   ${video.userContext ?? "None"}
 
                   Previous Analysis:
-                  ${video.aiAnalysis ?? "No previous analysis."}
+                  ${formatRevisionsForPrompt(activeRevisions)}
 
                   User Refinement Request:
                   ${input.refinementPrompt ? input.refinementPrompt : "N/A"}
@@ -1044,104 +1917,38 @@ export const videoRouter = createTRPCRouter({
                   ---ANALYSIS_START---
                   1. User Analysis (Markdown) - Provide the new insights, answers to follow-up questions, or changed instructions based on the new screencast. IMPORTANT: If the user requests code or if the previous code needs updating, YOU MUST PROVIDE THE FULL UPDATED CODE SNIPPETS. Do not just describe the changes; show the actual code.
                   2. "---COMPUTER_USE_PLAN---" separator
-                  3. Computer Use Instructions (JSON) - Provide the FULL, complete, and updated JSON plan that incorporates all changes. This replaces the previous plan.`
-                },
-              ],
-            },
-          ],
-          config: {
-            cachedContent: cacheName || undefined,
-          }
+                  3. Computer Use Instructions (JSON) - Provide the FULL, complete, and updated JSON plan that incorporates all changes. This replaces the previous plan.`,
+          cachedContext,
         });
 
-        const rawResponse = result.text ?? "";
-        let analysisText = rawResponse;
-
-        // Parse title and main analysis text
-        const analysisStartMarkers = ["---ANALYSIS_START---", "---ANALYSIS_START"];
-        let foundStart = false;
-        
-        for (const marker of analysisStartMarkers) {
-          if (rawResponse.includes(marker)) {
-            const parts = rawResponse.split(marker);
-            analysisText = parts[1]?.trim() ?? "";
-            foundStart = true;
-            break;
-          }
-        }
-
-        if (!foundStart) {
-          // Fallback parsing if separator is missing
-          analysisText = rawResponse.replace(/TITLE:.*\n?/i, "").trim();
-        }
+        const parsed = await validateAnalysisPlan(parseAnalysisResponse(response), {
+          provider,
+          cachedContext,
+        });
 
-        // Delete the file from Gemini if we used File API
-        if (fileToDelete) {
-          await genAI.files.delete({ name: fileToDelete });
+        // Delete the uploaded screencast, it isn't needed once analyzed
+        if (uploadedVideo) {
+          await provider.deleteVideo(uploadedVideo);
         }
 
-        // Append the new analysis to the old one
-        let finalAnalysis = analysisText;
-        if (video.aiAnalysis) {
-          const planSeparator = "---COMPUTER_USE_PLAN---";
-          const separators = [planSeparator, "---COMPUTER_USE_PLAN", "Section 2: Computer Use Instructions (JSON)"];
-          
-          let oldDisplay = video.aiAnalysis;
-          let oldPlan = "";
-          for (const sep of separators) {
-            if (video.aiAnalysis.includes(sep)) {
-              const parts = video.aiAnalysis.split(sep);
-              oldDisplay = parts[0]?.trim() ?? "";
-              oldPlan = parts[1]?.trim() ?? "";
-              break;
-            }
-          }
-
-          let newDisplay = analysisText;
-          let newPlan = "";
-          for (const sep of separators) {
-            if (analysisText.includes(sep)) {
-              const parts = analysisText.split(sep);
-              newDisplay = parts[0]?.trim() ?? "";
-              newPlan = parts[1]?.trim() ?? "";
-              break;
-            }
-          }
-
-          if (newDisplay) {
-            const timestamp = new Date().toLocaleString("en-US", {
-              month: "short",
-              day: "numeric",
-              hour: "numeric",
-              minute: "2-digit",
-            });
-            
-            let userPromptBlock = `\n\n---\n\n> **User Refinement**\n`;
-            if (input.refinementPrompt) {
-               userPromptBlock += `> ${input.refinementPrompt.replace(/\n/g, '\n> ')}\n`;
-            }
-            userPromptBlock += `> 🎥 **Screencast Refinement Recorded**\n\n`;
-
-            const separatorWithHeader = `### Screencast Update (${timestamp})\n\n`;
-            const planToUse = newPlan || oldPlan;
-            
-            finalAnalysis = `${oldDisplay}${userPromptBlock}${separatorWithHeader}${newDisplay}${planToUse ? `\n\n${planSeparator}\n${planToUse}` : ""}`;
-          }
-        }
+        const { revision, generatedAt } = await saveAnalysisRevision(prisma, {
+          video,
+          parentRevisions: activeRevisions,
+          kind: "screencast",
+          prompt: input.refinementPrompt,
+          parsed,
+          model: provider.model,
+        });
 
-        // Save updated analysis in database
-        const updatedVideo = await prisma.video.update({
-          where: { id: input.videoId },
-          data: {
-            aiAnalysis: finalAnalysis,
-            aiAnalysisGeneratedAt: new Date(),
-          },
+        await storeScreencastThumbnail(s3, video, {
+          revisionId: revision.id,
+          data: videoBuffer,
         });
 
         return {
           success: true,
-          analysis: finalAnalysis,
-          generatedAt: updatedVideo.aiAnalysisGeneratedAt,
+          revision,
+          generatedAt,
         };
       } catch (error) {
         console.error("Error analyzing screencast update:", error);
@@ -1151,6 +1958,321 @@ export const videoRouter = createTRPCRouter({
         });
       }
     }),
+  listRevisions: publicProcedure
+    .input(z.object({ videoId: z.string(), shareGrant: shareGrantSchema }))
+    .query(async ({ ctx: { prisma, session }, input }) => {
+      const video = await prisma.video.findUnique({
+        where: { id: input.videoId },
+        include: {
+          analysisRevisions: {
+            orderBy: { createdAt: "asc" },
+          },
+        },
+      });
+
+      if (!video) {
+        throw new TRPCError({ code: "NOT_FOUND" });
+      }
+
+      if (
+        !(await hasVideoAccess(prisma, video, session?.user.id, "view")) &&
+        !(await canReadAnalysisWithGrant(prisma, input.shareGrant, video.id))
+      ) {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+
+      return {
+        revisions: video.analysisRevisions,
+        currentRevisionId: video.currentRevisionId,
+      };
+    }),
+  restoreRevision: protectedProcedure
+    .input(z.object({ videoId: z.string(), revisionId: z.string() }))
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const video = await prisma.video.findUnique({
+        where: { id: input.videoId },
+        include: {
+          analysisRevisions: {
+            orderBy: { createdAt: "asc" },
+          },
+        },
+      });
+
+      if (!video || !(await hasVideoAccess(prisma, video, session.user.id, "edit"))) {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+
+      const chain = getRevisionChain(video.analysisRevisions, input.revisionId);
+      const revision = chain[chain.length - 1];
+      if (!revision) {
+        throw new TRPCError({ code: "NOT_FOUND" });
+      }
+
+      const updatedVideo = await prisma.video.update({
+        where: { id: video.id },
+        data: {
+          currentRevisionId: revision.id,
+          aiAnalysis: renderAnalysisMarkdown(chain),
+          aiAnalysisGeneratedAt: revision.createdAt,
+        },
+      });
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "restore analysis revision",
+        properties: {
+          videoId: video.id,
+          revisionId: revision.id,
+        },
+      });
+      void posthog?.shutdownAsync();
+
+      return {
+        success: true,
+        currentRevisionId: updatedVideo.currentRevisionId,
+        generatedAt: updatedVideo.aiAnalysisGeneratedAt,
+      };
+    }),
+  compareRevisions: publicProcedure
+    .input(
+      z.object({
+        videoId: z.string(),
+        baseRevisionId: z.string(),
+        compareRevisionId: z.string(),
+        shareGrant: shareGrantSchema,
+      })
+    )
+    .query(async ({ ctx: { prisma, session }, input }) => {
+      const video = await prisma.video.findUnique({
+        where: { id: input.videoId },
+        include: {
+          analysisRevisions: {
+            orderBy: { createdAt: "asc" },
+          },
+        },
+      });
+
+      if (!video) {
+        throw new TRPCError({ code: "NOT_FOUND" });
+      }
+
+      if (
+        !(await hasVideoAccess(prisma, video, session?.user.id, "view")) &&
+        !(await canReadAnalysisWithGrant(prisma, input.shareGrant, video.id))
+      ) {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+
+      // A version is everything up to and including the revision, as users saw it at the time
+      const toVersion = (revisionId: string) => {
+        const chain = getRevisionChain(video.analysisRevisions, revisionId);
+        const revision = chain[chain.length - 1];
+        if (!revision) {
+          throw new TRPCError({ code: "NOT_FOUND" });
+        }
+        return {
+          revision,
+          markdown: renderAnalysisMarkdown(chain),
+          plan: getLatestPlan(chain),
+        };
+      };
+
+      return {
+        base: toVersion(input.baseRevisionId),
+        compare: toVersion(input.compareRevisionId),
+      };
+    }),
+  updatePlan: protectedProcedure
+    .input(
+      z.object({
+        videoId: z.string(),
+        plan: computerUsePlanSchema,
+      })
+    )
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const { video, activeRevisions } = await loadVideoForAnalysis(prisma, {
+        videoId: input.videoId,
+        userId: session.user.id,
+        access: "edit",
+      });
+
+      if (activeRevisions.length === 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Analyze the video before editing its plan",
+        });
+      }
+
+      // Saved as a revision so the edit shows up in the history and can be undone by restoring
+      const result = await saveAnalysisRevision(prisma, {
+        video,
+        parentRevisions: activeRevisions,
+        kind: "plan_edit",
+        parsed: { title: null, markdown: "", plan: input.plan, planErrors: [] },
+        model: "user",
+      });
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "edit computer use plan",
+        properties: {
+          videoId: video.id,
+          revisionId: result.revision.id,
+          steps: input.plan.steps.length,
+        },
+      });
+      void posthog?.shutdownAsync();
+
+      return result;
+    }),
+  exportPlan: publicProcedure
+    .input(
+      z.object({
+        videoId: z.string(),
+        target: z.enum(planExportTargets),
+      })
+    )
+    .query(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const { video, activeRevisions } = await loadVideoForAnalysis(prisma, {
+        videoId: input.videoId,
+        userId: session?.user.id,
+        access: "view",
+      });
+
+      const plan = computerUsePlanSchema.safeParse(getLatestPlan(activeRevisions));
+      if (!plan.success) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This task doesn't have a valid computer use plan to export",
+        });
+      }
+
+      if (session) {
+        posthog?.capture({
+          distinctId: session.user.id,
+          event: "export computer use plan",
+          properties: {
+            videoId: video.id,
+            target: input.target,
+          },
+        });
+        void posthog?.shutdownAsync();
+      }
+
+      return exportPlan(plan.data, input.target, { name: video.title });
+    }),
+  runPlan: protectedProcedure
+    .input(
+      z.object({
+        videoId: z.string(),
+        // Defaults to the plan's own `start_url`
+        startUrl: httpUrlSchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx: { prisma, session, s3, posthog }, input }) => {
+      if (!isPlanExecutorEnabled()) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Running plans isn't enabled on this server",
+        });
+      }
+
+      const video = await prisma.video.findUnique({
+        where: { id: input.videoId },
+        include: {
+          analysisRevisions: {
+            orderBy: { createdAt: "asc" },
+          },
+        },
+      });
+
+      if (!video) {
+        throw new TRPCError({ code: "NOT_FOUND" });
+      }
+
+      if (!(await hasVideoAccess(prisma, video, session.user.id, "edit"))) {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+
+      // Refinements without a plan keep the previous one
+      const planRevision = getRevisionChain(video.analysisRevisions, video.currentRevisionId)
+        .reverse()
+        .find((revision) => revision.plan);
+      const plan = computerUsePlanSchema.safeParse(planRevision?.plan);
+      if (!planRevision || !plan.success) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "This analysis doesn't have a valid computer use plan",
+        });
+      }
+
+      const startUrl = httpUrlSchema.safeParse(input.startUrl ?? plan.data.start_url);
+      if (!startUrl.success) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Enter the URL the task starts on",
+        });
+      }
+
+      try {
+        await assertPublicUrl(startUrl.data);
+      } catch {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Plans can only run on public websites",
+        });
+      }
+
+      // Browsing through a plan takes a while, so it runs in the plan worker and the client polls
+      // `getPlanRun`
+      const run = await prisma.planRun.create({
+        data: {
+          videoId: video.id,
+          revisionId: planRevision.id,
+          startUrl: startUrl.data,
+        },
+      });
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "run computer use plan",
+        properties: {
+          videoId: video.id,
+        },
+      });
+      void posthog?.shutdownAsync();
+
+      return withScreenshotUrls(s3, run);
+    }),
+  getPlanRun: protectedProcedure
+    .input(z.object({ runId: z.string() }))
+    .query(async ({ ctx: { prisma, session, s3 }, input }) => {
+      const run = await prisma.planRun.findFirst({
+        where: {
+          id: input.runId,
+          video: videoAccessWhere(session.user.id, "view"),
+        },
+      });
+      if (!run) {
+        throw new TRPCError({ code: "NOT_FOUND" });
+      }
+
+      return withScreenshotUrls(s3, run);
+    }),
+  listPlanRuns: protectedProcedure
+    .input(z.object({ videoId: z.string() }))
+    .query(async ({ ctx: { prisma, session, s3 }, input }) => {
+      const runs = await prisma.planRun.findMany({
+        where: {
+          videoId: input.videoId,
+          video: videoAccessWhere(session.user.id, "view"),
+        },
+        orderBy: { createdAt: "desc" },
+        take: 5,
+      });
+
+      return Promise.all(runs.map((run) => withScreenshotUrls(s3, run)));
+    }),
   copyTask: protectedProcedure
     .input(z.object({ videoId: z.string() }))
     .mutation(async ({ ctx: { prisma, session, s3, posthog }, input }) => {
@@ -1159,20 +2281,25 @@ export const videoRouter = createTRPCRouter({
       // 1. Get original video
       const originalVideo = await prisma.video.findUnique({
         where: { id: videoId },
+        include: {
+          analysisRevisions: {
+            orderBy: { createdAt: "asc" },
+          },
+        },
       });
 
       if (!originalVideo) {
         throw new TRPCError({ code: "NOT_FOUND" });
       }
 
-      // Check if user has access to this video (owner or shared)
-      if (originalVideo.userId !== session.user.id && !originalVideo.sharing && !originalVideo.linkShareSeo) {
+      // Check if user has access to this video (member, owner or shared)
+      if (!(await hasVideoAccess(prisma, originalVideo, session.user.id, "view"))) {
         throw new TRPCError({ code: "FORBIDDEN" });
       }
 
       // 2. Check user's video limit
       const userVideoCount = await prisma.video.count({
-        where: { userId: session.user.id },
+        where: { userId: session.user.id, uploadStatus: "uploaded" },
       });
 
       if (
@@ -1190,15 +2317,44 @@ export const videoRouter = createTRPCRouter({
       const newVideo = await prisma.video.create({
         data: {
           userId: session.user.id,
+          workspaceId: await getWorkspaceIdForNewVideos(prisma, session.user.id),
           title: `Copy of ${originalVideo.title}`,
           userContext: originalVideo.userContext,
           aiAnalysis: originalVideo.aiAnalysis,
           aiAnalysisGeneratedAt: originalVideo.aiAnalysisGeneratedAt,
           sharing: false, // Default to private for the copy
           linkShareSeo: false,
+          uploadStatus: originalVideo.uploadStatus,
         },
       });
 
+      // Copy the revision tree, remapping parent links onto the new rows
+      const revisionIds = new Map<string, string>();
+      for (const revision of originalVideo.analysisRevisions) {
+        const copy = await prisma.analysisRevision.create({
+          data: {
+            videoId: newVideo.id,
+            parentId: revision.parentId ? revisionIds.get(revision.parentId) : null,
+            createdAt: revision.createdAt,
+            kind: revision.kind,
+            prompt: revision.prompt,
+            markdown: revision.markdown,
+            plan: revision.plan ?? undefined,
+            planErrors: revision.planErrors,
+            timestamps: revision.timestamps ?? undefined,
+            model: revision.model,
+            incomplete: revision.incomplete,
+          },
+        });
+        revisionIds.set(revision.id, copy.id);
+      }
+      if (originalVideo.currentRevisionId) {
+        await prisma.video.update({
+          where: { id: newVideo.id },
+          data: { currentRevisionId: revisionIds.get(originalVideo.currentRevisionId) },
+        });
+      }
+
       // 4. Copy S3 objects
       const bucket = process.env.AWS_BUCKET_NAME;
       if (!bucket) {
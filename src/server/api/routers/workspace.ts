@@ -0,0 +1,254 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { type PrismaClient, type WorkspaceRole } from "@prisma/client";
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+
+const nameSchema = z.string().trim().min(1).max(60);
+const roleSchema = z.enum(["owner", "editor", "viewer"]);
+
+async function assertWorkspaceRole(
+  prisma: PrismaClient,
+  workspaceId: string,
+  userId: string,
+  roles: WorkspaceRole[]
+) {
+  const membership = await prisma.membership.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+  });
+  if (!membership || !roles.includes(membership.role)) {
+    throw new TRPCError({ code: "FORBIDDEN" });
+  }
+  return membership;
+}
+
+// A workspace always keeps an owner, so nobody is locked out of sharing and deleting its tasks
+async function assertNotLastOwner(
+  prisma: PrismaClient,
+  membership: { workspaceId: string; role: WorkspaceRole }
+) {
+  if (membership.role !== "owner") return;
+  const owners = await prisma.membership.count({
+    where: { workspaceId: membership.workspaceId, role: "owner" },
+  });
+  if (owners <= 1) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "A workspace needs at least one owner",
+    });
+  }
+}
+
+/**
+ * Workspaces share a task library between their members. Owners manage members, sharing and
+ * deletion, editors add and work on tasks and viewers only watch them.
+ */
+export const workspaceRouter = createTRPCRouter({
+  list: protectedProcedure.query(async ({ ctx: { prisma, session } }) => {
+    const [memberships, user] = await Promise.all([
+      prisma.membership.findMany({
+        where: { userId: session.user.id },
+        include: { workspace: { select: { id: true, name: true } } },
+        orderBy: { workspace: { name: "asc" } },
+      }),
+      prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { activeWorkspaceId: true },
+      }),
+    ]);
+
+    const workspaces = memberships.map(({ workspace, role }) => ({
+      ...workspace,
+      role,
+    }));
+    const activeWorkspaceId = user?.activeWorkspaceId ?? null;
+    return {
+      workspaces,
+      activeWorkspaceId: workspaces.some((w) => w.id === activeWorkspaceId)
+        ? activeWorkspaceId
+        : null,
+    };
+  }),
+  create: protectedProcedure
+    .input(z.object({ name: nameSchema }))
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      const workspace = await prisma.workspace.create({
+        data: {
+          name: input.name,
+          memberships: { create: { userId: session.user.id, role: "owner" } },
+        },
+      });
+      await prisma.user.update({
+        where: { id: session.user.id },
+        data: { activeWorkspaceId: workspace.id },
+      });
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "create workspace",
+        properties: { workspaceId: workspace.id },
+      });
+      void posthog?.shutdownAsync();
+
+      return workspace;
+    }),
+  setActive: protectedProcedure
+    .input(z.object({ workspaceId: z.string().nullable() }))
+    .mutation(async ({ ctx: { prisma, session }, input }) => {
+      if (input.workspaceId) {
+        await assertWorkspaceRole(prisma, input.workspaceId, session.user.id, [
+          "owner",
+          "editor",
+          "viewer",
+        ]);
+      }
+
+      await prisma.user.update({
+        where: { id: session.user.id },
+        data: { activeWorkspaceId: input.workspaceId },
+      });
+      return { activeWorkspaceId: input.workspaceId };
+    }),
+  rename: protectedProcedure
+    .input(z.object({ workspaceId: z.string(), name: nameSchema }))
+    .mutation(async ({ ctx: { prisma, session }, input }) => {
+      await assertWorkspaceRole(prisma, input.workspaceId, session.user.id, [
+        "owner",
+      ]);
+      return prisma.workspace.update({
+        where: { id: input.workspaceId },
+        data: { name: input.name },
+      });
+    }),
+  // Tasks of a deleted workspace go back to the personal libraries of whoever uploaded them
+  delete: protectedProcedure
+    .input(z.object({ workspaceId: z.string() }))
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      await assertWorkspaceRole(prisma, input.workspaceId, session.user.id, [
+        "owner",
+      ]);
+      await prisma.workspace.delete({ where: { id: input.workspaceId } });
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "delete workspace",
+        properties: { workspaceId: input.workspaceId },
+      });
+      void posthog?.shutdownAsync();
+    }),
+  getMembers: protectedProcedure
+    .input(z.object({ workspaceId: z.string() }))
+    .query(async ({ ctx: { prisma, session }, input }) => {
+      await assertWorkspaceRole(prisma, input.workspaceId, session.user.id, [
+        "owner",
+        "editor",
+        "viewer",
+      ]);
+      return prisma.membership.findMany({
+        where: { workspaceId: input.workspaceId },
+        include: {
+          user: { select: { id: true, name: true, email: true, image: true } },
+        },
+        orderBy: { createdAt: "asc" },
+      });
+    }),
+  addMember: protectedProcedure
+    .input(
+      z.object({
+        workspaceId: z.string(),
+        email: z.string().trim().toLowerCase().email(),
+        role: roleSchema,
+      })
+    )
+    .mutation(async ({ ctx: { prisma, session, posthog }, input }) => {
+      await assertWorkspaceRole(prisma, input.workspaceId, session.user.id, [
+        "owner",
+      ]);
+
+      const user = await prisma.user.findFirst({
+        where: { email: { equals: input.email, mode: "insensitive" } },
+      });
+      if (!user) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `No account uses ${input.email}. Ask them to sign in once first.`,
+        });
+      }
+      const existing = await prisma.membership.findUnique({
+        where: {
+          workspaceId_userId: {
+            workspaceId: input.workspaceId,
+            userId: user.id,
+          },
+        },
+      });
+      if (existing) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: `${input.email} is already a member`,
+        });
+      }
+
+      const membership = await prisma.membership.create({
+        data: {
+          workspaceId: input.workspaceId,
+          userId: user.id,
+          role: input.role,
+        },
+      });
+
+      posthog?.capture({
+        distinctId: session.user.id,
+        event: "add workspace member",
+        properties: { workspaceId: input.workspaceId, role: input.role },
+      });
+      void posthog?.shutdownAsync();
+
+      return membership;
+    }),
+  updateMemberRole: protectedProcedure
+    .input(z.object({ membershipId: z.string(), role: roleSchema }))
+    .mutation(async ({ ctx: { prisma, session }, input }) => {
+      const membership = await prisma.membership.findUnique({
+        where: { id: input.membershipId },
+      });
+      if (!membership) {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      await assertWorkspaceRole(
+        prisma,
+        membership.workspaceId,
+        session.user.id,
+        ["owner"]
+      );
+      if (input.role !== "owner") {
+        await assertNotLastOwner(prisma, membership);
+      }
+
+      return prisma.membership.update({
+        where: { id: membership.id },
+        data: { role: input.role },
+      });
+    }),
+  // Owners remove members; anyone may remove themselves to leave the workspace
+  removeMember: protectedProcedure
+    .input(z.object({ membershipId: z.string() }))
+    .mutation(async ({ ctx: { prisma, session }, input }) => {
+      const membership = await prisma.membership.findUnique({
+        where: { id: input.membershipId },
+      });
+      if (!membership) {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      if (membership.userId !== session.user.id) {
+        await assertWorkspaceRole(
+          prisma,
+          membership.workspaceId,
+          session.user.id,
+          ["owner"]
+        );
+      }
+      await assertNotLastOwner(prisma, membership);
+
+      await prisma.membership.delete({ where: { id: membership.id } });
+    }),
+});
@@ -0,0 +1,180 @@
+import {
+  type Prisma,
+  type PrismaClient,
+  type ShareAccess,
+  type Video,
+  type WorkspaceRole,
+} from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+/**
+ * What a user wants to do with a video: `view` it and its analysis, `comment` on it, `edit` it
+ * (rename, analyze, review, edit plans) or `manage` it (share, delete).
+ */
+export type VideoAccess = "view" | "comment" | "edit" | "manage";
+
+const ROLES_WITH_ACCESS: Record<VideoAccess, WorkspaceRole[]> = {
+  view: ["owner", "editor", "viewer"],
+  comment: ["owner", "editor", "viewer"],
+  edit: ["owner", "editor"],
+  manage: ["owner"],
+};
+
+const SHARES_WITH_ACCESS: Partial<Record<VideoAccess, ShareAccess[]>> = {
+  view: ["viewer", "commenter"],
+  comment: ["commenter"],
+};
+
+type AccessCheckedVideo = Pick<
+  Video,
+  "id" | "userId" | "workspaceId" | "sharing" | "linkShareSeo"
+>;
+
+export const roleAllows = (role: WorkspaceRole | null, access: VideoAccess) =>
+  !!role && ROLES_WITH_ACCESS[access].includes(role);
+
+/**
+ * The role a user has on a video. Personal videos are owned by their uploader; videos in a
+ * workspace follow the user's membership, so leaving a workspace also gives up its videos.
+ */
+export async function getVideoRole(
+  prisma: PrismaClient,
+  video: Pick<Video, "userId" | "workspaceId">,
+  userId: string | null | undefined
+): Promise<WorkspaceRole | null> {
+  if (!userId) return null;
+  if (!video.workspaceId) return video.userId === userId ? "owner" : null;
+
+  const membership = await prisma.membership.findUnique({
+    where: { workspaceId_userId: { workspaceId: video.workspaceId, userId } },
+  });
+  return membership?.role ?? null;
+}
+
+/** How a video was shared with the user by email, through an invite they accepted. */
+export async function getVideoShareAccess(
+  prisma: PrismaClient,
+  videoId: string,
+  userId: string | null | undefined
+): Promise<ShareAccess | null> {
+  if (!userId) return null;
+  const share = await prisma.videoShare.findFirst({
+    where: { videoId, userId },
+  });
+  return share?.access ?? null;
+}
+
+/**
+ * Whether a user may do something with a video. Anyone may view a video shared by link, and people
+ * it was shared with by email may view or comment on it depending on their invite.
+ */
+export async function hasVideoAccess(
+  prisma: PrismaClient,
+  video: AccessCheckedVideo,
+  userId: string | null | undefined,
+  access: VideoAccess
+) {
+  if (access === "view" && (video.sharing || video.linkShareSeo)) return true;
+  if (roleAllows(await getVideoRole(prisma, video, userId), access)) {
+    return true;
+  }
+
+  const shareAccesses = SHARES_WITH_ACCESS[access];
+  if (!shareAccesses) return false;
+  const shareAccess = await getVideoShareAccess(prisma, video.id, userId);
+  return !!shareAccess && shareAccesses.includes(shareAccess);
+}
+
+/**
+ * Whether a video may be played on other sites, through `/embed/<videoId>` and oEmbed. Embeds are
+ * seen by people without an account, so only while it's shared with anyone and the public link
+ * hasn't expired.
+ */
+export const canEmbedVideo = (
+  video: Pick<Video, "sharing" | "shareLinkExpiresAt">
+) =>
+  video.sharing &&
+  (!video.shareLinkExpiresAt || video.shareLinkExpiresAt > new Date());
+
+export async function assertVideoAccess(
+  prisma: PrismaClient,
+  video: AccessCheckedVideo,
+  userId: string | null | undefined,
+  access: VideoAccess
+) {
+  if (!(await hasVideoAccess(prisma, video, userId, access))) {
+    throw new TRPCError({ code: "FORBIDDEN" });
+  }
+}
+
+/** Loads a video the user may `access`, failing the same way whether it is missing or off limits. */
+export async function findVideoWithAccess(
+  prisma: PrismaClient,
+  videoId: string,
+  userId: string,
+  access: VideoAccess
+) {
+  const video = await prisma.video.findUnique({ where: { id: videoId } });
+  if (!video) {
+    throw new TRPCError({ code: "FORBIDDEN" });
+  }
+  await assertVideoAccess(prisma, video, userId, access);
+  return video;
+}
+
+/** A `where` clause matching the videos a user may `access` through ownership or membership. */
+export const videoAccessWhere = (
+  userId: string,
+  access: VideoAccess
+): Prisma.VideoWhereInput => ({
+  OR: [
+    { workspaceId: null, userId },
+    {
+      workspace: {
+        memberships: {
+          some: { userId, role: { in: ROLES_WITH_ACCESS[access] } },
+        },
+      },
+    },
+  ],
+});
+
+/**
+ * The workspace the user is working in and their role there, or null for their personal library.
+ * A workspace the user was removed from since switching to it counts as personal.
+ */
+export async function getActiveWorkspace(prisma: PrismaClient, userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { activeWorkspaceId: true },
+  });
+  if (!user?.activeWorkspaceId) return null;
+
+  const membership = await prisma.membership.findUnique({
+    where: {
+      workspaceId_userId: { workspaceId: user.activeWorkspaceId, userId },
+    },
+  });
+  return membership
+    ? { workspaceId: membership.workspaceId, role: membership.role }
+    : null;
+}
+
+/** A `where` clause for the task library the user is looking at. */
+export const libraryWhere = (
+  userId: string,
+  workspaceId: string | null
+): Prisma.VideoWhereInput =>
+  workspaceId ? { workspaceId } : { userId, workspaceId: null };
+
+/**
+ * The workspace new tasks of the user go to. Viewers can't add tasks to a workspace, so theirs go
+ * to their personal library.
+ */
+export async function getWorkspaceIdForNewVideos(
+  prisma: PrismaClient,
+  userId: string
+) {
+  const active = await getActiveWorkspace(prisma, userId);
+  return active && roleAllows(active.role, "edit") ? active.workspaceId : null;
+}
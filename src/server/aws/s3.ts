@@ -16,3 +16,28 @@ export const s3 = new S3({
     secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY ?? "",
   },
 });
+
+/**
+ * Deletes every object under `prefix`. Files generated for a video (plan run screenshots, ...) live
+ * under `<userId>/<videoId>/` so they can be removed together with it.
+ */
+export const deleteObjectsWithPrefix = async (client: S3, prefix: string) => {
+  let continuationToken: string | undefined;
+  do {
+    const list = await client.listObjectsV2({
+      Bucket: process.env.AWS_BUCKET_NAME,
+      Prefix: prefix,
+      ContinuationToken: continuationToken,
+    });
+    const keys = (list.Contents ?? []).flatMap((object) =>
+      object.Key ? [{ Key: object.Key }] : []
+    );
+    if (keys.length > 0) {
+      await client.deleteObjects({
+        Bucket: process.env.AWS_BUCKET_NAME,
+        Delete: { Objects: keys },
+      });
+    }
+    continuationToken = list.IsTruncated ? list.NextContinuationToken : undefined;
+  } while (continuationToken);
+};
@@ -0,0 +1,113 @@
+import {
+  type AnalysisProvider,
+  type GenerateRequest,
+} from "~/server/analysisProvider";
+
+const CHUNK_SIZE = 48;
+
+// Small stable hash so the same prompt always produces the same response
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "video";
+
+const buildResponse = ({ prompt, video, cachedContext }: GenerateRequest) => {
+  const digest = hashString(`${cachedContext ?? ""}\n${prompt}`);
+  const plan = {
+    task_description: `Replay recorded workflow ${digest}`,
+    steps: [
+      {
+        action: "click",
+        coordinate: [512, 384],
+        description: "Focus the application window",
+        element_description: "Center of the screen",
+        timestamp: "00:01",
+      },
+      {
+        action: "type",
+        coordinate: [512, 200],
+        text: digest,
+        description: "Enter the value shown in the recording",
+        element_description: "Search input at the top of the page",
+        timestamp: "00:03",
+      },
+      {
+        action: "wait",
+        description: "Wait for the results to load",
+        timestamp: "00:06",
+      },
+    ],
+  };
+
+  return [
+    `TITLE: Fake Analysis ${digest.slice(0, 4)}`,
+    "---ANALYSIS_START---",
+    "## Task Summary",
+    `Deterministic analysis \`${digest}\` from the fake provider.`,
+    "",
+    "## Inputs",
+    `- Cached context: ${cachedContext ?? "none"}`,
+    `- Attached video: ${video ? video.type : "none"}`,
+    `- Prompt length: ${prompt.length} characters`,
+    "",
+    "## Observed Steps",
+    "1. [00:01] Focus the application window",
+    "2. [00:03] Enter the value shown in the recording",
+    "3. [00:06] Wait for the results to load",
+    "---COMPUTER_USE_PLAN---",
+    JSON.stringify(plan, null, 2),
+  ].join("\n");
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw signal.reason instanceof Error ? signal.reason : new Error("Aborted");
+  }
+};
+
+/**
+ * Offline stand-in for a real model. Uploads and caches are simulated, and responses are derived
+ * from the request alone, so the same request always yields the same analysis and plan.
+ */
+export const fakeAnalysisProvider: AnalysisProvider = {
+  name: "fake",
+  model: "fake-analysis-v1",
+  contextNamePrefix: "fake-cache/",
+
+  async uploadVideo(filePath, { mimeType, displayName, onProgress, signal }) {
+    throwIfAborted(signal);
+    await onProgress?.("processing");
+    const name = `fake-files/${slugify(displayName)}-${hashString(filePath)}`;
+    return { name, uri: `fake://${name}`, mimeType };
+  },
+
+  async deleteVideo() {
+    // Nothing is stored
+  },
+
+  async cacheContext(video) {
+    return Promise.resolve(`fake-cache/${video.name.replace("fake-files/", "")}`);
+  },
+
+  async generate(request) {
+    throwIfAborted(request.signal);
+    return Promise.resolve(buildResponse(request));
+  },
+
+  async *stream(request) {
+    const response = buildResponse(request);
+    for (let i = 0; i < response.length; i += CHUNK_SIZE) {
+      throwIfAborted(request.signal);
+      // Yield to the event loop between chunks like a real network stream
+      await new Promise((resolve) => setImmediate(resolve));
+      yield response.slice(i, i + CHUNK_SIZE);
+    }
+  },
+};
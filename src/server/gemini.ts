@@ -1,5 +1,9 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, type Part } from "@google/genai";
 import "~/dotenv-config";
+import {
+  type AnalysisProvider,
+  type GenerateRequest,
+} from "~/server/analysisProvider";
 
 const apiKey = process.env.GEMINI_API_KEY;
 
@@ -8,3 +12,109 @@ if (!apiKey) {
 }
 
 export const genAI = new GoogleGenAI({apiKey: apiKey ?? ""});
+
+export const MODEL_NAME = "gemini-3-flash-preview";
+
+const toGeminiRequest = ({ prompt, video, cachedContext, signal }: GenerateRequest) => {
+  const parts: Part[] = [];
+  if (video?.type === "inline") {
+    parts.push({ inlineData: { mimeType: video.mimeType, data: video.data } });
+  } else if (video?.type === "file") {
+    parts.push({ fileData: { mimeType: video.mimeType, fileUri: video.uri } });
+  }
+  parts.push({ text: prompt });
+
+  return {
+    model: MODEL_NAME,
+    contents: [{ parts }],
+    config: {
+      cachedContent: cachedContext ? cachedContext : undefined,
+      abortSignal: signal,
+    },
+  };
+};
+
+export const geminiProvider: AnalysisProvider = {
+  name: "gemini",
+  model: MODEL_NAME,
+  contextNamePrefix: "cachedContents/",
+
+  async uploadVideo(filePath, { mimeType, displayName, onProgress, signal }) {
+    const uploadResult = await genAI.files.upload({
+      file: filePath,
+      config: {
+        mimeType,
+        displayName,
+        abortSignal: signal,
+      },
+    });
+
+    if (!uploadResult.name || !uploadResult.uri) {
+      throw new Error("Upload failed: No file name returned from Gemini");
+    }
+
+    await onProgress?.("processing");
+
+    // Wait for file to be processed, giving up when the caller aborts
+    const { name } = uploadResult;
+    const getFile = () => genAI.files.get({ name, config: { abortSignal: signal } });
+    let file = await getFile();
+    while (file.state === "PROCESSING") {
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+      signal?.throwIfAborted();
+      file = await getFile();
+    }
+
+    if (file.state === "FAILED") {
+      throw new Error("Video processing failed");
+    }
+
+    return {
+      name: uploadResult.name,
+      uri: uploadResult.uri,
+      mimeType: uploadResult.mimeType ?? mimeType,
+    };
+  },
+
+  async deleteVideo(video) {
+    await genAI.files.delete({ name: video.name });
+  },
+
+  async cacheContext(video, { displayName, ttlSeconds }) {
+    const cache = await genAI.caches.create({
+      model: MODEL_NAME,
+      config: {
+        displayName,
+        contents: [
+          {
+            role: "user",
+            parts: [{
+              fileData: {
+                mimeType: video.mimeType,
+                fileUri: video.uri,
+              },
+            }],
+          },
+        ],
+        ttl: `${ttlSeconds}s`,
+        tools: [
+          { urlContext: {} }
+        ]
+      },
+    });
+
+    return cache.name ?? null;
+  },
+
+  async generate(request) {
+    const result = await genAI.models.generateContent(toGeminiRequest(request));
+    return result.text ?? "";
+  },
+
+  async *stream(request) {
+    const stream = await genAI.models.generateContentStream(toGeminiRequest(request));
+    for await (const chunk of stream) {
+      yield chunk.text ?? "";
+    }
+  },
+};
@@ -0,0 +1,139 @@
+import axios from "axios";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/** Sends transactional email. Everything that mails users goes through this interface. */
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// Messages "sent" by the outbox transport, newest last
+export const outbox: MailMessage[] = [];
+
+/** Keeps messages in `outbox` instead of sending them, for development and tests. */
+const outboxTransport: MailTransport = {
+  name: "outbox",
+  send(message) {
+    outbox.push(message);
+    console.log(`📧 Mail to ${message.to}: ${message.subject}`);
+    return Promise.resolve();
+  },
+};
+
+const resendTransport: MailTransport = {
+  name: "resend",
+  async send(message) {
+    await axios.post(
+      "https://api.resend.com/emails",
+      {
+        from: process.env.MAIL_FROM ?? "Greadings <noreply@greadings.com>",
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      },
+      {
+        headers: {
+          Authorization: `Bearer ${process.env.RESEND_API_KEY ?? ""}`,
+        },
+      }
+    );
+  },
+};
+
+const transports = {
+  outbox: outboxTransport,
+  resend: resendTransport,
+} satisfies Record<string, MailTransport>;
+
+export type MailTransportName = keyof typeof transports;
+
+const isMailTransportName = (name: string): name is MailTransportName =>
+  name in transports;
+
+/**
+ * Returns the transport registered under `name`, falling back to `MAIL_TRANSPORT`, then Resend when
+ * `RESEND_API_KEY` is set and otherwise the outbox, so nothing is mailed without configuration.
+ */
+export const getMailTransport = (name?: string): MailTransport => {
+  const requested = name ?? process.env.MAIL_TRANSPORT;
+  if (requested && isMailTransportName(requested)) {
+    return transports[requested];
+  }
+  return process.env.RESEND_API_KEY ? transports.resend : transports.outbox;
+};
+
+// Where links in emails and embeds point. Built from the configured `NEXTAUTH_URL` rather than the
+// request's Host header, which whoever sends the request controls. On Vercel it's `VERCEL_URL`,
+// without the scheme (see `env.mjs`).
+export const getAppUrl = () => {
+  const url = process.env.NEXTAUTH_URL || "http://localhost:3000";
+  return (/^https?:\/\//.test(url) ? url : `https://${url}`).replace(/\/$/, "");
+};
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const buildShareInviteMail = ({
+  to,
+  inviterName,
+  videoTitle,
+  url,
+  canComment,
+}: {
+  to: string;
+  inviterName: string;
+  videoTitle: string;
+  url: string;
+  canComment: boolean;
+}): MailMessage => {
+  const action = canComment ? "view and comment on" : "view";
+  return {
+    to,
+    subject: `${inviterName} shared "${videoTitle}" with you`,
+    text: `${inviterName} invited you to ${action} "${videoTitle}" on Greadings.\n\nOpen it at ${url}\n\nThe link gives access to the first account that signs in with it, so don't forward it.`,
+    html: `<p>${escapeHtml(
+      inviterName
+    )} invited you to ${action} <strong>${escapeHtml(
+      videoTitle
+    )}</strong> on Greadings.</p><p><a href="${escapeHtml(
+      url
+    )}">Open the task</a></p><p>The link gives access to the first account that signs in with it, so don't forward it.</p>`,
+  };
+};
+
+export const buildMentionMail = ({
+  to,
+  authorName,
+  videoTitle,
+  comment,
+  url,
+}: {
+  to: string;
+  authorName: string;
+  videoTitle: string;
+  comment: string;
+  url: string;
+}): MailMessage => ({
+  to,
+  subject: `${authorName} mentioned you on "${videoTitle}"`,
+  text: `${authorName} mentioned you in a comment on "${videoTitle}":\n\n${comment}\n\nReply at ${url}`,
+  html: `<p>${escapeHtml(
+    authorName
+  )} mentioned you in a comment on <strong>${escapeHtml(
+    videoTitle
+  )}</strong>:</p><blockquote>${escapeHtml(comment).replace(
+    /\n/g,
+    "<br>"
+  )}</blockquote><p><a href="${escapeHtml(url)}">Reply</a></p>`,
+});
@@ -0,0 +1,268 @@
+import { lookup } from "dns/promises";
+import { createServer, request, type Server } from "http";
+import { BlockList, connect, isIP, type AddressInfo } from "net";
+import { type Page } from "playwright";
+import {
+  PLAN_SCROLL_STEP_PX,
+  PLAN_VIEWPORT,
+  PLAN_WAIT_STEP_MS,
+  type ComputerUsePlan,
+  type ComputerUseStep,
+} from "~/utils/computerUsePlan";
+
+const STEP_TIMEOUT_MS = 15 * 1000;
+// Longest a whole replay may take, well within the lease a plan worker holds on the run
+// (`PLAN_RUN_TIMEOUT_MS`). Steps that don't start in time fail the run.
+export const PLAN_EXECUTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type PlanStepStatus = "passed" | "failed" | "skipped";
+
+export interface PlanStepResult {
+  index: number;
+  action: ComputerUseStep["action"];
+  description: string;
+  status: PlanStepStatus;
+  error?: string;
+  durationMs: number;
+  // JPEG of the page after the step ran (or failed)
+  screenshot?: Buffer;
+}
+
+export interface PlanExecutionResult {
+  steps: PlanStepResult[];
+  // Index of the step that failed, or null when every step passed
+  failedStep: number | null;
+}
+
+/** Whether plans may be replayed on this server. Off by default since it browses to user URLs. */
+export const isPlanExecutorEnabled = () => process.env.ENABLE_PLAN_EXECUTOR === "true";
+
+// Plans come from users, so the browser must not reach the server's own network: private, loopback,
+// link-local (including cloud metadata at 169.254.169.254), shared and reserved ranges are blocked.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const BLOCKED_ADDRESSES = new BlockList();
+(
+  [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["224.0.0.0", 4],
+    ["240.0.0.0", 4],
+  ] as const
+).forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4"));
+(
+  [
+    ["::", 128],
+    ["::1", 128],
+    ["64:ff9b::", 96],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+  ] as const
+).forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6"));
+
+/**
+ * Resolves `hostname` to the address plans may connect to, or null when it is, or resolves to, an
+ * address they may not browse to.
+ */
+const resolvePublicAddress = async (hostname: string) => {
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : // Hosts that don't resolve are blocked too, the browser couldn't load them anyway
+      await lookup(host, { all: true, verbatim: true }).catch(() => []);
+  const blocked = addresses.some(({ address, family }) =>
+    BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+  return blocked ? null : addresses[0]?.address ?? null;
+};
+
+/** Fails for URLs that aren't on the public internet, before a plan browses to them. */
+export async function assertPublicUrl(url: string) {
+  const { hostname, protocol } = new URL(url);
+  if ((protocol !== "http:" && protocol !== "https:") || !(await resolvePublicAddress(hostname))) {
+    throw new Error(`${url} isn't a public web address`);
+  }
+}
+
+// Headers meant for the proxy rather than the site
+const PROXY_HEADERS = ["proxy-authorization", "proxy-connection"];
+
+/**
+ * Starts the proxy all of a replay's traffic goes through. Redirects, clicks, subresources and
+ * WebSockets can lead anywhere, so every connection is checked, not just the start URL. The proxy
+ * connects to the address it checked, so a host can't resolve to a public address for the check and
+ * a private one for the browser.
+ */
+const startEgressProxy = async () => {
+  // Plain HTTP requests are forwarded with their absolute URL
+  const server = createServer((req, res) => {
+    void (async () => {
+      const url = new URL(req.url ?? "", "http://invalid");
+      const address = url.protocol === "http:" ? await resolvePublicAddress(url.hostname) : null;
+      if (!address) {
+        res.writeHead(403).end();
+        return;
+      }
+
+      const headers = { ...req.headers };
+      PROXY_HEADERS.forEach((header) => delete headers[header]);
+      const upstream = request(
+        {
+          host: address,
+          port: url.port || 80,
+          method: req.method,
+          path: `${url.pathname}${url.search}`,
+          headers,
+        },
+        (upstreamRes) => {
+          res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.headers);
+          upstreamRes.pipe(res);
+        }
+      );
+      upstream.on("error", () => res.destroy());
+      req.pipe(upstream);
+    })();
+  });
+
+  // HTTPS is tunneled with CONNECT `host:port`
+  server.on("connect", (req, clientSocket, head) => {
+    void (async () => {
+      const { hostname, port } = new URL(`http://${req.url ?? ""}`);
+      const address = await resolvePublicAddress(hostname);
+      if (!address) {
+        clientSocket.end("HTTP/1.1 403 Forbidden\r\n\r\n");
+        return;
+      }
+
+      const upstream = connect(Number(port) || 443, address, () => {
+        clientSocket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+        upstream.write(head);
+        upstream.pipe(clientSocket);
+        clientSocket.pipe(upstream);
+      });
+      upstream.on("error", () => clientSocket.destroy());
+      clientSocket.on("error", () => upstream.destroy());
+    })();
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return server;
+};
+
+const settle = async (page: Page) => {
+  // Clicks often navigate; give the next page a chance to load without failing if nothing happens
+  await page.waitForLoadState("domcontentloaded", { timeout: STEP_TIMEOUT_MS }).catch(() => undefined);
+};
+
+const runStep = async (page: Page, step: ComputerUseStep) => {
+  const [x, y] = step.coordinate ?? [PLAN_VIEWPORT.width / 2, PLAN_VIEWPORT.height / 2];
+
+  switch (step.action) {
+    case "click":
+      await page.mouse.click(x, y);
+      await settle(page);
+      break;
+    case "type":
+      if (step.coordinate) await page.mouse.click(x, y);
+      await page.keyboard.type(step.text ?? "", { delay: 20 });
+      break;
+    case "scroll":
+      await page.mouse.move(x, y);
+      await page.mouse.wheel(0, PLAN_SCROLL_STEP_PX);
+      break;
+    case "wait":
+      await page.waitForTimeout(PLAN_WAIT_STEP_MS);
+      break;
+  }
+};
+
+/**
+ * Replays a computer use plan in headless Chromium, starting at `startUrl`, and screenshots the page
+ * after every step. Execution stops at the first failing step, or once the replay has taken
+ * `PLAN_EXECUTION_TIMEOUT_MS`; the remaining steps are skipped.
+ */
+export async function executePlan(
+  plan: ComputerUsePlan,
+  { startUrl }: { startUrl: string }
+): Promise<PlanExecutionResult> {
+  const deadline = Date.now() + PLAN_EXECUTION_TIMEOUT_MS;
+  await assertPublicUrl(startUrl);
+
+  // Loaded lazily, as only the plan worker runs browsers
+  const { chromium } = await import("playwright");
+  const proxy: Server = await startEgressProxy();
+  const { port } = proxy.address() as AddressInfo;
+
+  const steps: PlanStepResult[] = [];
+  let failedStep: number | null = null;
+
+  try {
+    // Playwright sends loopback traffic through the proxy too, so it is checked like the rest
+    const browser = await chromium.launch({
+      headless: true,
+      proxy: { server: `http://127.0.0.1:${port}` },
+    });
+
+    try {
+      // Service workers would bypass the WebSocket route below
+      const page = await browser.newPage({ viewport: PLAN_VIEWPORT, serviceWorkers: "block" });
+      page.setDefaultTimeout(STEP_TIMEOUT_MS);
+      // Replays don't need WebSockets, so they are closed instead of connected
+      await page.routeWebSocket(/.*/, (ws) => ws.close());
+      await page.goto(startUrl, { waitUntil: "domcontentloaded" });
+
+      for (const [index, step] of plan.steps.entries()) {
+        const result: PlanStepResult = {
+          index,
+          action: step.action,
+          description: step.description,
+          status: "skipped",
+          durationMs: 0,
+        };
+        steps.push(result);
+        if (failedStep !== null) continue;
+
+        const remainingMs = deadline - Date.now();
+        if (remainingMs <= 0) {
+          result.status = "failed";
+          result.error = `The plan didn't finish within ${PLAN_EXECUTION_TIMEOUT_MS / 60000} minutes`;
+          failedStep = index;
+          continue;
+        }
+        page.setDefaultTimeout(Math.min(STEP_TIMEOUT_MS, remainingMs));
+
+        const startedAt = Date.now();
+        try {
+          await runStep(page, step);
+          result.status = "passed";
+        } catch (error) {
+          result.status = "failed";
+          result.error = error instanceof Error ? error.message : "Step failed";
+          failedStep = index;
+        }
+        result.durationMs = Date.now() - startedAt;
+        result.screenshot = await page
+          .screenshot({ type: "jpeg", quality: 70 })
+          .catch(() => undefined);
+      }
+    } finally {
+      await browser.close();
+    }
+  } finally {
+    proxy.close();
+  }
+
+  return { steps, failedStep };
+}
+
+/** A step as stored in `PlanRun.steps`, with its screenshot saved to S3. */
+export type PlanRunStepLog = Omit<PlanStepResult, "screenshot"> & {
+  screenshotKey: string | null;
+};
@@ -0,0 +1,111 @@
+import { PutObjectCommand, type S3 } from "@aws-sdk/client-s3";
+import { type PlanRun, type Prisma, type PrismaClient } from "@prisma/client";
+import { computerUsePlanSchema } from "~/utils/computerUsePlan";
+import { executePlan, type PlanRunStepLog } from "~/server/planExecutor";
+
+// Longest a run may take before it is considered abandoned. Replays stop after
+// `PLAN_EXECUTION_TIMEOUT_MS`, leaving time to save their screenshots.
+export const PLAN_RUN_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Claims the oldest queued plan run, taking a lease on it for `PLAN_RUN_TIMEOUT_MS`. Runs whose
+ * lease expired belonged to a worker that hung or died; they are failed rather than retried, since
+ * replaying a plan acts on real sites and half of it may already have run.
+ */
+export async function claimNextPlanRun(
+  prisma: PrismaClient
+): Promise<PlanRun | null> {
+  const now = new Date();
+  await prisma.planRun.updateMany({
+    where: { status: "running", lockedUntil: { lt: now } },
+    data: {
+      status: "failed",
+      error: "The run timed out",
+      lockedUntil: null,
+      finishedAt: now,
+    },
+  });
+
+  for (;;) {
+    const candidate = await prisma.planRun.findFirst({
+      where: { status: "queued" },
+      orderBy: { createdAt: "asc" },
+    });
+    if (!candidate) return null;
+
+    // Only claim the run if no other worker claimed it since we read it
+    const { count } = await prisma.planRun.updateMany({
+      where: { id: candidate.id, status: "queued" },
+      data: {
+        status: "running",
+        lockedUntil: new Date(Date.now() + PLAN_RUN_TIMEOUT_MS),
+      },
+    });
+    if (count === 0) continue;
+
+    return prisma.planRun.findUnique({ where: { id: candidate.id } });
+  }
+}
+
+/** Replays a claimed run's plan, saving step screenshots to S3 and recording the outcome. */
+export async function runPlanRun(prisma: PrismaClient, s3: S3, run: PlanRun) {
+  try {
+    const revision = await prisma.analysisRevision.findUniqueOrThrow({
+      where: { id: run.revisionId },
+      include: { video: { select: { userId: true } } },
+    });
+    const plan = computerUsePlanSchema.parse(revision.plan);
+
+    const result = await executePlan(plan, { startUrl: run.startUrl });
+
+    const steps: PlanRunStepLog[] = await Promise.all(
+      result.steps.map(async ({ screenshot, ...step }) => {
+        if (!screenshot) return { ...step, screenshotKey: null };
+        const screenshotKey = `${revision.video.userId}/${run.videoId}/runs/${run.id}/${step.index}.jpg`;
+        await s3.send(
+          new PutObjectCommand({
+            Bucket: process.env.AWS_BUCKET_NAME,
+            Key: screenshotKey,
+            Body: screenshot,
+            ContentType: "image/jpeg",
+          })
+        );
+        return { ...step, screenshotKey };
+      })
+    );
+
+    return await finishPlanRun(prisma, run, {
+      status: result.failedStep === null ? "passed" : "failed",
+      steps,
+      failedStep: result.failedStep,
+    });
+  } catch (error) {
+    console.error(`Plan run ${run.id} failed:`, error);
+    return await finishPlanRun(prisma, run, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Failed to run plan",
+    });
+  }
+}
+
+// Only records the outcome while the run is still ours; once its lease expired another worker may
+// already have failed it, and that result stands.
+const finishPlanRun = async (
+  prisma: PrismaClient,
+  run: PlanRun,
+  data: Pick<
+    Prisma.PlanRunUpdateManyMutationInput,
+    "status" | "steps" | "failedStep" | "error"
+  >
+) => {
+  const { count } = await prisma.planRun.updateMany({
+    where: { id: run.id, status: "running" },
+    data: { ...data, lockedUntil: null, finishedAt: new Date() },
+  });
+  if (count === 0) {
+    console.warn(
+      `Plan run ${run.id} finished after it timed out, its result was discarded`
+    );
+  }
+  return prisma.planRun.findUniqueOrThrow({ where: { id: run.id } });
+};
@@ -1,14 +1,47 @@
 import { Ratelimit } from "@upstash/ratelimit";
 import { Redis } from "@upstash/redis";
+import { type NextApiRequest } from "next";
 import "~/dotenv-config";
 
-export const rateLimit =
+const redis =
   !!process.env.UPSTASH_REDIS_REST_URL && !!process.env.UPSTASH_REDIS_REST_TOKEN
-    ? new Ratelimit({
-        redis: new Redis({
-          url: process.env.UPSTASH_REDIS_REST_URL,
-          token: process.env.UPSTASH_REDIS_REST_TOKEN,
-        }),
-        limiter: Ratelimit.slidingWindow(60, "60 s"),
+    ? new Redis({
+        url: process.env.UPSTASH_REDIS_REST_URL,
+        token: process.env.UPSTASH_REDIS_REST_TOKEN,
       })
     : null;
+
+export const rateLimit = redis
+  ? new Ratelimit({
+      redis,
+      limiter: Ratelimit.slidingWindow(60, "60 s"),
+    })
+  : null;
+
+// Password attempts on share links, so passwords can't be guessed. Each link allows more attempts
+// than each IP, since everyone it was shared with counts towards the link's limit.
+export const shareLinkPasswordRateLimit = redis
+  ? {
+      perIp: new Ratelimit({
+        redis,
+        limiter: Ratelimit.slidingWindow(10, "10 m"),
+        prefix: "ratelimit:share-link-password:ip",
+      }),
+      perLink: new Ratelimit({
+        redis,
+        limiter: Ratelimit.slidingWindow(50, "10 m"),
+        prefix: "ratelimit:share-link-password:link",
+      }),
+    }
+  : null;
+
+// Behind Vercel's proxy the client is the first address of `x-forwarded-for`
+export const getClientIp = (
+  req: Pick<NextApiRequest, "headers" | "socket">
+) => {
+  const forwardedFor = req.headers["x-forwarded-for"];
+  const ip = (
+    Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor
+  )?.split(",")[0];
+  return ip?.trim() || req.socket.remoteAddress || "unknown";
+};
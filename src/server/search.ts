@@ -0,0 +1,123 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+
+// Marks matches in `ts_headline` output; unlikely to appear in titles or analyses
+const HIGHLIGHT_START = "⟦";
+const HIGHLIGHT_END = "⟧";
+
+/** Part of a search snippet; `highlight` is set on the words that matched the query. */
+export type SearchSnippetPart = { text: string; highlight: boolean };
+
+export type VideoSearchHit = {
+  id: string;
+  rank: number;
+  snippet: SearchSnippetPart[];
+};
+
+/**
+ * Turns what the user typed into a prefix-matching `tsquery`, e.g. `weekly rep` into
+ * `weekly:* & rep:*`, so results show up while typing. Only letters and digits are kept, so the
+ * result is always valid `to_tsquery` syntax. Returns null when nothing searchable is left.
+ */
+export function buildSearchQuery(query: string) {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.length > 0 ? words.map((word) => `${word}:*`).join(" & ") : null;
+}
+
+// Analyses are markdown; snippets are shown as plain text
+const stripMarkdown = (text: string) =>
+  text.replace(/[#*`>|_]+/g, "").replace(/\s+/g, " ");
+
+/** Splits `ts_headline` output into plain and highlighted parts. */
+export function parseHeadline(headline: string): SearchSnippetPart[] {
+  return headline
+    .split(
+      new RegExp(`(${HIGHLIGHT_START}[^${HIGHLIGHT_END}]*${HIGHLIGHT_END})`)
+    )
+    .map((part) =>
+      part.startsWith(HIGHLIGHT_START)
+        ? { text: stripMarkdown(part.slice(1, -1)), highlight: true }
+        : { text: stripMarkdown(part), highlight: false }
+    )
+    .filter((part) => part.text);
+}
+
+/**
+ * Ranks the uploaded videos of a task library with Postgres full-text search over the title, user
+ * context, rendered analysis and transcript (weighted in that order). The library is a workspace's,
+ * or the user's personal one when `workspaceId` is null, like `libraryWhere` in
+ * `~/server/authorization`. Returns one page of hits, best first,
+ * each with a snippet around the matches.
+ */
+export async function searchVideos(
+  prisma: PrismaClient,
+  {
+    userId,
+    workspaceId,
+    query,
+    limit,
+    offset = 0,
+  }: {
+    userId: string;
+    workspaceId: string | null;
+    query: string;
+    limit: number;
+    offset?: number;
+  }
+) {
+  const tsquery = buildSearchQuery(query);
+  if (!tsquery) return { hits: [] as VideoSearchHit[], hasMore: false };
+
+  const library = workspaceId
+    ? Prisma.sql`v."workspaceId" = ${workspaceId}`
+    : Prisma.sql`v."userId" = ${userId} AND v."workspaceId" IS NULL`;
+
+  const searchVector = Prisma.sql`(coalesce(v."searchVector", ''::tsvector) || coalesce(t."searchVector", ''::tsvector))`;
+
+  // The tsvectors are generated columns with GIN indexes, see the `search_vectors` migration. The
+  // indexes find the tasks with any of the words in either table; since the words of a match can be
+  // split between a task and its transcript, the whole query is then checked on both together.
+  // Snippets are only built for the page of results, `ts_headline` is slow on long analyses.
+  const rows = await prisma.$queryRaw<
+    { id: string; rank: number; headline: string | null }[]
+  >(Prisma.sql`
+    WITH q AS (
+      SELECT to_tsquery('english', ${tsquery}) AS query,
+        to_tsquery('english', ${tsquery.replace(/ & /g, " | ")}) AS "anyWord"
+    ),
+    matches AS (
+      SELECT v."id", v."createdAt", v."userContext", v."aiAnalysis", t."text" AS "transcript",
+        ts_rank(${searchVector}, q.query) AS "rank",
+        q.query
+      FROM "Video" v
+      LEFT JOIN "VideoTranscript" t ON t."videoId" = v."id"
+      CROSS JOIN q
+      WHERE ${library}
+        AND v."uploadStatus" = 'uploaded'
+        AND v."id" IN (
+          SELECT "id" FROM "Video", q WHERE "searchVector" @@ q."anyWord"
+          UNION
+          SELECT "videoId" FROM "VideoTranscript", q WHERE "searchVector" @@ q."anyWord"
+        )
+        AND ${searchVector} @@ q.query
+      ORDER BY "rank" DESC, v."createdAt" DESC
+      LIMIT ${limit + 1} OFFSET ${offset}
+    )
+    SELECT "id", "rank"::float8 AS "rank",
+      ts_headline(
+        'english',
+        concat_ws(' … ', "userContext", "aiAnalysis", "transcript"),
+        query,
+        ${`StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`}
+      ) AS "headline"
+    FROM matches
+    ORDER BY "rank" DESC, "createdAt" DESC
+  `);
+
+  const hits = rows.slice(0, limit).map((row) => ({
+    id: row.id,
+    rank: row.rank,
+    snippet: parseHeadline(row.headline ?? ""),
+  }));
+
+  return { hits, hasMore: rows.length > limit };
+}
@@ -0,0 +1,135 @@
+import { type PrismaClient, type ShareLink } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import bcrypt from "bcryptjs";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { shareLinkPasswordRateLimit } from "~/server/rateLimit";
+
+// How long an opened link keeps working in the browser that opened it, like presigned segment URLs
+const GRANT_EXPIRES_IN = 6 * 60 * 60;
+
+// Grants are only checked by this server, so the session secret signs them too
+const getGrantSecret = () => process.env.NEXTAUTH_SECRET ?? "development";
+
+export const createShareLinkToken = () => randomBytes(18).toString("base64url");
+
+export const hashShareLinkPassword = (password: string) =>
+  bcrypt.hash(password, 10);
+
+const signGrantPayload = (payload: string) =>
+  createHmac("sha256", getGrantSecret()).update(payload).digest("base64url");
+
+/**
+ * A grant proves the holder opened a share link, so the video, its analysis and the media routes
+ * can be loaded without asking for the password or counting another view each time.
+ */
+const signShareGrant = (link: ShareLink) => {
+  const expiresAt = Math.min(
+    Date.now() + GRANT_EXPIRES_IN * 1000,
+    link.expiresAt?.getTime() ?? Infinity
+  );
+  const payload = `${link.id}.${Math.floor(expiresAt / 1000)}`;
+  return `${payload}.${signGrantPayload(payload)}`;
+};
+
+const verifyShareGrant = (grant: string) => {
+  const [linkId, expiresAt, signature] = grant.split(".");
+  if (!linkId || !expiresAt || !signature) return null;
+
+  const expected = Buffer.from(signGrantPayload(`${linkId}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+  return Number(expiresAt) * 1000 > Date.now() ? linkId : null;
+};
+
+const isShareLinkExpired = (link: ShareLink) =>
+  !!link.expiresAt && link.expiresAt <= new Date();
+
+const assertPasswordAttemptAllowed = async (link: ShareLink, ip: string) => {
+  if (!shareLinkPasswordRateLimit) return;
+  const [perLink, perIp] = await Promise.all([
+    shareLinkPasswordRateLimit.perLink.limit(link.id),
+    shareLinkPasswordRateLimit.perIp.limit(ip),
+  ]);
+  if (!perLink.success || !perIp.success) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: "Too many password attempts, try again in a few minutes",
+    });
+  }
+};
+
+/**
+ * Opens a share link: checks its password, expiry and view limit, counts the view and returns a
+ * grant for the video. Fails with UNAUTHORIZED when the password is missing or wrong, so the page
+ * can ask for it. Password attempts are rate limited per link and per `ip`.
+ */
+export async function openShareLink(
+  prisma: PrismaClient,
+  {
+    token,
+    password,
+    ip,
+  }: { token: string; password?: string | null; ip: string }
+) {
+  const link = await prisma.shareLink.findUnique({ where: { token } });
+  if (!link) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "This link was revoked or doesn't exist",
+    });
+  }
+  if (isShareLinkExpired(link)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "This link has expired",
+    });
+  }
+
+  if (link.passwordHash) {
+    if (!password) {
+      throw new TRPCError({
+        code: "UNAUTHORIZED",
+        message: "This link is password protected",
+      });
+    }
+    await assertPasswordAttemptAllowed(link, ip);
+    if (!(await bcrypt.compare(password, link.passwordHash))) {
+      throw new TRPCError({ code: "UNAUTHORIZED", message: "Wrong password" });
+    }
+  }
+
+  // Counted in the update itself so concurrent opens can't go past the limit
+  const counted = await prisma.shareLink.updateMany({
+    where: {
+      id: link.id,
+      ...(link.maxViews !== null && { viewCount: { lt: link.maxViews } }),
+    },
+    data: { viewCount: { increment: 1 } },
+  });
+  if (counted.count === 0) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "This link has reached its view limit",
+    });
+  }
+
+  return { videoId: link.videoId, grant: signShareGrant(link) };
+}
+
+/** The link a grant was issued for, while it still gives access to `videoId`. */
+export async function getShareLinkForGrant(
+  prisma: PrismaClient,
+  grant: string | null | undefined,
+  videoId: string
+) {
+  const linkId = grant ? verifyShareGrant(grant) : null;
+  if (!linkId) return null;
+
+  const link = await prisma.shareLink.findUnique({ where: { id: linkId } });
+  if (!link || link.videoId !== videoId || isShareLinkExpired(link)) {
+    return null;
+  }
+  return link;
+}
@@ -0,0 +1,208 @@
+import { type PrismaClient, type VideoTranscript } from "@prisma/client";
+import fs from "fs";
+import { z } from "zod";
+import {
+  getAnalysisProvider,
+  type AnalysisProvider,
+} from "~/server/analysisProvider";
+import { formatTimestamp, formatVttTimestamp } from "~/utils/timestamps";
+
+/** A stretch of speech in a recording, with times in seconds. */
+export type TranscriptSegment = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+const transcriptSegmentsSchema = z.array(
+  z.object({
+    start: z.coerce.number().min(0),
+    end: z.coerce.number().min(0),
+    text: z.string(),
+  })
+);
+
+/**
+ * Turns speech in an audio file into timed segments. The video pipeline only talks to
+ * transcription services through this interface, like `AnalysisProvider` for analyses.
+ */
+export interface Transcriber {
+  name: string;
+  // Stored on each transcript as `VideoTranscript.model`
+  model: string;
+  transcribe(
+    filePath: string,
+    options: { mimeType: string; signal?: AbortSignal }
+  ): Promise<TranscriptSegment[]>;
+}
+
+const TRANSCRIPTION_PROMPT = `Transcribe the speech in this recording.
+
+Respond with only a JSON array, without markdown code blocks, where each item is one sentence or short phrase:
+[{ "start": 0.0, "end": 2.4, "text": "..." }]
+
+"start" and "end" are in seconds from the beginning of the recording. Leave out silence, music and background noise. Respond with [] if nobody speaks.`;
+
+// Lenient about code fences and text around the array, which models add despite being asked not to
+const parseSegments = (response: string) => {
+  const start = response.indexOf("[");
+  const end = response.lastIndexOf("]");
+  if (start === -1 || end < start) {
+    throw new Error("The transcription response has no JSON array");
+  }
+  const json: unknown = JSON.parse(response.slice(start, end + 1));
+  return transcriptSegmentsSchema.parse(json);
+};
+
+/** Transcribes with a multimodal analysis model by uploading the audio and asking for JSON. */
+const createModelTranscriber = (provider: AnalysisProvider): Transcriber => ({
+  name: provider.name,
+  model: provider.model,
+
+  async transcribe(filePath, { mimeType, signal }) {
+    const uploaded = await provider.uploadVideo(filePath, {
+      mimeType,
+      displayName: "Transcription",
+    });
+    try {
+      const response = await provider.generate({
+        prompt: TRANSCRIPTION_PROMPT,
+        video: { type: "file", mimeType: uploaded.mimeType, uri: uploaded.uri },
+        signal,
+      });
+      return parseSegments(response);
+    } finally {
+      await provider.deleteVideo(uploaded);
+    }
+  },
+});
+
+const FAKE_SEGMENT_TEXTS = [
+  "Let me show you what I'm trying to do.",
+  "First I open the page and look for the search box.",
+  "Then I type the value and wait for the results.",
+];
+
+/**
+ * Offline stand-in for a transcription service. Segments are derived from the file size alone, so
+ * the same file always yields the same transcript and no network or API keys are needed.
+ */
+export const fakeTranscriber: Transcriber = {
+  name: "fake",
+  model: "fake-transcriber-v1",
+
+  async transcribe(filePath, { signal }) {
+    if (signal?.aborted) {
+      throw signal.reason instanceof Error
+        ? signal.reason
+        : new Error("Aborted");
+    }
+    const { size } = await fs.promises.stat(filePath);
+    return FAKE_SEGMENT_TEXTS.map((text, i) => ({
+      start: i * 3,
+      end: i * 3 + 2.5,
+      text: i === 0 ? `${text} (${size} bytes)` : text,
+    }));
+  },
+};
+
+const transcribers = {
+  gemini: createModelTranscriber(getAnalysisProvider("gemini")),
+  fake: fakeTranscriber,
+} satisfies Record<string, Transcriber>;
+
+export type TranscriberName = keyof typeof transcribers;
+
+const isTranscriberName = (name: string): name is TranscriberName =>
+  name in transcribers;
+
+/**
+ * Returns the transcriber registered under `name`, falling back to `TRANSCRIPTION_PROVIDER`, then
+ * `ANALYSIS_PROVIDER` (so `ANALYSIS_PROVIDER=fake` keeps the whole pipeline offline) and then Gemini.
+ */
+export const getTranscriber = (name?: string): Transcriber => {
+  for (const requested of [
+    name,
+    process.env.TRANSCRIPTION_PROVIDER,
+    process.env.ANALYSIS_PROVIDER,
+  ]) {
+    if (requested && isTranscriberName(requested)) {
+      return transcribers[requested];
+    }
+  }
+  return transcribers.gemini;
+};
+
+/** Reads the segments stored in `VideoTranscript.segments`, skipping malformed ones. */
+export const parseTranscriptSegments = (
+  value: unknown
+): TranscriptSegment[] => {
+  const parsed = transcriptSegmentsSchema.safeParse(value);
+  return parsed.success ? parsed.data : [];
+};
+
+/** Renders a transcript as a WebVTT captions track. */
+export function formatTranscriptVtt(segments: TranscriptSegment[]) {
+  const cues = segments
+    .filter((segment) => segment.text.trim())
+    .map(
+      (segment) =>
+        `${formatVttTimestamp(segment.start)} --> ${formatVttTimestamp(
+          Math.max(segment.end, segment.start + 0.5)
+        )}\n${segment.text.trim().replace(/-->/g, "->")}`
+    );
+  return ["WEBVTT", ...cues, ""].join("\n\n");
+}
+
+/** Renders a transcript as `[m:ss] text` lines, the timestamp format analyses refer to. */
+export function formatTranscriptForPrompt(segments: TranscriptSegment[]) {
+  return segments
+    .filter((segment) => segment.text.trim())
+    .map(
+      (segment) => `[${formatTimestamp(segment.start)}] ${segment.text.trim()}`
+    )
+    .join("\n");
+}
+
+/** A stored transcript as prompt context, or null when the video has none (yet). */
+export const getTranscriptForPrompt = (
+  transcript: Pick<VideoTranscript, "segments"> | null
+) =>
+  transcript
+    ? formatTranscriptForPrompt(parseTranscriptSegments(transcript.segments)) ||
+      null
+    : null;
+
+/** Transcribes a recording's extracted audio and stores it as the video's transcript. */
+export async function transcribeVideo(
+  prisma: PrismaClient,
+  {
+    videoId,
+    audioPath,
+    mimeType,
+    transcriber = getTranscriber(),
+    signal,
+  }: {
+    videoId: string;
+    audioPath: string;
+    mimeType: string;
+    transcriber?: Transcriber;
+    signal?: AbortSignal;
+  }
+) {
+  const segments = await transcriber.transcribe(audioPath, {
+    mimeType,
+    signal,
+  });
+  const data = {
+    segments,
+    text: segments.map((segment) => segment.text.trim()).join(" "),
+    model: transcriber.model,
+  };
+
+  return prisma.videoTranscript.upsert({
+    where: { videoId },
+    create: { videoId, ...data },
+    update: data,
+  });
+}
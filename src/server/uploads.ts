@@ -0,0 +1,59 @@
+import { type S3 } from "@aws-sdk/client-s3";
+import { type PrismaClient } from "@prisma/client";
+import { deleteObjectsWithPrefix } from "~/server/aws/s3";
+
+// Long enough for an interrupted multipart upload to be resumed the next day
+export const PENDING_UPLOAD_TTL_MS = 48 * 60 * 60 * 1000;
+
+/**
+ * Removes videos whose upload never finished (still `pending`, or `failed`) and that are older than
+ * `PENDING_UPLOAD_TTL_MS`, along with everything they left in S3: parts of unfinished multipart
+ * uploads, the thumbnail and any files generated for the video.
+ */
+export async function sweepOrphanedUploads(
+  prisma: PrismaClient,
+  s3: S3,
+  { now = new Date() }: { now?: Date } = {}
+) {
+  const orphans = await prisma.video.findMany({
+    where: {
+      uploadStatus: { in: ["pending", "failed"] },
+      createdAt: { lt: new Date(now.getTime() - PENDING_UPLOAD_TTL_MS) },
+    },
+    select: { id: true, userId: true },
+  });
+
+  const deletedIds: string[] = [];
+  const failedIds: string[] = [];
+
+  for (const video of orphans) {
+    const key = video.userId + "/" + video.id;
+    try {
+      const { Uploads } = await s3.listMultipartUploads({
+        Bucket: process.env.AWS_BUCKET_NAME,
+        Prefix: key,
+      });
+      for (const upload of Uploads ?? []) {
+        if (upload.Key !== key || !upload.UploadId) continue;
+        await s3.abortMultipartUpload({
+          Bucket: process.env.AWS_BUCKET_NAME,
+          Key: key,
+          UploadId: upload.UploadId,
+        });
+      }
+
+      await s3.deleteObjects({
+        Bucket: process.env.AWS_BUCKET_NAME,
+        Delete: { Objects: [{ Key: key }, { Key: key + "-thumbnail" }] },
+      });
+      await deleteObjectsWithPrefix(s3, key + "/");
+      await prisma.video.delete({ where: { id: video.id } });
+      deletedIds.push(video.id);
+    } catch (error) {
+      console.error(`Failed to sweep upload of video ${video.id}:`, error);
+      failedIds.push(video.id);
+    }
+  }
+
+  return { deletedIds, failedIds };
+}
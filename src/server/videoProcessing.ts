@@ -0,0 +1,658 @@
+import { GetObjectCommand, type S3 } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { type PrismaClient, type Video } from "@prisma/client";
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { deleteObjectsWithPrefix } from "~/server/aws/s3";
+import { transcribeVideo } from "~/server/transcription";
+import { formatVttTimestamp } from "~/utils/timestamps";
+
+export const VIDEO_PROCESSING_MAX_ATTEMPTS = 3;
+// Longest a single transcode may run before it is abandoned and retried
+export const VIDEO_PROCESSING_TIMEOUT_MS = 30 * 60 * 1000;
+const HLS_SEGMENT_SECONDS = 6;
+// The hover preview is a short muted clip; the storyboard has at most ~100 tiles
+const PREVIEW_SECONDS = 4;
+const PREVIEW_WIDTH = 320;
+const STORYBOARD_TILE_WIDTH = 160;
+const STORYBOARD_COLUMNS = 10;
+const STORYBOARD_MAX_TILES = 100;
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH ?? "ffmpeg";
+const FFPROBE_PATH = process.env.FFPROBE_PATH ?? "ffprobe";
+
+// Renditions taller than the recording are skipped; bitrates are in kbit/s
+export const HLS_LADDER = [
+  { name: "1080p", height: 1080, videoBitrate: 5000, audioBitrate: 128 },
+  { name: "720p", height: 720, videoBitrate: 2800, audioBitrate: 128 },
+  { name: "480p", height: 480, videoBitrate: 1200, audioBitrate: 96 },
+];
+
+/** S3 keys of the transcoded files, stored in `Video.renditions`. */
+export type VideoRenditions = {
+  mp4: string;
+  // Master playlist; variant playlists and segments sit next to it
+  hls: string;
+  variants: {
+    name: string;
+    width: number;
+    height: number;
+    bandwidth: number;
+  }[];
+  // Hover preview clip and WebVTT storyboard track, see `generateThumbnails`
+  preview?: string;
+  storyboard?: string;
+};
+
+/** A source `video.get` offers the player; vidstack picks the first one the browser can play. */
+export type VideoSource = {
+  src: string;
+  type: "application/x-mpegurl" | "video/mp4" | "video/webm";
+};
+
+// Generated files live under `<userId>/<videoId>/` so they are deleted with the video
+export const getRenditionsPrefix = (video: Pick<Video, "id" | "userId">) =>
+  video.userId + "/" + video.id + "/";
+
+export const parseRenditions = (value: Video["renditions"]) => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const renditions = value as Partial<VideoRenditions>;
+  return renditions.mp4 && renditions.hls
+    ? (renditions as VideoRenditions)
+    : null;
+};
+
+const runCommand = (command: string, args: string[], signal?: AbortSignal) =>
+  new Promise<string>((resolve, reject) => {
+    const child = spawn(command, args, { signal });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk: Buffer) => (stdout += chunk.toString()));
+    // ffmpeg logs progress to stderr; only the end is useful when it fails
+    child.stderr.on(
+      "data",
+      (chunk: Buffer) => (stderr = (stderr + chunk.toString()).slice(-4000))
+    );
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) resolve(stdout);
+      else
+        reject(
+          new Error(
+            `${path.basename(command)} exited with code ${String(
+              code
+            )}: ${stderr.trim()}`
+          )
+        );
+    });
+  });
+
+/** Reads the dimensions of the first video stream and whether the file has audio. */
+export async function probeVideo(filePath: string, signal?: AbortSignal) {
+  const output = await runCommand(
+    FFPROBE_PATH,
+    [
+      "-v",
+      "error",
+      "-show_entries",
+      "stream=codec_type,width,height:format=duration",
+      "-of",
+      "json",
+      filePath,
+    ],
+    signal
+  );
+  const { streams = [], format } = JSON.parse(output) as {
+    streams?: { codec_type?: string; width?: number; height?: number }[];
+    format?: { duration?: string };
+  };
+  const videoStream = streams.find((stream) => stream.codec_type === "video");
+  if (!videoStream?.width || !videoStream.height) {
+    throw new Error("The upload has no video stream");
+  }
+  return {
+    width: videoStream.width,
+    height: videoStream.height,
+    hasAudio: streams.some((stream) => stream.codec_type === "audio"),
+    // Recordings straight from MediaRecorder often have no duration in their header
+    duration: Number(format?.duration) || null,
+  };
+}
+
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+/**
+ * Transcodes a recording into `video.mp4` (H.264/AAC) and an HLS ladder under `hls/` in
+ * `outputDir`. Returns the renditions with paths relative to `outputDir`.
+ */
+export async function transcodeVideo(
+  inputPath: string,
+  outputDir: string,
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<VideoRenditions> {
+  const source = await probeVideo(inputPath, signal);
+  const audioArgs = (bitrate: number) =>
+    source.hasAudio
+      ? ["-map", "0:a:0", "-c:a", "aac", "-b:a", `${bitrate}k`]
+      : [];
+
+  const mp4Height = even(
+    Math.min(source.height, HLS_LADDER[0]?.height ?? source.height)
+  );
+  await runCommand(
+    FFMPEG_PATH,
+    [
+      "-y",
+      "-i",
+      inputPath,
+      "-map",
+      "0:v:0",
+      "-vf",
+      `scale=-2:${mp4Height}`,
+      "-c:v",
+      "libx264",
+      "-preset",
+      "veryfast",
+      "-crf",
+      "23",
+      "-pix_fmt",
+      "yuv420p",
+      ...audioArgs(128),
+      "-movflags",
+      "+faststart",
+      path.join(outputDir, "video.mp4"),
+    ],
+    signal
+  );
+
+  const ladder = HLS_LADDER.filter((rung) => rung.height <= source.height);
+  // Small recordings still get one rendition at their own size
+  const rungs =
+    ladder.length > 0
+      ? ladder
+      : HLS_LADDER.slice(-1).map((rung) => ({
+          ...rung,
+          name: `${even(source.height)}p`,
+          height: even(source.height),
+        }));
+
+  const variants: VideoRenditions["variants"] = [];
+  for (const rung of rungs) {
+    const variantDir = path.join(outputDir, "hls", rung.name);
+    fs.mkdirSync(variantDir, { recursive: true });
+    await runCommand(
+      FFMPEG_PATH,
+      [
+        "-y",
+        "-i",
+        inputPath,
+        "-map",
+        "0:v:0",
+        "-vf",
+        `scale=-2:${rung.height}`,
+        "-c:v",
+        "libx264",
+        "-preset",
+        "veryfast",
+        "-pix_fmt",
+        "yuv420p",
+        "-b:v",
+        `${rung.videoBitrate}k`,
+        "-maxrate",
+        `${Math.round(rung.videoBitrate * 1.07)}k`,
+        "-bufsize",
+        `${Math.round(rung.videoBitrate * 1.5)}k`,
+        // Fixed keyframes so every rendition has segments at the same times
+        "-force_key_frames",
+        `expr:gte(t,n_forced*${HLS_SEGMENT_SECONDS})`,
+        ...audioArgs(rung.audioBitrate),
+        "-f",
+        "hls",
+        "-hls_time",
+        String(HLS_SEGMENT_SECONDS),
+        "-hls_playlist_type",
+        "vod",
+        "-hls_segment_filename",
+        path.join(variantDir, "%03d.ts"),
+        path.join(variantDir, "index.m3u8"),
+      ],
+      signal
+    );
+    variants.push({
+      name: rung.name,
+      width: even((rung.height * source.width) / source.height),
+      height: rung.height,
+      bandwidth:
+        (rung.videoBitrate + (source.hasAudio ? rung.audioBitrate : 0)) * 1000,
+    });
+  }
+
+  const master = [
+    "#EXTM3U",
+    "#EXT-X-VERSION:3",
+    ...variants.flatMap((variant) => [
+      `#EXT-X-STREAM-INF:BANDWIDTH=${variant.bandwidth},RESOLUTION=${variant.width}x${variant.height}`,
+      `${variant.name}/index.m3u8`,
+    ]),
+    "",
+  ].join("\n");
+  fs.writeFileSync(path.join(outputDir, "hls", "master.m3u8"), master);
+
+  return { mp4: "video.mp4", hls: "hls/master.m3u8", variants };
+}
+
+/**
+ * Grabs a representative frame from around `at` seconds as a JPEG no wider than 1280px. Used for
+ * the video's poster and for screencast updates.
+ */
+export async function extractPoster(
+  inputPath: string,
+  outputPath: string,
+  { at = 0, signal }: { at?: number; signal?: AbortSignal } = {}
+) {
+  await runCommand(
+    FFMPEG_PATH,
+    [
+      "-y",
+      "-ss",
+      String(at),
+      "-i",
+      inputPath,
+      // Picks the most representative of the next 50 frames, skipping blank or blurry ones
+      "-vf",
+      "thumbnail=50,scale='min(1280,iw)':-2",
+      "-frames:v",
+      "1",
+      "-q:v",
+      "3",
+      outputPath,
+    ],
+    signal
+  );
+}
+
+/**
+ * Generates the thumbnails of a transcoded video in `outputDir/thumbnails`: `poster.jpg`, a short
+ * `preview.mp4` for hovering over video cards, and a `storyboard.jpg` sprite with a
+ * `storyboard.vtt` track that points scrub previews at tiles of the sprite. The track refers to the
+ * sprite by file name; `/api/thumbnails` swaps in a signed URL when serving it.
+ */
+export async function generateThumbnails(
+  inputPath: string,
+  outputDir: string,
+  { signal }: { signal?: AbortSignal } = {}
+) {
+  const source = await probeVideo(inputPath, signal);
+  const duration = source.duration ?? 0;
+  const thumbnailsDir = path.join(outputDir, "thumbnails");
+  fs.mkdirSync(thumbnailsDir, { recursive: true });
+
+  await extractPoster(inputPath, path.join(thumbnailsDir, "poster.jpg"), {
+    at: duration / 2,
+    signal,
+  });
+
+  await runCommand(
+    FFMPEG_PATH,
+    [
+      "-y",
+      "-ss",
+      String(duration > PREVIEW_SECONDS * 2 ? duration / 4 : 0),
+      "-t",
+      String(PREVIEW_SECONDS),
+      "-i",
+      inputPath,
+      "-an",
+      "-vf",
+      `fps=12,scale=${PREVIEW_WIDTH}:-2`,
+      "-c:v",
+      "libx264",
+      "-preset",
+      "veryfast",
+      "-crf",
+      "28",
+      "-pix_fmt",
+      "yuv420p",
+      "-movflags",
+      "+faststart",
+      path.join(thumbnailsDir, "preview.mp4"),
+    ],
+    signal
+  );
+
+  const interval = Math.max(1, Math.ceil(duration / STORYBOARD_MAX_TILES));
+  const tileCount = Math.max(1, Math.ceil(duration / interval));
+  const rows = Math.ceil(tileCount / STORYBOARD_COLUMNS);
+  const tileHeight = even(
+    (STORYBOARD_TILE_WIDTH * source.height) / source.width
+  );
+  await runCommand(
+    FFMPEG_PATH,
+    [
+      "-y",
+      "-i",
+      inputPath,
+      "-vf",
+      `fps=1/${interval},scale=${STORYBOARD_TILE_WIDTH}:${tileHeight},tile=${STORYBOARD_COLUMNS}x${rows}`,
+      "-frames:v",
+      "1",
+      "-q:v",
+      "5",
+      path.join(thumbnailsDir, "storyboard.jpg"),
+    ],
+    signal
+  );
+
+  const cues = Array.from({ length: tileCount }, (_, i) => {
+    const x = (i % STORYBOARD_COLUMNS) * STORYBOARD_TILE_WIDTH;
+    const y = Math.floor(i / STORYBOARD_COLUMNS) * tileHeight;
+    const start = i * interval;
+    const end = Math.max(start + 0.001, Math.min((i + 1) * interval, duration));
+    return `${formatVttTimestamp(start)} --> ${formatVttTimestamp(
+      end
+    )}\nstoryboard.jpg#xywh=${x},${y},${STORYBOARD_TILE_WIDTH},${tileHeight}`;
+  });
+  fs.writeFileSync(
+    path.join(thumbnailsDir, "storyboard.vtt"),
+    ["WEBVTT", ...cues, ""].join("\n\n")
+  );
+
+  return {
+    poster: "thumbnails/poster.jpg",
+    preview: "thumbnails/preview.mp4",
+    storyboard: "thumbnails/storyboard.vtt",
+  };
+}
+
+/**
+ * Extracts the narration of a recording and stores its transcript. Best effort: playback doesn't
+ * depend on captions, so failures are only logged and the video still counts as processed.
+ */
+async function transcribeRecording(
+  prisma: PrismaClient,
+  videoId: string,
+  inputPath: string,
+  workDir: string,
+  signal?: AbortSignal
+) {
+  try {
+    const { hasAudio } = await probeVideo(inputPath, signal);
+    if (!hasAudio) return;
+
+    // Mono 16 kHz is all speech recognition needs and keeps the upload small
+    const audioPath = path.join(workDir, "audio.mp3");
+    await runCommand(
+      FFMPEG_PATH,
+      [
+        "-y",
+        "-i",
+        inputPath,
+        "-vn",
+        "-ac",
+        "1",
+        "-ar",
+        "16000",
+        "-c:a",
+        "libmp3lame",
+        "-b:a",
+        "48k",
+        audioPath,
+      ],
+      signal
+    );
+    await transcribeVideo(prisma, {
+      videoId,
+      audioPath,
+      mimeType: "audio/mp3",
+      signal,
+    });
+  } catch (error) {
+    console.error(`Transcribing video ${videoId} failed:`, error);
+  }
+}
+
+const contentTypes: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".vtt": "text/vtt",
+  ".mp4": "video/mp4",
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".ts": "video/mp2t",
+};
+
+const listFiles = (dir: string): string[] =>
+  fs
+    .readdirSync(dir, { withFileTypes: true })
+    .flatMap((entry) =>
+      entry.isDirectory()
+        ? listFiles(path.join(dir, entry.name)).map((file) =>
+            path.join(entry.name, file)
+          )
+        : [entry.name]
+    );
+
+/**
+ * Claims the next uploaded video that still needs transcoding, taking a lease on it for
+ * `VIDEO_PROCESSING_TIMEOUT_MS`. Works like `claimNextAnalysisJob`.
+ */
+export async function claimNextVideoForProcessing(
+  prisma: PrismaClient
+): Promise<Video | null> {
+  for (;;) {
+    const now = new Date();
+    const candidate = await prisma.video.findFirst({
+      where: {
+        uploadStatus: "uploaded",
+        fileDeletedAt: null,
+        OR: [
+          { processingStatus: "pending" },
+          {
+            processingStatus: "processing",
+            processingLockedUntil: { lt: now },
+          },
+        ],
+      },
+      orderBy: { createdAt: "asc" },
+    });
+    if (!candidate) return null;
+
+    const timedOut = candidate.processingStatus === "processing";
+    const outOfAttempts =
+      candidate.processingAttempts >= VIDEO_PROCESSING_MAX_ATTEMPTS;
+
+    // Only claim the video if no other worker touched it since we read it
+    const { count } = await prisma.video.updateMany({
+      where: { id: candidate.id, updatedAt: candidate.updatedAt },
+      data:
+        timedOut && outOfAttempts
+          ? {
+              processingStatus: "failed",
+              processingError: "Transcoding timed out",
+              processingLockedUntil: null,
+            }
+          : {
+              processingStatus: "processing",
+              processingAttempts: { increment: 1 },
+              processingLockedUntil: new Date(
+                now.getTime() + VIDEO_PROCESSING_TIMEOUT_MS
+              ),
+            },
+    });
+    if (count === 0 || (timedOut && outOfAttempts)) continue;
+
+    return prisma.video.findUnique({ where: { id: candidate.id } });
+  }
+}
+
+/**
+ * Downloads a claimed video's upload, transcodes it and stores the renditions next to the original
+ * key. Failures are retried until the video is out of attempts.
+ */
+export async function processVideo(prisma: PrismaClient, s3: S3, video: Video) {
+  const abortController = new AbortController();
+  const timeout = setTimeout(
+    () => abortController.abort(),
+    VIDEO_PROCESSING_TIMEOUT_MS
+  );
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), `video-${video.id}-`));
+
+  try {
+    const inputPath = path.join(workDir, "source");
+    const object = await s3.getObject({
+      Bucket: process.env.AWS_BUCKET_NAME,
+      Key: video.userId + "/" + video.id,
+    });
+    if (!object.Body) throw new Error("The upload is empty");
+    await pipeline(object.Body as Readable, fs.createWriteStream(inputPath));
+
+    const outputDir = path.join(workDir, "out");
+    fs.mkdirSync(path.join(outputDir, "hls"), { recursive: true });
+    const renditions = await transcodeVideo(inputPath, outputDir, {
+      signal: abortController.signal,
+    });
+    // The MP4 is used as input as it has a duration, which uploaded WebM files often lack
+    const thumbnails = await generateThumbnails(
+      path.join(outputDir, renditions.mp4),
+      outputDir,
+      { signal: abortController.signal }
+    );
+
+    const prefix = getRenditionsPrefix(video);
+    // The poster replaces the frame the browser grabbed at upload
+    await s3.putObject({
+      Bucket: process.env.AWS_BUCKET_NAME,
+      Key: video.userId + "/" + video.id + "-thumbnail",
+      Body: fs.readFileSync(path.join(outputDir, thumbnails.poster)),
+      ContentType: "image/jpeg",
+    });
+    fs.rmSync(path.join(outputDir, thumbnails.poster));
+
+    for (const file of listFiles(outputDir)) {
+      const filePath = path.join(outputDir, file);
+      await s3.putObject({
+        Bucket: process.env.AWS_BUCKET_NAME,
+        Key: prefix + file.split(path.sep).join("/"),
+        Body: fs.createReadStream(filePath),
+        ContentLength: fs.statSync(filePath).size,
+        ContentType:
+          contentTypes[path.extname(file)] ?? "application/octet-stream",
+      });
+    }
+
+    await transcribeRecording(
+      prisma,
+      video.id,
+      path.join(outputDir, renditions.mp4),
+      workDir,
+      abortController.signal
+    );
+
+    return await prisma.video.update({
+      where: { id: video.id },
+      data: {
+        processingStatus: "done",
+        processingError: null,
+        processingLockedUntil: null,
+        renditions: {
+          ...renditions,
+          mp4: prefix + renditions.mp4,
+          hls: prefix + renditions.hls,
+          preview: prefix + thumbnails.preview,
+          storyboard: prefix + thumbnails.storyboard,
+        },
+      },
+    });
+  } catch (error) {
+    console.error(`Processing video ${video.id} failed:`, error);
+    const message =
+      error instanceof Error ? error.message : "Failed to transcode video";
+
+    return await prisma.video.update({
+      where: { id: video.id },
+      data: {
+        processingStatus:
+          video.processingAttempts < VIDEO_PROCESSING_MAX_ATTEMPTS
+            ? "pending"
+            : "failed",
+        processingError: message,
+        processingLockedUntil: null,
+      },
+    });
+  } finally {
+    clearTimeout(timeout);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+/** Deletes the transcoded files of a video, e.g. when its original file is deleted. */
+export async function deleteRenditions(
+  s3: S3,
+  video: Pick<Video, "id" | "userId">
+) {
+  const prefix = getRenditionsPrefix(video);
+  await s3.deleteObject({
+    Bucket: process.env.AWS_BUCKET_NAME,
+    Key: prefix + "video.mp4",
+  });
+  await deleteObjectsWithPrefix(s3, prefix + "hls/");
+  await deleteObjectsWithPrefix(s3, prefix + "thumbnails/");
+}
+
+/** A signed URL of the hover preview clip, once the video has been processed. */
+export async function getPreviewUrl(
+  s3: S3,
+  video: Pick<Video, "renditions" | "fileDeletedAt">
+) {
+  const preview = parseRenditions(video.renditions)?.preview;
+  if (!preview || video.fileDeletedAt) return null;
+  return getSignedUrl(
+    s3,
+    new GetObjectCommand({
+      Bucket: process.env.AWS_BUCKET_NAME,
+      Key: preview,
+    }),
+    { expiresIn: 7 * 24 * 60 * 60 }
+  );
+}
+
+// Screencast updates aren't kept, only a poster of each, under the video's prefix
+export const getScreencastThumbnailKey = (
+  video: Pick<Video, "id" | "userId">,
+  revisionId: string
+) => getRenditionsPrefix(video) + "screencasts/" + revisionId + ".jpg";
+
+/**
+ * Stores a poster of a screencast update. Best effort: the analysis of the screencast matters more
+ * than its thumbnail, so failures (e.g. no ffmpeg on the web server) are only logged.
+ */
+export async function storeScreencastThumbnail(
+  s3: S3,
+  video: Pick<Video, "id" | "userId">,
+  { revisionId, data }: { revisionId: string; data: Buffer }
+) {
+  const workDir = fs.mkdtempSync(
+    path.join(os.tmpdir(), `screencast-${video.id}-`)
+  );
+  try {
+    const inputPath = path.join(workDir, "screencast.webm");
+    const posterPath = path.join(workDir, "poster.jpg");
+    fs.writeFileSync(inputPath, new Uint8Array(data));
+    await extractPoster(inputPath, posterPath);
+    await s3.putObject({
+      Bucket: process.env.AWS_BUCKET_NAME,
+      Key: getScreencastThumbnailKey(video, revisionId),
+      Body: fs.readFileSync(posterPath),
+      ContentType: "image/jpeg",
+    });
+  } catch (error) {
+    console.error(
+      `Failed to store screencast thumbnail of revision ${revisionId}:`,
+      error
+    );
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
@@ -64,39 +64,114 @@ export const invalidateTasksCache = (userId?: string) => {
   }
 };
 
-export const updateTaskInCache = (
-  videoId: string,
-  updates: Partial<VideoGetAllOutput["items"][0]>,
+type TaskItem = VideoGetAllOutput["items"][number];
+
+/**
+ * Applies `updates` to the given tasks in a page list, or removes them when `updates` is null.
+ * Shared by the localStorage cache and optimistic updates of the query cache.
+ */
+export const patchTaskPages = (
+  data: InfiniteData<VideoGetAllOutput>,
+  videoIds: string[],
+  updates: Partial<TaskItem> | null
+): InfiniteData<VideoGetAllOutput> => ({
+  ...data,
+  pages: data.pages.map((page) => ({
+    ...page,
+    items: page.items.flatMap((item) => {
+      if (!videoIds.includes(item.id)) return [item];
+      return updates ? [{ ...item, ...updates }] : [];
+    }),
+  })),
+});
+
+const patchTasksCache = (
+  videoIds: string[],
+  updates: Partial<TaskItem> | null,
   userId?: string
 ) => {
   const cached = getTasksCache(userId);
   if (!cached) return;
 
-  let modified = false;
-  const newPages = cached.data.pages.map((page) => ({
-    ...page,
-    items: page.items.map((item) => {
-      if (item.id === videoId) {
-        modified = true;
-        return { ...item, ...updates };
-      }
-      return item;
-    }),
-  }));
-
-  if (modified) {
-    setTasksCache({ ...cached.data, pages: newPages }, cached.timestamp, userId);
+  const hasTask = cached.data.pages.some((page) =>
+    page.items.some((item) => videoIds.includes(item.id))
+  );
+  if (hasTask) {
+    setTasksCache(
+      patchTaskPages(cached.data, videoIds, updates),
+      cached.timestamp,
+      userId
+    );
   }
 };
 
-export const removeTaskFromCache = (videoId: string, userId?: string) => {
+export const updateTasksInCache = (
+  videoIds: string[],
+  updates: Partial<TaskItem>,
+  userId?: string
+) => patchTasksCache(videoIds, updates, userId);
+
+export const removeTasksFromCache = (videoIds: string[], userId?: string) =>
+  patchTasksCache(videoIds, null, userId);
+
+export const updateTaskInCache = (
+  videoId: string,
+  updates: Partial<TaskItem>,
+  userId?: string
+) => updateTasksInCache([videoId], updates, userId);
+
+export const removeTaskFromCache = (videoId: string, userId?: string) =>
+  removeTasksFromCache([videoId], userId);
+
+type VideoSearchItem = RouterOutputs["video"]["search"]["items"][number];
+
+const SNIPPET_CONTEXT_CHARS = 60;
+
+/**
+ * Matches the cached task list against a search query, so results show up instantly (and offline)
+ * while `video.search` runs. A task matches when every word of the query starts a word in its
+ * title, context or analysis, like the prefix search on the server; the server's ranking and
+ * snippets replace these once they arrive.
+ */
+export const searchTasksCache = (
+  query: string,
+  userId?: string
+): VideoSearchItem[] => {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
   const cached = getTasksCache(userId);
-  if (!cached) return;
+  if (!cached || words.length === 0) return [];
 
-  const newPages = cached.data.pages.map((page) => ({
-    ...page,
-    items: page.items.filter((item) => item.id !== videoId),
-  }));
+  const patterns = words.map(
+    (word) => new RegExp(`(?<![\\p{L}\\p{N}])${word}`, "iu")
+  );
+
+  return cached.data.pages
+    .flatMap((page) => page.items)
+    .flatMap((item) => {
+      const fields = [item.title, item.userContext ?? "", item.aiAnalysis ?? ""];
+      if (!patterns.every((pattern) => fields.some((field) => pattern.test(field)))) {
+        return [];
+      }
+
+      const body = fields.slice(1).join(" ").replace(/[#*`>|_]+/g, "").replace(/\s+/g, " ");
+      const match = patterns[0]?.exec(body);
+      const snippet = match
+        ? [
+            {
+              text: body.slice(Math.max(0, match.index - SNIPPET_CONTEXT_CHARS), match.index),
+              highlight: false,
+            },
+            { text: match[0], highlight: true },
+            {
+              text: body.slice(
+                match.index + match[0].length,
+                match.index + match[0].length + SNIPPET_CONTEXT_CHARS
+              ),
+              highlight: false,
+            },
+          ].filter((part) => part.text)
+        : [];
 
-  setTasksCache({ ...cached.data, pages: newPages }, cached.timestamp, userId);
+      return [{ ...item, rank: 0, snippet }];
+    });
 };
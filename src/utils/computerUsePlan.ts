@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { parseTimestamp } from "~/utils/timestamps";
+
+// Plans are generated against a 1024x768 grid, so replays use the same viewport
+export const PLAN_VIEWPORT = { width: 1024, height: 768 };
+// How long a `wait` step pauses and how far a `scroll` step scrolls when replayed
+export const PLAN_WAIT_STEP_MS = 2000;
+export const PLAN_SCROLL_STEP_PX = 600;
+// Replays have a time limit (see `executePlan`), so plans can't be longer than this
+export const PLAN_MAX_STEPS = 50;
+
+// Older plans sometimes describe coordinates as `{ x, y }`; they are normalized to `[x, y]`
+const coordinateSchema = z.preprocess(
+  (value) =>
+    value && typeof value === "object" && !Array.isArray(value) && "x" in value && "y" in value
+      ? [value.x, value.y]
+      : value,
+  z.tuple([z.number(), z.number()])
+);
+
+export const computerUseStepSchema = z
+  .object({
+    action: z.enum(["click", "type", "scroll", "wait"]),
+    // Position on a 1024x768 grid
+    coordinate: coordinateSchema.optional(),
+    text: z.string().optional(),
+    description: z.string().min(1),
+    element_description: z.string().optional(),
+    // Seconds into the recording where the step happens. The model writes `mm:ss`, which is
+    // stored as seconds.
+    timestamp: z
+      .preprocess(
+        (value) => (typeof value === "string" ? parseTimestamp(value) ?? value : value),
+        z.number().nonnegative()
+      )
+      .optional(),
+  })
+  .superRefine((step, ctx) => {
+    if (step.action === "click" && !step.coordinate) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["coordinate"],
+        message: "Click steps need a coordinate",
+      });
+    }
+    if (step.action === "type" && !step.text) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["text"],
+        message: "Type steps need the text to type",
+      });
+    }
+  });
+
+/** The step-by-step plan a computer use agent follows to replay the recorded workflow. */
+export const computerUsePlanSchema = z.object({
+  task_description: z.string().min(1),
+  // Where a replay of the plan should begin
+  start_url: z.preprocess(
+    (value) => (value === "" || value === null ? undefined : value),
+    z.string().url().optional()
+  ),
+  steps: z.array(computerUseStepSchema).min(1).max(PLAN_MAX_STEPS),
+});
+
+export type ComputerUseStep = z.infer<typeof computerUseStepSchema>;
+export type ComputerUsePlan = z.infer<typeof computerUsePlanSchema>;
+
+/** Formats validation issues as `path: message` lines that can be shown to users and the model. */
+export const formatPlanErrors = (error: z.ZodError) =>
+  error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+  );
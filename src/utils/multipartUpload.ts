@@ -0,0 +1,203 @@
+import axios from "axios";
+import { type RouterInputs, type RouterOutputs } from "~/utils/api";
+
+// S3 needs parts of at least 5 MiB (except the last one)
+export const UPLOAD_PART_SIZE = 8 * 1024 * 1024;
+const PARTS_PER_SIGN_REQUEST = 10;
+const PART_UPLOAD_ATTEMPTS = 3;
+
+const DB_NAME = "showkunin-uploads";
+const STORE_NAME = "uploads";
+
+type VideoInputs = RouterInputs["video"];
+type VideoOutputs = RouterOutputs["video"];
+
+/** The multipart procedures of the video router, e.g. `api.useContext().client.video`. */
+export interface MultipartUploadClient {
+  createMultipartUpload: {
+    mutate: (
+      input: VideoInputs["createMultipartUpload"]
+    ) => Promise<VideoOutputs["createMultipartUpload"]>;
+  };
+  signUploadParts: {
+    mutate: (input: VideoInputs["signUploadParts"]) => Promise<VideoOutputs["signUploadParts"]>;
+  };
+  completeMultipartUpload: {
+    mutate: (
+      input: VideoInputs["completeMultipartUpload"]
+    ) => Promise<VideoOutputs["completeMultipartUpload"]>;
+  };
+  abortMultipartUpload: {
+    mutate: (
+      input: VideoInputs["abortMultipartUpload"]
+    ) => Promise<VideoOutputs["abortMultipartUpload"]>;
+  };
+  confirmUpload: {
+    mutate: (input: VideoInputs["confirmUpload"]) => Promise<VideoOutputs["confirmUpload"]>;
+  };
+}
+
+/**
+ * An upload that has been started but not completed. It is kept in IndexedDB together with the
+ * file, so an upload interrupted by a reload or a lost connection can pick up where it left off.
+ */
+export interface PendingUpload {
+  videoId: string;
+  userId?: string;
+  uploadId: string;
+  fileName: string;
+  contentType: string;
+  file: Blob;
+  // Parts S3 already has, with the ETag needed to complete the upload
+  parts: { partNumber: number; etag: string }[];
+  createdAt: number;
+}
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "videoId" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const getPendingUploads = async (userId?: string) => {
+  if (typeof window === "undefined" || !window.indexedDB) return [];
+  try {
+    const uploads = await withStore<PendingUpload[]>("readonly", (store) => store.getAll());
+    return uploads.filter((upload) => upload.userId === userId);
+  } catch (e) {
+    console.error("Failed to load pending uploads", e);
+    return [];
+  }
+};
+
+const savePendingUpload = async (upload: PendingUpload) => {
+  try {
+    await withStore("readwrite", (store) => store.put(upload));
+  } catch (e) {
+    // The upload still works, it just can't be resumed after a reload
+    console.error("Failed to save upload progress", e);
+  }
+};
+
+export const deletePendingUpload = async (videoId: string) => {
+  try {
+    await withStore("readwrite", (store) => store.delete(videoId));
+  } catch (e) {
+    console.error("Failed to delete pending upload", e);
+  }
+};
+
+const uploadPart = async (url: string, body: Blob) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await axios.put(url, body);
+      const etag = (response.headers as Record<string, string | undefined>).etag;
+      if (!etag) {
+        throw new Error("S3 didn't return an ETag; check the bucket's CORS ExposeHeaders");
+      }
+      return etag;
+    } catch (err) {
+      if (attempt >= PART_UPLOAD_ATTEMPTS) throw err;
+      await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt));
+    }
+  }
+};
+
+/**
+ * Uploads `upload.file` in parts, saving progress after every part. Pass a `PendingUpload` from
+ * `getPendingUploads` to resume it; only the parts S3 doesn't have yet are sent.
+ */
+export async function uploadMultipart(
+  client: MultipartUploadClient,
+  upload: Omit<PendingUpload, "uploadId" | "parts" | "createdAt"> &
+    Partial<Pick<PendingUpload, "uploadId" | "parts" | "createdAt">>,
+  { onProgress }: { onProgress?: (progress: number) => void } = {}
+) {
+  const pending: PendingUpload = {
+    ...upload,
+    uploadId:
+      upload.uploadId ??
+      (
+        await client.createMultipartUpload.mutate({
+          videoId: upload.videoId,
+          contentType: upload.contentType,
+        })
+      ).uploadId,
+    parts: upload.parts ?? [],
+    createdAt: upload.createdAt ?? Date.now(),
+  };
+  await savePendingUpload(pending);
+
+  const totalBytes = pending.file.size || 1;
+  const partCount = Math.max(1, Math.ceil(pending.file.size / UPLOAD_PART_SIZE));
+  const partSize = (partNumber: number) =>
+    Math.min(UPLOAD_PART_SIZE, pending.file.size - (partNumber - 1) * UPLOAD_PART_SIZE);
+
+  let uploadedBytes = pending.parts.reduce((sum, part) => sum + partSize(part.partNumber), 0);
+  onProgress?.(uploadedBytes / totalBytes);
+
+  const done = new Set(pending.parts.map((part) => part.partNumber));
+  const remaining = Array.from({ length: partCount }, (_, i) => i + 1).filter(
+    (partNumber) => !done.has(partNumber)
+  );
+
+  for (let i = 0; i < remaining.length; i += PARTS_PER_SIGN_REQUEST) {
+    const { parts } = await client.signUploadParts.mutate({
+      videoId: pending.videoId,
+      uploadId: pending.uploadId,
+      partNumbers: remaining.slice(i, i + PARTS_PER_SIGN_REQUEST),
+    });
+
+    for (const { partNumber, url } of parts) {
+      const start = (partNumber - 1) * UPLOAD_PART_SIZE;
+      const etag = await uploadPart(url, pending.file.slice(start, start + UPLOAD_PART_SIZE));
+
+      pending.parts.push({ partNumber, etag });
+      await savePendingUpload(pending);
+      uploadedBytes += partSize(partNumber);
+      onProgress?.(uploadedBytes / totalBytes);
+    }
+  }
+
+  await client.completeMultipartUpload.mutate({
+    videoId: pending.videoId,
+    uploadId: pending.uploadId,
+    parts: pending.parts,
+  });
+  await deletePendingUpload(pending.videoId);
+  await client.confirmUpload.mutate({ videoId: pending.videoId });
+}
+
+/** Gives up on an upload, discarding the parts already stored in S3. */
+export async function abortMultipartUpload(client: MultipartUploadClient, upload: PendingUpload) {
+  try {
+    await client.abortMultipartUpload.mutate({
+      videoId: upload.videoId,
+      uploadId: upload.uploadId,
+    });
+  } catch (e) {
+    // The upload may already have expired or been cleaned up
+    console.error("Failed to abort upload", e);
+  }
+  await deletePendingUpload(upload.videoId);
+}
@@ -0,0 +1,198 @@
+import {
+  PLAN_SCROLL_STEP_PX,
+  PLAN_VIEWPORT,
+  PLAN_WAIT_STEP_MS,
+  type ComputerUsePlan,
+  type ComputerUseStep,
+} from "~/utils/computerUsePlan";
+
+export const planExportTargets = ["playwright", "puppeteer", "pyautogui"] as const;
+export type PlanExportTarget = (typeof planExportTargets)[number];
+
+export const planExportTargetLabels: Record<PlanExportTarget, string> = {
+  playwright: "Playwright Test",
+  puppeteer: "Puppeteer Script",
+  pyautogui: "Python Script",
+};
+
+export interface ExportedPlan {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+// Plan text ends up in comments, so it has to stay on one line
+const toComment = (text: string) => text.replace(/\s+/g, " ").trim();
+
+// JSON string literals are also valid JavaScript and Python string literals
+const toStringLiteral = (text: string) => JSON.stringify(text);
+
+const describeStep = (step: ComputerUseStep, index: number) =>
+  toComment(
+    `${index + 1}. ${step.description}` +
+      (step.element_description ? ` (${step.element_description})` : "")
+  );
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60) || "plan";
+
+const centerOf = (step: ComputerUseStep) =>
+  step.coordinate ?? [PLAN_VIEWPORT.width / 2, PLAN_VIEWPORT.height / 2];
+
+const renderPlaywright = (plan: ComputerUsePlan) => {
+  const lines = [
+    `import { test } from "@playwright/test";`,
+    ``,
+    `// ${toComment(plan.task_description)}`,
+    `test.use({ viewport: { width: ${PLAN_VIEWPORT.width}, height: ${PLAN_VIEWPORT.height} } });`,
+    ``,
+    `test(${toStringLiteral(toComment(plan.task_description))}, async ({ page }) => {`,
+    plan.start_url
+      ? `  await page.goto(${toStringLiteral(plan.start_url)});`
+      : `  // TODO: open the page the task starts on, e.g. await page.goto("https://example.com");`,
+  ];
+
+  plan.steps.forEach((step, index) => {
+    const [x, y] = centerOf(step);
+    lines.push(``, `  // ${describeStep(step, index)}`);
+    switch (step.action) {
+      case "click":
+        lines.push(
+          `  await page.mouse.click(${x}, ${y});`,
+          `  await page.waitForLoadState("domcontentloaded");`
+        );
+        break;
+      case "type":
+        if (step.coordinate) lines.push(`  await page.mouse.click(${x}, ${y});`);
+        lines.push(`  await page.keyboard.type(${toStringLiteral(step.text ?? "")}, { delay: 20 });`);
+        break;
+      case "scroll":
+        lines.push(`  await page.mouse.move(${x}, ${y});`, `  await page.mouse.wheel(0, ${PLAN_SCROLL_STEP_PX});`);
+        break;
+      case "wait":
+        lines.push(`  await page.waitForTimeout(${PLAN_WAIT_STEP_MS});`);
+        break;
+    }
+  });
+
+  lines.push(`});`, ``);
+  return lines.join("\n");
+};
+
+const renderPuppeteer = (plan: ComputerUsePlan) => {
+  const lines = [
+    `// ${toComment(plan.task_description)}`,
+    `// Run with: node <this file> (requires \`npm install puppeteer\`)`,
+    `import puppeteer from "puppeteer";`,
+    ``,
+    `const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));`,
+    ``,
+    `const browser = await puppeteer.launch({ headless: false });`,
+    `try {`,
+    `  const page = await browser.newPage();`,
+    `  await page.setViewport({ width: ${PLAN_VIEWPORT.width}, height: ${PLAN_VIEWPORT.height} });`,
+    plan.start_url
+      ? `  await page.goto(${toStringLiteral(plan.start_url)}, { waitUntil: "domcontentloaded" });`
+      : `  // TODO: open the page the task starts on, e.g. await page.goto("https://example.com");`,
+  ];
+
+  plan.steps.forEach((step, index) => {
+    const [x, y] = centerOf(step);
+    lines.push(``, `  // ${describeStep(step, index)}`);
+    switch (step.action) {
+      case "click":
+        lines.push(`  await page.mouse.click(${x}, ${y});`);
+        break;
+      case "type":
+        if (step.coordinate) lines.push(`  await page.mouse.click(${x}, ${y});`);
+        lines.push(`  await page.keyboard.type(${toStringLiteral(step.text ?? "")}, { delay: 20 });`);
+        break;
+      case "scroll":
+        lines.push(`  await page.mouse.move(${x}, ${y});`, `  await page.mouse.wheel({ deltaY: ${PLAN_SCROLL_STEP_PX} });`);
+        break;
+      case "wait":
+        lines.push(`  await sleep(${PLAN_WAIT_STEP_MS});`);
+        break;
+    }
+  });
+
+  lines.push(`} finally {`, `  await browser.close();`, `}`, ``);
+  return lines.join("\n");
+};
+
+const renderPyautogui = (plan: ComputerUsePlan) => {
+  const lines = [
+    `# ${toComment(plan.task_description)}`,
+    `# Run with: python <this file> (requires \`pip install pyautogui\`)`,
+    `# Coordinates were recorded on a ${PLAN_VIEWPORT.width}x${PLAN_VIEWPORT.height} grid and are scaled to your screen.`,
+    `import time`,
+    `import webbrowser`,
+    ``,
+    `import pyautogui`,
+    ``,
+    `GRID_WIDTH, GRID_HEIGHT = ${PLAN_VIEWPORT.width}, ${PLAN_VIEWPORT.height}`,
+    `SCREEN_WIDTH, SCREEN_HEIGHT = pyautogui.size()`,
+    ``,
+    ``,
+    `def to_screen(x, y):`,
+    `    return x * SCREEN_WIDTH / GRID_WIDTH, y * SCREEN_HEIGHT / GRID_HEIGHT`,
+    ``,
+    ``,
+    plan.start_url
+      ? `webbrowser.open(${toStringLiteral(plan.start_url)})\ntime.sleep(3)`
+      : `# TODO: open the page the task starts on, e.g. webbrowser.open("https://example.com")`,
+  ];
+
+  plan.steps.forEach((step, index) => {
+    const [x, y] = centerOf(step);
+    lines.push(``, `# ${describeStep(step, index)}`);
+    switch (step.action) {
+      case "click":
+        lines.push(`pyautogui.click(*to_screen(${x}, ${y}))`, `time.sleep(1)`);
+        break;
+      case "type":
+        if (step.coordinate) lines.push(`pyautogui.click(*to_screen(${x}, ${y}))`);
+        lines.push(`pyautogui.write(${toStringLiteral(step.text ?? "")}, interval=0.02)`);
+        break;
+      case "scroll":
+        lines.push(`pyautogui.moveTo(*to_screen(${x}, ${y}))`, `pyautogui.scroll(-10)`);
+        break;
+      case "wait":
+        lines.push(`time.sleep(${PLAN_WAIT_STEP_MS / 1000})`);
+        break;
+    }
+  });
+
+  lines.push(``);
+  return lines.join("\n");
+};
+
+/** Turns a validated plan into a script that replays it with the chosen automation tool. */
+export function exportPlan(
+  plan: ComputerUsePlan,
+  target: PlanExportTarget,
+  { name }: { name?: string | null } = {}
+): ExportedPlan {
+  const basename = slugify(name ?? plan.task_description);
+
+  switch (target) {
+    case "playwright":
+      return {
+        filename: `${basename}.spec.ts`,
+        mimeType: "text/typescript",
+        content: renderPlaywright(plan),
+      };
+    case "puppeteer":
+      return {
+        filename: `${basename}.mjs`,
+        mimeType: "text/javascript",
+        content: renderPuppeteer(plan),
+      };
+    case "pyautogui":
+      return {
+        filename: `${basename.replace(/-/g, "_")}.py`,
+        mimeType: "text/x-python",
+        content: renderPyautogui(plan),
+      };
+  }
+}
@@ -0,0 +1,22 @@
+interface RevisionNode {
+  id: string;
+  parentId: string | null;
+}
+
+/**
+ * Returns the revisions that make up the analysis ending at `headId`, oldest first, by following
+ * `parentId` back to the root. Sibling branches are left out.
+ */
+export const getRevisionChain = <T extends RevisionNode>(
+  revisions: T[],
+  headId: string | null | undefined
+): T[] => {
+  const byId = new Map(revisions.map((revision) => [revision.id, revision]));
+  const chain: T[] = [];
+  let current = headId ? byId.get(headId) : undefined;
+  while (current && !chain.includes(current)) {
+    chain.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return chain;
+};
@@ -0,0 +1,71 @@
+import superjson from "superjson";
+import { type RouterInputs, type RouterOutputs } from "~/utils/api";
+
+type AnalyzeVideoInput = RouterInputs["video"]["analyzeVideo"];
+export type StreamedAnalysis = Pick<
+  RouterOutputs["video"]["analyzeScreencastUpdate"],
+  "revision" | "generatedAt"
+>;
+
+/** The recording isn't cached for streaming anymore, so the analysis has to go through the job queue. */
+export class AnalysisNotCachedError extends Error {}
+
+/**
+ * Runs an analysis through `/api/analyze-stream`, calling `onMarkdown` with the partial analysis as
+ * it arrives. Resolves with the saved revision once the stream completes.
+ */
+export const streamAnalysis = async (
+  input: AnalyzeVideoInput,
+  {
+    onMarkdown,
+    signal,
+  }: { onMarkdown: (markdown: string) => void; signal?: AbortSignal }
+): Promise<StreamedAnalysis> => {
+  const response = await fetch("/api/analyze-stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const body = (await response.json().catch(() => null)) as {
+      message?: string;
+    } | null;
+    const message = body?.message || "Failed to analyze video";
+    throw response.status === 412
+      ? new AnalysisNotCachedError(message)
+      : new Error(message);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      const event = rawEvent.match(/^event: (.*)$/m)?.[1];
+      const data = rawEvent.match(/^data: (.*)$/m)?.[1] ?? "";
+
+      if (event === "markdown") {
+        onMarkdown((JSON.parse(data) as { markdown: string }).markdown);
+      } else if (event === "done") {
+        return superjson.parse<StreamedAnalysis>(data);
+      } else if (event === "error") {
+        throw new Error((JSON.parse(data) as { message: string }).message);
+      }
+    }
+  }
+
+  throw new Error("Analysis stream ended unexpectedly");
+};
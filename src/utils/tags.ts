@@ -0,0 +1,19 @@
+// Chip classes per tag color, spelled out so Tailwind keeps them
+export const TAG_COLORS = {
+  gray: "bg-gray-100 text-gray-700",
+  red: "bg-red-100 text-red-700",
+  orange: "bg-orange-100 text-orange-700",
+  yellow: "bg-yellow-100 text-yellow-800",
+  green: "bg-green-100 text-green-700",
+  blue: "bg-blue-100 text-blue-700",
+  purple: "bg-purple-100 text-purple-700",
+} as const;
+
+export type TagColor = keyof typeof TAG_COLORS;
+
+export const isTagColor = (color: string): color is TagColor =>
+  color in TAG_COLORS;
+
+// The color of a tag's chip, gray for colors that aren't in the palette (anymore)
+export const getTagColorClass = (color: string) =>
+  TAG_COLORS[isTagColor(color) ? color : "gray"];
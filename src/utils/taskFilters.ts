@@ -0,0 +1,108 @@
+import { z } from "zod";
+
+// Filters tasks outside of any folder, in place of a folder id
+export const UNFILED_FOLDER = "unfiled";
+
+// `YYYY-MM-DD`, the value of a date input
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const TASK_STATUS_FILTERS = {
+  solved: "Solved",
+  unsolved: "Unsolved",
+  unreviewed: "Unreviewed",
+} as const;
+
+export const TASK_VISIBILITY_FILTERS = {
+  shared: "Shared",
+  private: "Private",
+} as const;
+
+export const TASK_ANALYSIS_FILTERS = {
+  analyzed: "Analyzed",
+  unanalyzed: "Not analyzed",
+} as const;
+
+export const TASK_FILE_FILTERS = {
+  available: "File available",
+  deleted: "File deleted",
+} as const;
+
+export const TASK_SORTS = {
+  newest: "Newest",
+  oldest: "Oldest",
+  title: "Title",
+  lastAnalyzed: "Last analyzed",
+} as const;
+
+const keysOf = <T extends Record<string, string>>(labels: T) =>
+  Object.keys(labels) as [keyof T & string, ...(keyof T & string)[]];
+
+/**
+ * Filters and sort of the task list, as kept in the `/tasks` URL and in saved views. Every field
+ * is optional; a missing field doesn't filter and a missing sort means newest first.
+ */
+export const taskFiltersSchema = z.object({
+  // `Video.solved` is a tri-state, null means nobody has reviewed the task yet
+  status: z.enum(keysOf(TASK_STATUS_FILTERS)).optional(),
+  visibility: z.enum(keysOf(TASK_VISIBILITY_FILTERS)).optional(),
+  analysis: z.enum(keysOf(TASK_ANALYSIS_FILTERS)).optional(),
+  file: z.enum(keysOf(TASK_FILE_FILTERS)).optional(),
+  // A folder id or `UNFILED_FOLDER`
+  folder: z.string().min(1).optional(),
+  tag: z.string().min(1).optional(),
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+  sort: z.enum(keysOf(TASK_SORTS)).optional(),
+});
+
+export type TaskFilters = z.infer<typeof taskFiltersSchema>;
+
+const TASK_FILTER_KEYS = Object.keys(
+  taskFiltersSchema.shape
+) as (keyof TaskFilters)[];
+
+/** Reads filters from URL query params, ignoring unknown keys and invalid values. */
+export function parseTaskFilters(
+  query: Record<string, string | string[] | undefined>
+): TaskFilters {
+  const filters: Record<string, unknown> = {};
+  for (const key of TASK_FILTER_KEYS) {
+    const parsed = taskFiltersSchema.shape[key].safeParse(query[key]);
+    if (parsed.success && parsed.data !== undefined) {
+      filters[key] = parsed.data;
+    }
+  }
+  return filters as TaskFilters;
+}
+
+/** The URL query params for `filters`, leaving out unset fields and the default sort. */
+export function taskFiltersToQuery(filters: TaskFilters) {
+  const query: Record<string, string> = {};
+  for (const key of TASK_FILTER_KEYS) {
+    const value = filters[key];
+    if (value && !(key === "sort" && value === "newest")) {
+      query[key] = value;
+    }
+  }
+  return query;
+}
+
+export const isTaskFilterKey = (key: string): key is keyof TaskFilters =>
+  (TASK_FILTER_KEYS as string[]).includes(key);
+
+export const hasTaskFilters = (filters: TaskFilters) =>
+  Object.keys(taskFiltersToQuery(filters)).length > 0;
+
+/**
+ * The `video.getAll` input for `filters`. The date range covers whole days in the browser's time
+ * zone, so it's resolved here rather than on the server.
+ */
+export function toTaskListInput({ from, to, ...filters }: TaskFilters) {
+  const createdBefore = to ? new Date(`${to}T00:00:00`) : undefined;
+  createdBefore?.setDate(createdBefore.getDate() + 1);
+  return {
+    ...filters,
+    createdAfter: from ? new Date(`${from}T00:00:00`) : undefined,
+    createdBefore,
+  };
+}
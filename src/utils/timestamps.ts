@@ -0,0 +1,83 @@
+// Analyses mark observed steps with `[mm:ss]` (or `[h:mm:ss]`) timestamps
+const TIMESTAMP_PATTERN = /\[(\d{1,2}:\d{2}(?::\d{2})?)\](?!\()/g;
+
+// Timestamps are rendered as links to `#t=<seconds>`, which the analysis view turns into seeks
+export const TIMESTAMP_LINK_PREFIX = "#t=";
+
+/** A moment in the recording referenced by an analysis. */
+export type AnalysisTimestamp = {
+  seconds: number;
+  // The rest of the line the timestamp appeared on
+  label: string;
+};
+
+/** Parses `mm:ss` or `h:mm:ss` into seconds, or returns null when the text isn't a timestamp. */
+export function parseTimestamp(value: string): number | null {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const [, hours, minutes, seconds] = match;
+  if (Number(seconds) >= 60) return null;
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+/** Formats seconds as `m:ss`, or `h:mm:ss` for recordings over an hour. */
+export function formatTimestamp(totalSeconds: number) {
+  const total = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/** Formats seconds as a WebVTT cue time, `hh:mm:ss.mmm`. */
+export function formatVttTimestamp(totalSeconds: number) {
+  const milliseconds = Math.max(0, Math.round(totalSeconds * 1000));
+  const hours = Math.floor(milliseconds / 3600000);
+  const minutes = Math.floor((milliseconds % 3600000) / 60000);
+  const seconds = Math.floor((milliseconds % 60000) / 1000);
+  return `${[hours, minutes, seconds]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":")}.${String(milliseconds % 1000).padStart(3, "0")}`;
+}
+
+// Code blocks are left alone; timestamps in code are more likely to be data than references
+const CODE_BLOCK_PATTERN = /(```[\s\S]*?```)/g;
+
+/** Collects the `[mm:ss]` timestamps in an analysis, in order of appearance. */
+export function extractTimestamps(markdown: string): AnalysisTimestamp[] {
+  const timestamps: AnalysisTimestamp[] = [];
+  const prose = markdown.split(CODE_BLOCK_PATTERN).filter((_, index) => index % 2 === 0);
+
+  for (const line of prose.join("\n").split("\n")) {
+    for (const match of line.matchAll(TIMESTAMP_PATTERN)) {
+      const seconds = parseTimestamp(match[1] ?? "");
+      if (seconds === null) continue;
+      const label = line
+        .replace(TIMESTAMP_PATTERN, "")
+        .replace(/^(?:\s*(?:[>*-]|\d+\.))*\s*/, "")
+        .replace(/\*\*/g, "")
+        .trim();
+      timestamps.push({ seconds, label });
+    }
+  }
+  return timestamps;
+}
+
+/** Turns `[mm:ss]` timestamps into markdown links the analysis view renders as seek buttons. */
+export function linkTimestamps(markdown: string) {
+  return markdown
+    .split(CODE_BLOCK_PATTERN)
+    .map((part, index) =>
+      index % 2 === 1
+        ? part
+        : part.replace(TIMESTAMP_PATTERN, (original, timestamp: string) => {
+            const seconds = parseTimestamp(timestamp);
+            return seconds === null
+              ? original
+              : `[${timestamp}](${TIMESTAMP_LINK_PREFIX}${seconds})`;
+          })
+    )
+    .join("");
+}
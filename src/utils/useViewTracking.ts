@@ -0,0 +1,65 @@
+import { type MediaPlayerInstance } from "@vidstack/react";
+import { useEffect, type RefObject } from "react";
+import { api } from "~/utils/api";
+import { getAnonymousViewerId } from "~/utils/viewerAnalytics";
+
+interface Options {
+  // Undefined until the task has loaded
+  videoId: string | undefined;
+  // From `video.openShareLink`, for people who opened the task with a share link
+  shareGrant?: string | null;
+  playerRef: RefObject<MediaPlayerInstance>;
+  // Whether the player is shown; the visit is counted either way
+  hasPlayer: boolean;
+}
+
+/**
+ * Counts a visit to a task and how far into the recording the viewer gets, in steps of a tenth,
+ * so owners can see who watched what they shared.
+ */
+export function useViewTracking({
+  videoId,
+  shareGrant,
+  playerRef,
+  hasPlayer,
+}: Options) {
+  const { mutate: trackView } = api.analytics.trackView.useMutation();
+
+  useEffect(() => {
+    if (!videoId) return;
+    trackView({
+      videoId,
+      anonymousId: getAnonymousViewerId(),
+      shareGrant,
+      isNewVisit: true,
+      referrer: document.referrer || null,
+    });
+    // Only once per page load; the grant doesn't change who the viewer is
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [videoId, trackView]);
+
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!videoId || !hasPlayer || !player) return;
+    let furthest = 0;
+    let reported = 0;
+    return player.subscribe(({ currentTime, duration, ended }) => {
+      if (!duration || !Number.isFinite(duration)) return;
+      furthest = Math.max(
+        furthest,
+        ended ? 1 : Math.min(currentTime / duration, 1)
+      );
+      // Reported in tenths, and once more when the end is reached
+      if (furthest - reported >= 0.1 || (furthest === 1 && reported < 1)) {
+        reported = furthest;
+        trackView({
+          videoId,
+          anonymousId: getAnonymousViewerId(),
+          shareGrant,
+          watchThrough: furthest,
+        });
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [videoId, hasPlayer, playerRef, trackView]);
+}
@@ -0,0 +1,20 @@
+// The reactions viewers can leave on the player
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "🎉", "😮", "🤔"] as const;
+
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number];
+
+const ANONYMOUS_ID_KEY = "anonymousViewerId";
+
+/** A random id this browser keeps, so anonymous viewers are counted once per task. */
+export const getAnonymousViewerId = () => {
+  let id = localStorage.getItem(ANONYMOUS_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(ANONYMOUS_ID_KEY, id);
+  }
+  return id;
+};
+
+/** Formats a watch-through fraction, e.g. `0.42` as `42%`. */
+export const formatWatchThrough = (fraction: number) =>
+  `${Math.round(fraction * 100)}%`;
@@ -0,0 +1,157 @@
+import assert from "assert";
+import path from "path";
+import { getAnalysisProvider } from "~/server/analysisProvider";
+import {
+  buildVideoAnalysisPrompt,
+  parseAnalysisResponse,
+  parsePartialAnalysis,
+  validateAnalysisPlan,
+} from "~/server/analysis";
+import {
+  formatTranscriptForPrompt,
+  formatTranscriptVtt,
+  getTranscriber,
+} from "~/server/transcription";
+import { extractTimestamps, linkTimestamps } from "~/utils/timestamps";
+
+/**
+ * Runs the analysis pipeline against the fake provider, no network or API keys needed
+ * Run with: tsx tests/analysis-provider-test.ts
+ */
+const testAnalysisProvider = async () => {
+  const provider = getAnalysisProvider("fake");
+  const request = {
+    prompt: buildVideoAnalysisPrompt({
+      userContext: "Export the weekly report",
+      previousAnalysis: "No previous analysis.",
+    }),
+    cachedContext: "fake-cache/weekly-report",
+  };
+
+  console.log(`🚀 Testing provider: ${provider.name} (${provider.model})`);
+
+  // Step 1: Responses only depend on the request
+  console.log("\n🔁 Checking responses are deterministic...");
+  const response = await provider.generate(request);
+  assert.strictEqual(await provider.generate(request), response);
+  assert.notStrictEqual(
+    await provider.generate({ ...request, prompt: request.prompt + " Use Python." }),
+    response
+  );
+  console.log("✅ Same request, same response");
+
+  // Step 2: Streaming yields the same text in pieces
+  console.log("\n📡 Checking streamed response...");
+  const chunks: string[] = [];
+  for await (const chunk of provider.stream(request)) {
+    chunks.push(chunk);
+  }
+  assert.ok(chunks.length > 1, "Expected more than one chunk");
+  assert.strictEqual(chunks.join(""), response);
+  console.log(`✅ Received ${chunks.length} chunks`);
+
+  // Step 3: The response parses into a title, markdown and plan
+  console.log("\n🧩 Parsing response...");
+  const parsed = parseAnalysisResponse(response);
+  assert.ok(parsed.title?.startsWith("Fake Analysis"));
+  assert.ok(parsed.markdown.includes("## Task Summary"));
+  assert.ok(!parsed.markdown.includes("COMPUTER_USE_PLAN"));
+  assert.ok(Array.isArray(parsed.plan?.steps));
+  console.log(`✅ Parsed "${parsed.title ?? ""}" with a plan`);
+
+  // Step 4: Partial responses never include the unfinished plan
+  console.log("\n✂️  Parsing partial responses...");
+  const separatorIndex = response.indexOf("---COMPUTER_USE_PLAN---");
+  const partial = parsePartialAnalysis(response.slice(0, separatorIndex + 40));
+  assert.strictEqual(partial, parsed.markdown);
+  console.log("✅ Partial markdown matches the final markdown");
+
+  // Step 5: Aborting stops the stream
+  console.log("\n🛑 Checking aborted streams...");
+  const abortController = new AbortController();
+  abortController.abort();
+  await assert.rejects(async () => {
+    for await (const chunk of provider.stream({ ...request, signal: abortController.signal })) {
+      void chunk;
+    }
+  });
+  console.log("✅ Aborted stream threw");
+
+  // Step 6: Invalid plans get one repair request
+  console.log("\n🩹 Validating and repairing plans...");
+  const valid = await validateAnalysisPlan(parsed, { provider });
+  assert.deepStrictEqual(valid.planErrors, []);
+  assert.strictEqual(valid.plan?.steps.length, 3);
+
+  const broken = { ...parsed, plan: { steps: [{ action: "drag" }] } };
+  const unrepaired = await validateAnalysisPlan(broken, { provider, repair: false });
+  assert.strictEqual(unrepaired.plan, null);
+  assert.ok(unrepaired.planErrors.some((error) => error.startsWith("steps.0.action")));
+
+  const repaired = await validateAnalysisPlan(broken, { provider });
+  assert.deepStrictEqual(repaired.planErrors, []);
+  assert.ok(repaired.plan);
+  console.log(`✅ Repaired plan after: ${unrepaired.planErrors.join("; ")}`);
+
+  // Step 7: mm:ss timestamps are stored as seconds
+  console.log("\n⏱️  Extracting timestamps...");
+  assert.deepStrictEqual(
+    valid.plan?.steps.map((step) => step.timestamp),
+    [1, 3, 6]
+  );
+  assert.deepStrictEqual(extractTimestamps(parsed.markdown), [
+    { seconds: 1, label: "Focus the application window" },
+    { seconds: 3, label: "Enter the value shown in the recording" },
+    { seconds: 6, label: "Wait for the results to load" },
+  ]);
+  assert.ok(linkTimestamps(parsed.markdown).includes("[00:03](#t=3)"));
+  assert.deepStrictEqual(extractTimestamps("```\n[01:00] in code\n```"), []);
+  console.log("✅ Timestamps extracted");
+
+  // Step 8: The offline transcriber feeds captions and the prompt
+  console.log("\n🎙️  Transcribing with the fake transcriber...");
+  const transcriber = getTranscriber("fake");
+  const videoPath = path.join(__dirname, "assets", "example_video.webm");
+  const segments = await transcriber.transcribe(videoPath, { mimeType: "video/webm" });
+  assert.deepStrictEqual(
+    await transcriber.transcribe(videoPath, { mimeType: "video/webm" }),
+    segments
+  );
+  assert.ok(segments.length > 0);
+
+  const vtt = formatTranscriptVtt(segments);
+  assert.ok(vtt.startsWith("WEBVTT\n\n00:00:00.000 --> 00:00:02.500\n"));
+  assert.strictEqual(vtt.match(/ --> /g)?.length, segments.length);
+
+  const transcript = formatTranscriptForPrompt(segments);
+  assert.ok(transcript.startsWith("[0:00] "));
+  assert.deepStrictEqual(
+    extractTimestamps(transcript).map((timestamp) => timestamp.seconds),
+    segments.map((segment) => segment.start)
+  );
+  const promptWithTranscript = buildVideoAnalysisPrompt({
+    userContext: "Export the weekly report",
+    previousAnalysis: "No previous analysis.",
+    transcript,
+  });
+  assert.ok(promptWithTranscript.includes(transcript));
+  assert.notStrictEqual(
+    await provider.generate({ ...request, prompt: promptWithTranscript }),
+    response
+  );
+  console.log(`✅ Transcribed ${segments.length} segments`);
+
+  console.log("\n🎉 All tests passed!");
+};
+
+// Run the test
+testAnalysisProvider()
+  .then(() => {
+    console.log("\n✨ Test completed successfully!");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("\n❌ Test failed with error:");
+    console.error(error);
+    process.exit(1);
+  });
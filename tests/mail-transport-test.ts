@@ -0,0 +1,79 @@
+import assert from "assert";
+import { buildShareInviteMail, getMailTransport, outbox } from "~/server/mail";
+
+/**
+ * Sends a share invite through the outbox transport, no network or API keys needed
+ * Run with: tsx tests/mail-transport-test.ts
+ */
+const testMailTransport = async () => {
+  const transport = getMailTransport("outbox");
+  console.log(`🚀 Testing transport: ${transport.name}`);
+
+  // Step 1: Invites say who shared what and link to the task
+  console.log("\n✉️  Building invite...");
+  const invite = buildShareInviteMail({
+    to: "teammate@example.com",
+    inviterName: "Ada <admin>",
+    videoTitle: 'Export the "weekly" report',
+    url: "https://www.greadings.com/task/abc123",
+    canComment: true,
+  });
+  assert.strictEqual(invite.to, "teammate@example.com");
+  assert.ok(invite.subject.includes('Export the "weekly" report'));
+  assert.ok(invite.text.includes("view and comment on"));
+  assert.ok(invite.text.includes("https://www.greadings.com/task/abc123"));
+  assert.ok(invite.html.includes("Ada &lt;admin&gt;"));
+  assert.ok(!invite.html.includes("<admin>"));
+  assert.ok(invite.html.includes("Export the &quot;weekly&quot; report"));
+  console.log(`✅ Built "${invite.subject}"`);
+
+  // Step 2: Viewers aren't told they can comment
+  const viewerInvite = buildShareInviteMail({
+    to: "viewer@example.com",
+    inviterName: "Ada",
+    videoTitle: "Weekly report",
+    url: "https://www.greadings.com/task/abc123",
+    canComment: false,
+  });
+  assert.ok(!viewerInvite.text.includes("comment"));
+  console.log("✅ Viewer invites only mention viewing");
+
+  // Step 3: The outbox keeps sent messages in order
+  console.log("\n📬 Sending through the outbox...");
+  await transport.send(invite);
+  await transport.send(viewerInvite);
+  assert.deepStrictEqual(outbox.slice(-2), [invite, viewerInvite]);
+  console.log(`✅ Outbox holds ${outbox.length} messages`);
+
+  // Step 4: Without configuration nothing is mailed for real
+  const previous = {
+    MAIL_TRANSPORT: process.env.MAIL_TRANSPORT,
+    RESEND_API_KEY: process.env.RESEND_API_KEY,
+  };
+  delete process.env.MAIL_TRANSPORT;
+  delete process.env.RESEND_API_KEY;
+  assert.strictEqual(getMailTransport().name, "outbox");
+  process.env.RESEND_API_KEY = "re_test";
+  assert.strictEqual(getMailTransport().name, "resend");
+  process.env.MAIL_TRANSPORT = "outbox";
+  assert.strictEqual(getMailTransport().name, "outbox");
+  for (const [key, value] of Object.entries(previous)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+  console.log("✅ Falls back to the outbox without an API key");
+
+  console.log("\n🎉 All tests passed!");
+};
+
+// Run the test
+testMailTransport()
+  .then(() => {
+    console.log("\n✨ Test completed successfully!");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("\n❌ Test failed with error:");
+    console.error(error);
+    process.exit(1);
+  });